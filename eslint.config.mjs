@@ -0,0 +1,15 @@
+import eslint from "@eslint/js";
+import tseslint from "typescript-eslint";
+
+export default tseslint.config(
+    { ignores: ["dist"] },
+    eslint.configs.recommended,
+    tseslint.configs.recommended,
+    {
+        rules: {
+            // Request bodies, Mongo filters and logger arguments are typed loosely on purpose
+            "@typescript-eslint/no-explicit-any": "off",
+            "@typescript-eslint/no-unused-vars": ["warn", { ignoreRestSiblings: true }],
+        },
+    },
+);
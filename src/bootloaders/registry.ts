@@ -2,4 +2,10 @@
 
 import "../server/server";
 import "../mongoose/database";
-import "../server/auth/moderation";
\ No newline at end of file
+import "../server/auth/moderation";
+import "../server/auth/jwt";
+import "../server/auth/keyring";
+import "../server/auth/email_verification";
+import "../server/auth/phone";
+import "../server/auth/account_deletion";
+import "../email/outbox";
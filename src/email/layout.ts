@@ -0,0 +1,96 @@
+import CONFIG from "../util/config";
+
+/*
+ * Emails are written once as a list of blocks (the partials below) and rendered to both HTML and plain text,
+ * so the two variants can't drift apart. Everything interpolated into the HTML is escaped.
+ */
+
+// TYPES
+
+/** A piece of an email, rendered for both variants */
+export type EmailBlock = { html: string; text: string };
+
+/** What a template renders to, before the layout is applied */
+export type EmailContent = {
+    subject: string;
+    /** Heading at the top of the email */
+    title: string;
+    blocks: EmailBlock[];
+};
+
+/** Languages emails can be written in, templates always have an English copy to fall back to */
+export const EMAIL_LANGUAGES = ["en", "af"] as const;
+export type EmailLanguage = typeof EMAIL_LANGUAGES[number];
+
+// HELPERS
+
+/** Escape a value for use in HTML */
+export function escapeHtml(value: string | number): string {
+    return String(value)
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+}
+
+// PARTIALS
+
+/** Opening line of the email */
+export function greeting(salutation: string, name: string): EmailBlock {
+    return {
+        html: `<p>${escapeHtml(salutation)} ${escapeHtml(name)},</p>`,
+        text: `${salutation} ${name},`,
+    };
+}
+
+/** Paragraph of text */
+export function paragraph(text: string): EmailBlock {
+    return { html: `<p>${escapeHtml(text)}</p>`, text };
+}
+
+/** Link styled as a button, the plain text variant shows the URL */
+export function button(label: string, url: string): EmailBlock {
+    return {
+        html: `<p><a href="${escapeHtml(url)}" style="display: inline-block; padding: 10px 20px; background: #cc0000; color: #ffffff; text-decoration: none; border-radius: 6px;">${escapeHtml(label)}</a></p>`,
+        text: `${label}: ${url}`,
+    };
+}
+
+/** Less important text, e.g. what to do if the email was unexpected */
+export function note(text: string): EmailBlock {
+    return { html: `<p style="color: #777777; font-size: 0.9em;">${escapeHtml(text)}</p>`, text };
+}
+
+// LAYOUT
+
+const FOOTERS: Record<EmailLanguage, string> = {
+    en: "You're receiving this email because of your GigTree account.",
+    af: "Jy ontvang hierdie e-pos weens jou GigTree-rekening.",
+};
+
+/** Wrap the content of a template in the shared layout */
+export function renderLayout(content: EmailContent, language: EmailLanguage): { subject: string; text: string; html: string } {
+    const footer = FOOTERS[language];
+
+    const html = `<!DOCTYPE html>
+<html lang="${language}">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(content.subject)}</title>
+</head>
+<body style="margin: 0; padding: 24px; background: #f4f4f4; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; color: #222222;">
+    <div style="max-width: 560px; margin: 0 auto; padding: 24px; background: #ffffff; border-top: 4px solid #cc0000; border-radius: 8px;">
+        <h1 style="font-size: 1.4em; color: #cc0000;">${escapeHtml(content.title)}</h1>
+        ${content.blocks.map(block => block.html).join("\n        ")}
+        <hr style="border: none; border-top: 1px solid #eeeeee; margin-top: 24px;">
+        <p style="color: #999999; font-size: 0.8em;">${escapeHtml(footer)} <a href="${escapeHtml(CONFIG.domain.frontendUri)}" style="color: #999999;">GigTree</a></p>
+    </div>
+</body>
+</html>`;
+
+    const text = [content.title, ...content.blocks.map(block => block.text), `--\n${footer}`].join("\n\n");
+
+    return { subject: content.subject, text, html };
+}
@@ -0,0 +1,143 @@
+import cron from "node-schedule";
+import CONFIG from "../util/config";
+import { getLogger } from "../util/logger";
+import { stime } from "../util/static";
+import { getEmailTransportName, sendEmail } from "../util/mailer";
+import emailOutboxModel from "../mongoose/models/email_outbox";
+import { EmailTemplateName, EmailTemplateParams, renderEmail } from "./templates";
+
+const logger = getLogger("EMAIL.OUTBOX");
+
+/*
+ * Every email is written to the outbox before it's delivered, so a failing SMTP server delays emails instead of losing them.
+ * Delivery is tried right away, failures are retried by a job with a growing delay until `CONFIG.mail.maxAttempts` is reached.
+ */
+
+/** How long an instance may take to deliver an email before another one is allowed to try */
+const SEND_LOCK_DURATION = stime.minute * 2;
+/** Longest delay between two attempts */
+const MAX_RETRY_DELAY = stime.hour * 6;
+/** Emails handled per run of the retry job */
+const BATCH_SIZE = 50;
+
+/** Who an email goes to */
+export type EmailRecipient = {
+    to: string;
+    /** ID of the user the email is for, so their emails can be looked up */
+    userId?: string;
+    /** Preferred language of the recipient */
+    language?: string | null;
+};
+
+/**
+ * Render a template and add it to the outbox, delivery happens in the background
+ * @returns The ID of the queued email, or null if email sending is disabled
+ */
+export async function queueEmail<N extends EmailTemplateName>(template: N, params: EmailTemplateParams<N>, recipient: EmailRecipient): Promise<string | null> {
+    if (!getEmailTransportName()) {
+        logger.warn(`Not queueing ${template} email, email sending is disabled in the configuration.`);
+        return null;
+    }
+
+    const { subject, text, html, language } = renderEmail(template, params, recipient.language);
+    const email = await emailOutboxModel.create({
+        to: recipient.to,
+        userId: recipient.userId,
+        template, language, subject, text, html,
+        expiresAt: new Date(Date.now() + CONFIG.mail.retention),
+    });
+
+    logger.debug(`Queued ${template} email ${email.emailId}`);
+    deliverEmail(email.emailId).catch(error => logger.error(`Failed to deliver email ${email.emailId}:`, error));
+    return email.emailId;
+}
+
+/** Delay before the next attempt after the given amount of failed attempts */
+function getRetryDelay(attempts: number): number {
+    return Math.min(CONFIG.mail.retryDelay * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY);
+}
+
+/**
+ * Try to deliver an email from the outbox, if it's due and no other instance is already sending it
+ * @returns Whether the email was delivered
+ */
+export async function deliverEmail(emailId: string): Promise<boolean> {
+    const now = new Date();
+
+    // Claim the email, so instances running the retry job at the same time don't send it twice
+    const email = await emailOutboxModel.findOneAndUpdate(
+        {
+            emailId,
+            status: { $in: ["pending", "sending"] },
+            nextAttemptAt: { $lte: now },
+            $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lte: now } }],
+        },
+        { $set: { status: "sending", lockedUntil: new Date(now.getTime() + SEND_LOCK_DURATION) }, $inc: { attempts: 1 } },
+        { new: true },
+    ).lean();
+    if (!email) return false;
+
+    try {
+        const { messageId } = await sendEmail(email.to, email.subject, email.text || "", email.html);
+
+        // The bodies may contain single-use links, they aren't needed anymore once delivered
+        await emailOutboxModel.updateOne({ emailId }, {
+            $set: { status: "sent", sentAt: new Date(), transport: getEmailTransportName(), messageId },
+            $unset: { text: 1, html: 1, lockedUntil: 1, lastError: 1 },
+        });
+        logger.info(`Delivered ${email.template} email ${emailId} after ${email.attempts} attempt(s)`);
+        return true;
+    } catch (error) {
+        const lastError = (error as Error).message || "Unknown Error";
+        const failed = email.attempts >= CONFIG.mail.maxAttempts;
+
+        await emailOutboxModel.updateOne({ emailId }, {
+            $set: failed
+                ? { status: "failed", lastError }
+                : { status: "pending", lastError, nextAttemptAt: new Date(Date.now() + getRetryDelay(email.attempts)) },
+            $unset: { lockedUntil: 1 },
+        });
+
+        if (failed) logger.error(`Giving up on ${email.template} email ${emailId} after ${email.attempts} attempts: ${lastError}`);
+        else logger.warn(`Attempt ${email.attempts} at delivering ${email.template} email ${emailId} failed, retrying later: ${lastError}`);
+        return false;
+    }
+}
+
+/**
+ * Put a failed email back in the outbox for another round of attempts
+ * @returns Whether the email was failed and could be retried
+ */
+export async function retryEmail(emailId: string): Promise<boolean> {
+    const result = await emailOutboxModel.updateOne(
+        { emailId, status: "failed", text: { $exists: true } },
+        { $set: { status: "pending", attempts: 0, nextAttemptAt: new Date() }, $unset: { lastError: 1 } },
+    );
+    if (result.modifiedCount === 0) return false;
+
+    deliverEmail(emailId).catch(error => logger.error(`Failed to deliver email ${emailId}:`, error));
+    return true;
+}
+
+/** Deliver every email that is due, including ones left behind by an instance that stopped while sending */
+export async function processOutbox(): Promise<void> {
+    if (!getEmailTransportName()) return;
+
+    try {
+        const now = new Date();
+        const due = await emailOutboxModel.find(
+            { status: { $in: ["pending", "sending"] }, nextAttemptAt: { $lte: now }, $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lte: now } }] },
+            { emailId: 1 },
+        ).sort({ nextAttemptAt: 1 }).limit(BATCH_SIZE).lean();
+
+        for (const { emailId } of due) await deliverEmail(emailId);
+        if (due.length > 0) logger.debug(`Processed ${due.length} emails from the outbox`);
+    } catch (error) {
+        logger.error("Failed to process the email outbox:", error);
+    }
+}
+
+// Retry failed deliveries every minute
+cron.scheduleJob('* * * * *', async () => {
+    await processOutbox();
+});
@@ -0,0 +1,234 @@
+import CONFIG from "../util/config";
+import { button, EMAIL_LANGUAGES, EmailContent, EmailLanguage, greeting, note, paragraph, renderLayout } from "./layout";
+
+// TYPES
+
+/** One language copy of a template */
+type TemplateCopy<P> = (params: P) => EmailContent;
+
+/** A named email, with an English copy and optionally copies in other languages */
+type EmailTemplate<P> = { en: TemplateCopy<P> } & Partial<Record<EmailLanguage, TemplateCopy<P>>>;
+
+function defineTemplate<P>(template: EmailTemplate<P>): EmailTemplate<P> {
+    return template;
+}
+
+// TEMPLATES
+
+/** Every email the server sends, add new ones here */
+export const EMAIL_TEMPLATES = {
+    emailVerification: defineTemplate<{ firstName: string; link: string; expiresInHours: number }>({
+        en: ({ firstName, link, expiresInHours }) => ({
+            subject: "GigTree - Verify Your Email Address",
+            title: "GigTree Email Verification Required",
+            blocks: [
+                greeting("Hi", firstName),
+                paragraph("Thank you for signing up for GigTree! Please verify your email address by clicking the link below:"),
+                button("Verify Email", link),
+                note(`This link will expire in ${expiresInHours} hours.`),
+            ],
+        }),
+        af: ({ firstName, link, expiresInHours }) => ({
+            subject: "GigTree - Bevestig Jou E-posadres",
+            title: "GigTree E-posbevestiging Benodig",
+            blocks: [
+                greeting("Hallo", firstName),
+                paragraph("Dankie dat jy by GigTree aangesluit het! Bevestig asseblief jou e-posadres deur op die skakel hieronder te klik:"),
+                button("Bevestig E-pos", link),
+                note(`Hierdie skakel verval oor ${expiresInHours} uur.`),
+            ],
+        }),
+    }),
+
+    passwordReset: defineTemplate<{ firstName: string; link: string; expiresInMinutes: number }>({
+        en: ({ firstName, link, expiresInMinutes }) => ({
+            subject: "GigTree - Reset Your Password",
+            title: "GigTree Password Reset",
+            blocks: [
+                greeting("Hi", firstName),
+                paragraph("We received a request to reset the password of your GigTree account. Click the link below to choose a new password:"),
+                button("Reset Password", link),
+                paragraph(`This link will expire in ${expiresInMinutes} minutes and can only be used once.`),
+                note("If you didn't request this, you can safely ignore this email, your password won't change."),
+            ],
+        }),
+        af: ({ firstName, link, expiresInMinutes }) => ({
+            subject: "GigTree - Stel Jou Wagwoord Terug",
+            title: "GigTree Wagwoordherstel",
+            blocks: [
+                greeting("Hallo", firstName),
+                paragraph("Ons het 'n versoek ontvang om die wagwoord van jou GigTree-rekening terug te stel. Klik op die skakel hieronder om 'n nuwe wagwoord te kies:"),
+                button("Stel Wagwoord Terug", link),
+                paragraph(`Hierdie skakel verval oor ${expiresInMinutes} minute en kan net een keer gebruik word.`),
+                note("As jy dit nie versoek het nie, kan jy hierdie e-pos ignoreer, jou wagwoord sal nie verander nie."),
+            ],
+        }),
+    }),
+
+    magicLink: defineTemplate<{ firstName: string; link: string; expiresInMinutes: number }>({
+        en: ({ firstName, link, expiresInMinutes }) => ({
+            subject: "GigTree - Your Login Link",
+            title: "GigTree Login",
+            blocks: [
+                greeting("Hi", firstName),
+                paragraph("Click the link below to log in to your GigTree account, no password needed:"),
+                button("Log In", link),
+                paragraph(`This link will expire in ${expiresInMinutes} minutes and can only be used once.`),
+                note("If you didn't request this, you can safely ignore this email, no one can log in without this link."),
+            ],
+        }),
+        af: ({ firstName, link, expiresInMinutes }) => ({
+            subject: "GigTree - Jou Aanmeldskakel",
+            title: "GigTree Aanmelding",
+            blocks: [
+                greeting("Hallo", firstName),
+                paragraph("Klik op die skakel hieronder om by jou GigTree-rekening aan te meld, geen wagwoord nodig nie:"),
+                button("Meld Aan", link),
+                paragraph(`Hierdie skakel verval oor ${expiresInMinutes} minute en kan net een keer gebruik word.`),
+                note("As jy dit nie versoek het nie, kan jy hierdie e-pos ignoreer, niemand kan sonder hierdie skakel aanmeld nie."),
+            ],
+        }),
+    }),
+
+    accountLocked: defineTemplate<{ firstName: string; lockoutMinutes: number; resetLink: string }>({
+        en: ({ firstName, lockoutMinutes, resetLink }) => ({
+            subject: "GigTree - Your Account Was Locked",
+            title: "GigTree Account Locked",
+            blocks: [
+                greeting("Hi", firstName),
+                paragraph(`There were too many failed attempts to log in to your GigTree account, so logging in has been locked for ${lockoutMinutes} minutes.`),
+                paragraph("If this was you, you can try again once the lock is lifted. If it wasn't, someone may be trying to guess your password, we recommend choosing a new one:"),
+                button("Reset Password", resetLink),
+            ],
+        }),
+        af: ({ firstName, lockoutMinutes, resetLink }) => ({
+            subject: "GigTree - Jou Rekening Is Gesluit",
+            title: "GigTree Rekening Gesluit",
+            blocks: [
+                greeting("Hallo", firstName),
+                paragraph(`Daar was te veel mislukte pogings om by jou GigTree-rekening aan te meld, daarom is aanmelding vir ${lockoutMinutes} minute gesluit.`),
+                paragraph("As dit jy was, kan jy weer probeer sodra die slot opgehef is. As dit nie jy was nie, probeer iemand dalk jou wagwoord raai, ons beveel aan dat jy 'n nuwe een kies:"),
+                button("Stel Wagwoord Terug", resetLink),
+            ],
+        }),
+    }),
+
+    emailChangeConfirm: defineTemplate<{ firstName: string; link: string; expiresInHours: number }>({
+        en: ({ firstName, link, expiresInHours }) => ({
+            subject: "GigTree - Confirm Your New Email",
+            title: "GigTree Email Change",
+            blocks: [
+                greeting("Hi", firstName),
+                paragraph("You asked to use this email for your GigTree account. Click the link below to confirm the change:"),
+                button("Confirm Email", link),
+                paragraph(`This link will expire in ${expiresInHours} hours and can only be used once.`),
+                note("If you didn't request this, you can safely ignore this email."),
+            ],
+        }),
+        af: ({ firstName, link, expiresInHours }) => ({
+            subject: "GigTree - Bevestig Jou Nuwe E-pos",
+            title: "GigTree E-posverandering",
+            blocks: [
+                greeting("Hallo", firstName),
+                paragraph("Jy het gevra om hierdie e-pos vir jou GigTree-rekening te gebruik. Klik op die skakel hieronder om die verandering te bevestig:"),
+                button("Bevestig E-pos", link),
+                paragraph(`Hierdie skakel verval oor ${expiresInHours} uur en kan net een keer gebruik word.`),
+                note("As jy dit nie versoek het nie, kan jy hierdie e-pos ignoreer."),
+            ],
+        }),
+    }),
+
+    emailChangeNotice: defineTemplate<{ firstName: string; newEmail: string; cancelLink: string }>({
+        en: ({ firstName, newEmail, cancelLink }) => ({
+            subject: "GigTree - Your Email Is About To Change",
+            title: "GigTree Email Change Requested",
+            blocks: [
+                greeting("Hi", firstName),
+                paragraph(`Someone asked to change the email of your GigTree account to ${newEmail}. It will change once the new address is confirmed.`),
+                paragraph("If this wasn't you, cancel the change using the link below. This also logs out every session, change your password right after."),
+                button("Cancel Email Change", cancelLink),
+            ],
+        }),
+        af: ({ firstName, newEmail, cancelLink }) => ({
+            subject: "GigTree - Jou E-pos Gaan Binnekort Verander",
+            title: "GigTree E-posverandering Versoek",
+            blocks: [
+                greeting("Hallo", firstName),
+                paragraph(`Iemand het gevra om die e-pos van jou GigTree-rekening na ${newEmail} te verander. Dit sal verander sodra die nuwe adres bevestig is.`),
+                paragraph("As dit nie jy was nie, kanselleer die verandering met die skakel hieronder. Dit meld ook elke sessie af, verander jou wagwoord direk daarna."),
+                button("Kanselleer E-posverandering", cancelLink),
+            ],
+        }),
+    }),
+
+    accountDeletionConfirm: defineTemplate<{ firstName: string; link: string; expiresInHours: number; gracePeriodDays: number }>({
+        en: ({ firstName, link, expiresInHours, gracePeriodDays }) => ({
+            subject: "GigTree - Confirm Deleting Your Account",
+            title: "GigTree Account Deletion",
+            blocks: [
+                greeting("Hi", firstName),
+                paragraph(`You asked to delete your GigTree account. Click the link below to confirm, your account and everything in it will be deleted ${gracePeriodDays} days later:`),
+                button("Delete My Account", link),
+                paragraph(`This link will expire in ${expiresInHours} hours and can only be used once.`),
+                note("If you didn't request this, you can safely ignore this email, nothing will be deleted."),
+            ],
+        }),
+        af: ({ firstName, link, expiresInHours, gracePeriodDays }) => ({
+            subject: "GigTree - Bevestig Die Skrap Van Jou Rekening",
+            title: "GigTree Rekeningskrapping",
+            blocks: [
+                greeting("Hallo", firstName),
+                paragraph(`Jy het gevra om jou GigTree-rekening te skrap. Klik op die skakel hieronder om te bevestig, jou rekening en alles daarin sal ${gracePeriodDays} dae later geskrap word:`),
+                button("Skrap My Rekening", link),
+                paragraph(`Hierdie skakel verval oor ${expiresInHours} uur en kan net een keer gebruik word.`),
+                note("As jy dit nie versoek het nie, kan jy hierdie e-pos ignoreer, niks sal geskrap word nie."),
+            ],
+        }),
+    }),
+
+    accountDeletionScheduled: defineTemplate<{ firstName: string; deletionDate: string; loginLink: string }>({
+        en: ({ firstName, deletionDate, loginLink }) => ({
+            subject: "GigTree - Your Account Will Be Deleted",
+            title: "GigTree Account Deletion Scheduled",
+            blocks: [
+                greeting("Hi", firstName),
+                paragraph(`Your GigTree account will be deleted on ${deletionDate}, together with your listings and messages. Every session has been logged out.`),
+                paragraph("Changed your mind? Log in before then and cancel the deletion from your account settings."),
+                button("Log In", loginLink),
+            ],
+        }),
+        af: ({ firstName, deletionDate, loginLink }) => ({
+            subject: "GigTree - Jou Rekening Sal Geskrap Word",
+            title: "GigTree Rekeningskrapping Geskeduleer",
+            blocks: [
+                greeting("Hallo", firstName),
+                paragraph(`Jou GigTree-rekening sal op ${deletionDate} geskrap word, saam met jou advertensies en boodskappe. Elke sessie is afgemeld.`),
+                paragraph("Van plan verander? Meld voor dan aan en kanselleer die skrapping in jou rekeninginstellings."),
+                button("Meld Aan", loginLink),
+            ],
+        }),
+    }),
+};
+
+export type EmailTemplateName = keyof typeof EMAIL_TEMPLATES;
+export type EmailTemplateParams<N extends EmailTemplateName> = typeof EMAIL_TEMPLATES[N] extends EmailTemplate<infer P> ? P : never;
+
+// RENDERING
+
+/** Pick the language an email is sent in, falling back to the configured default */
+export function resolveEmailLanguage(language?: string | null): EmailLanguage {
+    if (language && (EMAIL_LANGUAGES as readonly string[]).includes(language)) return language as EmailLanguage;
+    return (EMAIL_LANGUAGES as readonly string[]).includes(CONFIG.mail.defaultLanguage) ? CONFIG.mail.defaultLanguage as EmailLanguage : "en";
+}
+
+/**
+ * Render a template to its subject, plain text and HTML variants
+ * @param language Language to render in, the English copy is used if the template has no copy in it
+ */
+export function renderEmail<N extends EmailTemplateName>(name: N, params: EmailTemplateParams<N>, language?: string | null) {
+    const template = EMAIL_TEMPLATES[name] as EmailTemplate<EmailTemplateParams<N>>;
+    const requested = resolveEmailLanguage(language);
+    const resolved = template[requested] ? requested : "en";
+
+    return { ...renderLayout(template[resolved]!(params), resolved), language: resolved };
+}
@@ -0,0 +1,76 @@
+import { model, Schema } from "mongoose";
+import { getKey } from "../util/id";
+
+// TYPES
+
+/** Scopes an API key can be granted, `<resource>:<access>` */
+export const API_KEY_SCOPES = [
+    "profile:read",
+    "listings:read",
+    "listings:write",
+    "messages:read",
+    "messages:write",
+] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// INTERFACE
+export interface ApiKeyInterface {
+    /** Unique identifier of the key */
+    keyId: string;
+    /** ID of the user the key acts as */
+    userId: string;
+    /** Name given by the user, to tell their keys apart */
+    name: string;
+    /** Start of the key, stored in plain text so users can recognise it after it was shown once */
+    prefix: string;
+    /** SHA-256 hash of the key, the key itself is never stored */
+    keyHash: string;
+    /** What the key is allowed to do */
+    scopes: ApiKeyScope[];
+    /** Maximum requests per hour made with this key */
+    rateLimit: number;
+    /** When the key stops working, never if not set */
+    expiresAt?: Date;
+    /** When the key was revoked */
+    revokedAt?: Date;
+    /** When the key was last used, updated at most once a minute */
+    lastUsedAt?: Date;
+    /** IP the key was last used from */
+    lastUsedIp?: string;
+    createdAt: Date;
+}
+
+// SCHEMA
+const apiKeySchema = new Schema<ApiKeyInterface>({
+    /** Unique identifier of the key */
+    keyId: { type: String, default: () => getKey("apiKey") },
+    /** ID of the user the key acts as */
+    userId: { type: String, required: true },
+    /** Name given by the user */
+    name: { type: String, required: true },
+    /** Start of the key */
+    prefix: { type: String, required: true },
+    /** SHA-256 hash of the key */
+    keyHash: { type: String, required: true },
+    /** What the key is allowed to do */
+    scopes: { type: [String], enum: API_KEY_SCOPES, default: [] },
+    /** Maximum requests per hour */
+    rateLimit: { type: Number, required: true },
+    /** When the key stops working */
+    expiresAt: { type: Date },
+    /** When the key was revoked */
+    revokedAt: { type: Date },
+    /** When the key was last used */
+    lastUsedAt: { type: Date },
+    /** IP the key was last used from */
+    lastUsedIp: { type: String },
+}, { timestamps: { createdAt: true, updatedAt: false } })
+
+// INDEXES
+apiKeySchema.index({ keyId: 1 }, { unique: true });
+apiKeySchema.index({ keyHash: 1 }, { unique: true });
+apiKeySchema.index({ userId: 1, createdAt: -1 });
+
+// CREATE MODEL
+export const apiKeyModel = model<ApiKeyInterface>('ApiKey', apiKeySchema);
+export default apiKeyModel;
@@ -0,0 +1,98 @@
+import { model, Schema } from "mongoose";
+import { getKey } from "../util/id";
+
+// INTERFACE
+export interface AuditLogInterface {
+    /** ID of the audit log entry */
+    auditId: string;
+    /** ID of the user who performed the action */
+    actorUserId: string;
+    /** What was done, e.g. "moderation.ban" */
+    action: string;
+    /** The route the action was performed through, e.g. "POST:/api/admin/moderation/ban" */
+    route: string;
+    /** The entity the action was performed on, if it could be determined */
+    target?: {
+        /** Type of the entity, e.g. "user" */
+        type: string;
+        /** ID of the entity */
+        id: string;
+    };
+    /** Fields of the target that changed, sensitive values are redacted */
+    changes: {
+        /** Dotted path of the field, e.g. "moderation.ban.isBanned" */
+        path: string;
+        /** Value before the action, undefined if the field didn't exist */
+        before?: unknown;
+        /** Value after the action, undefined if the field (or the whole target) was removed */
+        after?: unknown;
+    }[];
+    /** The reason given for the action */
+    reason?: string;
+    /** IP address the action was performed from */
+    ip?: string;
+    /** HTTP status code the action responded with */
+    status: number;
+    /** When the action was performed */
+    createdAt: Date;
+}
+
+// SCHEMA
+const auditLogSchema = new Schema<AuditLogInterface>({
+    /** ID of the audit log entry */
+    auditId: { type: String, default: () => getKey("audit") },
+    /** ID of the user who performed the action */
+    actorUserId: { type: String, required: true },
+    /** What was done, e.g. "moderation.ban" */
+    action: { type: String, required: true },
+    /** The route the action was performed through */
+    route: { type: String, required: true },
+    /** The entity the action was performed on */
+    target: {
+        type: new Schema({
+            type: { type: String, required: true },
+            id: { type: String, required: true },
+        }, { _id: false }),
+    },
+    /** Fields of the target that changed */
+    changes: {
+        type: [{
+            _id: false,
+            path: { type: String, required: true },
+            before: { type: Schema.Types.Mixed },
+            after: { type: Schema.Types.Mixed },
+        }],
+        default: [],
+    },
+    /** The reason given for the action */
+    reason: { type: String },
+    /** IP address the action was performed from */
+    ip: { type: String },
+    /** HTTP status code the action responded with */
+    status: { type: Number, required: true },
+}, { timestamps: { createdAt: true, updatedAt: false } })
+
+// IMMUTABILITY
+// Audit logs can only ever be created, any attempt to change or remove them is rejected
+function rejectModification() {
+    throw new Error("Audit logs are immutable and can't be modified or deleted");
+}
+
+auditLogSchema.pre("save", function () {
+    if (!this.isNew) rejectModification();
+});
+
+for (const operation of ["updateOne", "updateMany", "findOneAndUpdate", "replaceOne", "findOneAndReplace", "deleteOne", "deleteMany", "findOneAndDelete"] as const) {
+    auditLogSchema.pre(operation, rejectModification);
+}
+
+// INDEXES
+auditLogSchema.index({ auditId: 1 }, { unique: true });
+auditLogSchema.index({ actorUserId: 1, createdAt: -1 });
+auditLogSchema.index({ 'target.type': 1, 'target.id': 1, createdAt: -1 });
+auditLogSchema.index({ action: 1, createdAt: -1 });
+auditLogSchema.index({ createdAt: -1 });
+
+// CREATE MODEL
+export const auditLogModel = model<AuditLogInterface>('AuditLog', auditLogSchema);
+export default auditLogModel;
@@ -0,0 +1,96 @@
+import { model, Schema } from "mongoose";
+import { getKey } from "../util/id";
+
+// TYPES
+export const EMAIL_STATUSES = ["pending", "sending", "sent", "failed"] as const;
+export type EmailStatus = typeof EMAIL_STATUSES[number];
+
+// INTERFACE
+export interface EmailOutboxInterface {
+    /** Unique identifier of the email */
+    emailId: string;
+    /** Address the email goes to */
+    to: string;
+    /** ID of the user the email is for, if any */
+    userId?: string;
+    /** Name of the template the email was rendered from */
+    template: string;
+    /** Language the email was rendered in */
+    language: string;
+    /** Rendered subject */
+    subject: string;
+    /** Rendered plain text body, removed once sent since it may contain single-use links */
+    text?: string;
+    /** Rendered HTML body, removed once sent */
+    html?: string;
+    /** Where the email is in the delivery process */
+    status: EmailStatus;
+    /** Delivery attempts made so far */
+    attempts: number;
+    /** Earliest time of the next delivery attempt */
+    nextAttemptAt: Date;
+    /** Until when the email is claimed by the instance sending it, in case that instance dies halfway */
+    lockedUntil?: Date;
+    /** Error of the last failed attempt */
+    lastError?: string;
+    /** Transport the email was delivered through */
+    transport?: string;
+    /** ID the transport gave the message */
+    messageId?: string;
+    /** When the email was delivered */
+    sentAt?: Date;
+    /** When the email is removed from the outbox, removed by MongoDB */
+    expiresAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// SCHEMA
+const emailOutboxSchema = new Schema<EmailOutboxInterface>({
+    /** Unique identifier of the email */
+    emailId: { type: String, default: () => getKey("email") },
+    /** Address the email goes to */
+    to: { type: String, required: true },
+    /** ID of the user the email is for */
+    userId: { type: String },
+    /** Name of the template */
+    template: { type: String, required: true },
+    /** Language the email was rendered in */
+    language: { type: String, required: true },
+    /** Rendered subject */
+    subject: { type: String, required: true },
+    /** Rendered plain text body */
+    text: { type: String },
+    /** Rendered HTML body */
+    html: { type: String },
+    /** Where the email is in the delivery process */
+    status: { type: String, enum: EMAIL_STATUSES, default: "pending" },
+    /** Delivery attempts made so far */
+    attempts: { type: Number, default: 0 },
+    /** Earliest time of the next delivery attempt */
+    nextAttemptAt: { type: Date, default: () => new Date() },
+    /** Until when the email is claimed by the instance sending it */
+    lockedUntil: { type: Date },
+    /** Error of the last failed attempt */
+    lastError: { type: String },
+    /** Transport the email was delivered through */
+    transport: { type: String },
+    /** ID the transport gave the message */
+    messageId: { type: String },
+    /** When the email was delivered */
+    sentAt: { type: Date },
+    /** When the email is removed from the outbox */
+    expiresAt: { type: Date, required: true },
+}, { timestamps: true })
+
+// INDEXES
+emailOutboxSchema.index({ emailId: 1 }, { unique: true });
+emailOutboxSchema.index({ status: 1, nextAttemptAt: 1 });
+emailOutboxSchema.index({ userId: 1, createdAt: -1 });
+emailOutboxSchema.index({ to: 1, createdAt: -1 });
+emailOutboxSchema.index({ createdAt: -1 });
+emailOutboxSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// CREATE MODEL
+export const emailOutboxModel = model<EmailOutboxInterface>('EmailOutbox', emailOutboxSchema);
+export default emailOutboxModel;
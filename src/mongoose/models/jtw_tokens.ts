@@ -1,28 +1,51 @@
 import { Schema, model } from 'mongoose';
 
-interface RefreshTokenInterface {
+export interface RefreshTokenInterface {
     /** The user's ID */
     userId: string;
-    /** The refresh token string */
-    token: string;
+    /** ID of the session this token belongs to, stays the same when the token is rotated */
+    sessionId?: string;
+    /** SHA-256 hash of the refresh token, the token itself is never stored */
+    tokenHash: string;
+    /** Legacy raw refresh token, only present on tokens issued before hashing was introduced until they're migrated */
+    token?: string;
     /** The date when the refresh token expires */
     expiresAt: Date;
     /** The date when the refresh token was issued */
     issuedAt?: Date;
     /** Whether the refresh token has been revoked */
     isRevoked?: boolean;
+    /** When the refresh token was exchanged for a new one, presenting it again after this is a sign of theft */
+    rotatedAt?: Date;
+    /** When the session was started (i.e. when the user logged in) */
+    sessionStartedAt?: Date;
+    /** When the session was last used to refresh the access token */
+    lastUsedAt?: Date;
+    /** User agent of the device the session was last used from */
+    userAgent?: string;
+    /** IP address the session was last used from */
+    ip?: string;
 }
 
 const refreshTokenSchema = new Schema<RefreshTokenInterface>({
     userId: { type: String, required: true },
-    token: { type: String, required: true },
+    tokenHash: { type: String, required: true },
+    token: { type: String },
     expiresAt: { type: Date, required: true },
     issuedAt: { type: Date, default: Date.now },
-    isRevoked: { type: Boolean, default: false }
+    isRevoked: { type: Boolean, default: false },
+    rotatedAt: { type: Date },
+    sessionId: { type: String },
+    sessionStartedAt: { type: Date },
+    lastUsedAt: { type: Date },
+    userAgent: { type: String },
+    ip: { type: String },
 }, { timestamps: true });
 
+refreshTokenSchema.index({ tokenHash: 1 }, { unique: true, sparse: true }); // sparse until legacy tokens are migrated
 refreshTokenSchema.index({ token: 1 });
 refreshTokenSchema.index({ userId: 1 });
+refreshTokenSchema.index({ userId: 1, sessionId: 1 });
 refreshTokenSchema.index({ expiresAt: 1 });
 
 export const RefreshToken = model<RefreshTokenInterface>('RefreshToken', refreshTokenSchema);
\ No newline at end of file
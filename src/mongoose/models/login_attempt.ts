@@ -0,0 +1,54 @@
+import { model, Schema } from "mongoose";
+
+// TYPES
+export const LOGIN_ATTEMPT_SCOPES = ["account", "ip"] as const;
+export type LoginAttemptScope = typeof LOGIN_ATTEMPT_SCOPES[number];
+
+// INTERFACE
+export interface LoginAttemptInterface {
+    /** What the failures are counted for, `account:<userId or identifier>` or `ip:<ip>` */
+    key: string;
+    /** Whether the failures are counted for an account or an IP */
+    scope: LoginAttemptScope;
+    /** ID of the account, if the failures are counted for an existing account */
+    userId?: string;
+    /** Failed logins in a row */
+    failures: number;
+    /** When the last login failed */
+    lastFailureAt: Date;
+    /** Logins are rejected without checking the password until this date, grows with every failure */
+    nextAttemptAt?: Date;
+    /** Logins are rejected until this date once too many logins failed */
+    lockedUntil?: Date;
+    /** When the failures are forgotten, removed by MongoDB after this date */
+    expiresAt: Date;
+}
+
+// SCHEMA
+const loginAttemptSchema = new Schema<LoginAttemptInterface>({
+    /** What the failures are counted for */
+    key: { type: String, required: true },
+    /** Whether the failures are counted for an account or an IP */
+    scope: { type: String, enum: LOGIN_ATTEMPT_SCOPES, required: true },
+    /** ID of the account */
+    userId: { type: String },
+    /** Failed logins in a row */
+    failures: { type: Number, default: 0 },
+    /** When the last login failed */
+    lastFailureAt: { type: Date, required: true },
+    /** Logins are rejected until this date */
+    nextAttemptAt: { type: Date },
+    /** Logins are rejected until this date */
+    lockedUntil: { type: Date },
+    /** When the failures are forgotten */
+    expiresAt: { type: Date, required: true },
+})
+
+// INDEXES
+loginAttemptSchema.index({ key: 1 }, { unique: true });
+loginAttemptSchema.index({ userId: 1 });
+loginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// CREATE MODEL
+export const loginAttemptModel = model<LoginAttemptInterface>('LoginAttempt', loginAttemptSchema);
+export default loginAttemptModel;
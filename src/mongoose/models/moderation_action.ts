@@ -0,0 +1,61 @@
+import { model, Schema } from "mongoose";
+import { getKey } from "../util/id";
+
+// TYPES
+export const MODERATION_ACTION_TYPES = ["ban", "unban", "mute", "unmute", "jobListingBan", "jobListingUnban"] as const;
+export type ModerationActionType = typeof MODERATION_ACTION_TYPES[number];
+
+/** Issuer of actions that were performed automatically, e.g. when a temporary ban expires */
+export const SYSTEM_ISSUER = "system";
+
+// INTERFACE
+export interface ModerationActionInterface {
+    /** ID of the moderation action */
+    actionId: string;
+    /** ID of the user the action was taken against */
+    userId: string;
+    /** What was done */
+    type: ModerationActionType;
+    /** ID of the staff member who issued the action, or "system" for automatic actions */
+    issuedBy: string;
+    /** The reason for the action */
+    reason?: string;
+    /** Duration of the restriction in hours, not set for permanent restrictions and lifts */
+    duration?: number;
+    /** When the restriction expires, not set for permanent restrictions and lifts */
+    expiresAt?: Date;
+    /** IDs of the reports that led to this action */
+    reportIds: string[];
+    /** When the action was taken */
+    createdAt: Date;
+}
+
+// SCHEMA
+const moderationActionSchema = new Schema<ModerationActionInterface>({
+    /** ID of the moderation action */
+    actionId: { type: String, default: () => getKey("moderation") },
+    /** ID of the user the action was taken against */
+    userId: { type: String, required: true },
+    /** What was done */
+    type: { type: String, enum: MODERATION_ACTION_TYPES, required: true },
+    /** ID of the staff member who issued the action, or "system" for automatic actions */
+    issuedBy: { type: String, required: true },
+    /** The reason for the action */
+    reason: { type: String },
+    /** Duration of the restriction in hours */
+    duration: { type: Number },
+    /** When the restriction expires */
+    expiresAt: { type: Date },
+    /** IDs of the reports that led to this action */
+    reportIds: { type: [String], default: [] },
+}, { timestamps: { createdAt: true, updatedAt: false } })
+
+// INDEXES
+moderationActionSchema.index({ actionId: 1 }, { unique: true });
+moderationActionSchema.index({ userId: 1, createdAt: -1 });
+moderationActionSchema.index({ issuedBy: 1, createdAt: -1 });
+moderationActionSchema.index({ reportIds: 1 });
+
+// CREATE MODEL
+export const moderationActionModel = model<ModerationActionInterface>('ModerationAction', moderationActionSchema);
+export default moderationActionModel;
@@ -0,0 +1,46 @@
+import { model, Schema } from "mongoose";
+
+// TYPES
+export const ONE_TIME_TOKEN_PURPOSES = ["passwordReset", "twoFactorLogin", "magicLink", "phoneVerification", "phoneLogin", "emailChange", "emailChangeCancel", "accountDeletion"] as const;
+export type OneTimeTokenPurpose = typeof ONE_TIME_TOKEN_PURPOSES[number];
+
+// INTERFACE
+export interface OneTimeTokenInterface {
+    /** ID of the user the token belongs to */
+    userId: string;
+    /** What the token can be used for */
+    purpose: OneTimeTokenPurpose;
+    /** SHA-256 hash of the token (or of the user ID and code, for short codes), the token itself is only ever sent to the user */
+    tokenHash: string;
+    /** When the token expires, expired tokens are removed by MongoDB */
+    expiresAt: Date;
+    /** When the token was used, tokens can only be used once */
+    usedAt?: Date;
+    /** Failed attempts at using the token, for tokens that have to be combined with a code */
+    attempts: number;
+}
+
+// SCHEMA
+const oneTimeTokenSchema = new Schema<OneTimeTokenInterface>({
+    /** ID of the user the token belongs to */
+    userId: { type: String, required: true },
+    /** What the token can be used for */
+    purpose: { type: String, enum: ONE_TIME_TOKEN_PURPOSES, required: true },
+    /** SHA-256 hash of the token */
+    tokenHash: { type: String, required: true },
+    /** When the token expires */
+    expiresAt: { type: Date, required: true },
+    /** When the token was used */
+    usedAt: { type: Date },
+    /** Failed attempts at using the token */
+    attempts: { type: Number, default: 0 },
+}, { timestamps: true })
+
+// INDEXES
+oneTimeTokenSchema.index({ tokenHash: 1 }, { unique: true });
+oneTimeTokenSchema.index({ userId: 1, purpose: 1 });
+oneTimeTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// CREATE MODEL
+export const oneTimeTokenModel = model<OneTimeTokenInterface>('OneTimeToken', oneTimeTokenSchema);
+export default oneTimeTokenModel;
@@ -0,0 +1,29 @@
+import { model, Schema } from "mongoose";
+
+// INTERFACE
+export interface RateLimitInterface {
+    /** Key of the rate limit bucket, made up of the route, the identity and the start of the window */
+    key: string;
+    /** Amount of requests made within the window */
+    count: number;
+    /** When the window ends, the document is removed by MongoDB after this date */
+    resetAt: Date;
+}
+
+// SCHEMA
+const rateLimitSchema = new Schema<RateLimitInterface>({
+    /** Key of the rate limit bucket, made up of the route, the identity and the start of the window */
+    key: { type: String, required: true },
+    /** Amount of requests made within the window */
+    count: { type: Number, default: 0 },
+    /** When the window ends, the document is removed by MongoDB after this date */
+    resetAt: { type: Date, required: true },
+})
+
+// INDEXES
+rateLimitSchema.index({ key: 1 }, { unique: true });
+rateLimitSchema.index({ resetAt: 1 }, { expireAfterSeconds: 0 });
+
+// CREATE MODEL
+export const rateLimitModel = model<RateLimitInterface>('RateLimit', rateLimitSchema);
+export default rateLimitModel;
@@ -0,0 +1,90 @@
+import { model, Schema } from "mongoose";
+import { getKey } from "../util/id";
+
+// TYPES
+export const REPORT_TARGET_TYPES = ["user", "listing", "message"] as const;
+export type ReportTargetType = typeof REPORT_TARGET_TYPES[number];
+
+export const REPORT_CATEGORIES = ["spam", "scam", "harassment", "inappropriate", "impersonation", "other"] as const;
+export type ReportCategory = typeof REPORT_CATEGORIES[number];
+
+export const REPORT_STATUSES = ["open", "triaged", "actioned", "dismissed"] as const;
+export type ReportStatus = typeof REPORT_STATUSES[number];
+
+// INTERFACE
+export interface ReportInterface {
+    /** ID of the report */
+    reportId: string;
+    /** ID of the user who submitted the report */
+    reporterUserId: string;
+    /** Type of the reported entity */
+    targetType: ReportTargetType;
+    /** ID of the reported entity */
+    targetId: string;
+    /** ID of the user responsible for the reported entity (the user, listing owner or message sender) */
+    targetUserId: string;
+    /** Why the entity was reported */
+    category: ReportCategory;
+    /** Additional details given by the reporter */
+    description?: string;
+    /** Where the report is in the moderation queue */
+    status: ReportStatus;
+    /** ID of the staff member handling the report */
+    assignedTo?: string;
+    /** How the report was resolved, only set once actioned or dismissed */
+    resolution?: {
+        /** ID of the staff member who resolved the report */
+        resolvedBy: string;
+        /** When the report was resolved */
+        resolvedAt: Date;
+        /** Notes on the resolution */
+        note?: string;
+        /** The action taken, if any (e.g. "ban") */
+        action?: string;
+    };
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// SCHEMA
+const reportSchema = new Schema<ReportInterface>({
+    /** ID of the report */
+    reportId: { type: String, default: () => getKey("report") },
+    /** ID of the user who submitted the report */
+    reporterUserId: { type: String, required: true },
+    /** Type of the reported entity */
+    targetType: { type: String, enum: REPORT_TARGET_TYPES, required: true },
+    /** ID of the reported entity */
+    targetId: { type: String, required: true },
+    /** ID of the user responsible for the reported entity */
+    targetUserId: { type: String, required: true },
+    /** Why the entity was reported */
+    category: { type: String, enum: REPORT_CATEGORIES, required: true },
+    /** Additional details given by the reporter */
+    description: { type: String },
+    /** Where the report is in the moderation queue */
+    status: { type: String, enum: REPORT_STATUSES, default: "open" },
+    /** ID of the staff member handling the report */
+    assignedTo: { type: String },
+    /** How the report was resolved */
+    resolution: {
+        type: new Schema({
+            resolvedBy: { type: String, required: true },
+            resolvedAt: { type: Date, required: true },
+            note: { type: String },
+            action: { type: String },
+        }, { _id: false }),
+    },
+}, { timestamps: true })
+
+// INDEXES
+reportSchema.index({ reportId: 1 }, { unique: true });
+reportSchema.index({ status: 1, createdAt: 1 });
+reportSchema.index({ targetType: 1, targetId: 1 });
+reportSchema.index({ targetUserId: 1 });
+reportSchema.index({ reporterUserId: 1, createdAt: -1 });
+reportSchema.index({ assignedTo: 1, status: 1 });
+
+// CREATE MODEL
+export const reportModel = model<ReportInterface>('Report', reportSchema);
+export default reportModel;
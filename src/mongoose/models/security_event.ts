@@ -0,0 +1,47 @@
+import { model, Schema } from "mongoose";
+
+// TYPES
+export const SECURITY_EVENT_TYPES = ["refreshTokenReuse", "twoFactorEnabled", "twoFactorDisabled", "recoveryCodeUsed", "accountLocked", "emailChanged", "emailChangeCancelled", "accountDeletionScheduled", "accountDeletionCancelled"] as const;
+export type SecurityEventType = typeof SECURITY_EVENT_TYPES[number];
+
+// INTERFACE
+export interface SecurityEventInterface {
+    /** ID of the user the event concerns */
+    userId: string;
+    /** What happened */
+    type: SecurityEventType;
+    /** ID of the session the event concerns, if any */
+    sessionId?: string;
+    /** IP address the event originated from */
+    ip?: string;
+    /** User agent the event originated from */
+    userAgent?: string;
+    /** Any additional information about the event */
+    details?: Record<string, unknown>;
+    /** When the event happened */
+    createdAt: Date;
+}
+
+// SCHEMA
+const securityEventSchema = new Schema<SecurityEventInterface>({
+    /** ID of the user the event concerns */
+    userId: { type: String, required: true },
+    /** What happened */
+    type: { type: String, enum: SECURITY_EVENT_TYPES, required: true },
+    /** ID of the session the event concerns */
+    sessionId: { type: String },
+    /** IP address the event originated from */
+    ip: { type: String },
+    /** User agent the event originated from */
+    userAgent: { type: String },
+    /** Any additional information about the event */
+    details: { type: Schema.Types.Mixed },
+}, { timestamps: { createdAt: true, updatedAt: false } })
+
+// INDEXES
+securityEventSchema.index({ userId: 1, createdAt: -1 });
+securityEventSchema.index({ type: 1, createdAt: -1 });
+
+// CREATE MODEL
+export const securityEventModel = model<SecurityEventInterface>('SecurityEvent', securityEventSchema);
+export default securityEventModel;
@@ -0,0 +1,47 @@
+import { model, Schema } from "mongoose";
+
+// TYPES
+export const SIGNING_KEY_ALGORITHMS = ["RS256", "EdDSA"] as const;
+export type SigningKeyAlgorithm = typeof SIGNING_KEY_ALGORITHMS[number];
+
+// INTERFACE
+export interface SigningKeyInterface {
+    /** Key ID, sent as the `kid` header of every token signed with this key */
+    kid: string;
+    /** Algorithm the key is used with */
+    algorithm: SigningKeyAlgorithm;
+    /** Public key in PEM format, published through the JWKS endpoint */
+    publicKey: string;
+    /** Private key in PEM format, encrypted with the key encryption secret */
+    encryptedPrivateKey: string;
+    /** When the key starts being used for signing, until then it's only published so verifiers can pick it up */
+    activatesAt: Date;
+    /** When the key can't be used for verification anymore, set once a newer key replaces it. Removed by MongoDB after this date */
+    expiresAt?: Date;
+    createdAt: Date;
+}
+
+// SCHEMA
+const signingKeySchema = new Schema<SigningKeyInterface>({
+    /** Key ID */
+    kid: { type: String, required: true },
+    /** Algorithm the key is used with */
+    algorithm: { type: String, enum: SIGNING_KEY_ALGORITHMS, required: true },
+    /** Public key in PEM format */
+    publicKey: { type: String, required: true },
+    /** Encrypted private key in PEM format */
+    encryptedPrivateKey: { type: String, required: true },
+    /** When the key starts being used for signing */
+    activatesAt: { type: Date, required: true },
+    /** When the key can't be used for verification anymore */
+    expiresAt: { type: Date },
+}, { timestamps: { createdAt: true, updatedAt: false } })
+
+// INDEXES
+signingKeySchema.index({ kid: 1 }, { unique: true });
+signingKeySchema.index({ activatesAt: -1 });
+signingKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// CREATE MODEL
+export const signingKeyModel = model<SigningKeyInterface>('SigningKey', signingKeySchema);
+export default signingKeyModel;
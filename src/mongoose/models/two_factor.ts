@@ -0,0 +1,42 @@
+import { model, Schema } from "mongoose";
+
+// INTERFACE
+export interface TwoFactorInterface {
+    /** ID of the user */
+    userId: string;
+    /** TOTP secret, encrypted. Replaced when setting up again until it's confirmed */
+    secret: string;
+    /** Whether two-factor authentication has been confirmed and is required on login */
+    enabled: boolean;
+    /** When two-factor authentication was enabled */
+    enabledAt?: Date;
+    /** Time step of the last accepted code, codes can't be used twice */
+    lastUsedCounter?: number;
+    /** SHA-256 hashes of the unused recovery codes */
+    recoveryCodes: string[];
+}
+
+// SCHEMA
+
+/** Kept apart from users so the secret and recovery codes never end up in user responses */
+const twoFactorSchema = new Schema<TwoFactorInterface>({
+    /** ID of the user */
+    userId: { type: String, required: true },
+    /** Encrypted TOTP secret */
+    secret: { type: String, required: true },
+    /** Whether two-factor authentication is enabled */
+    enabled: { type: Boolean, default: false },
+    /** When two-factor authentication was enabled */
+    enabledAt: { type: Date },
+    /** Time step of the last accepted code */
+    lastUsedCounter: { type: Number },
+    /** Hashes of the unused recovery codes */
+    recoveryCodes: { type: [String], default: [] },
+}, { timestamps: true })
+
+// INDEXES
+twoFactorSchema.index({ userId: 1 }, { unique: true });
+
+// CREATE MODEL
+export const twoFactorModel = model<TwoFactorInterface>('TwoFactor', twoFactorSchema);
+export default twoFactorModel;
@@ -11,9 +11,14 @@ export interface UserInterface {
     passwordHash: string;
     /** User's primary configured email, may not be configured depending on server-configuration */
     primaryEmail?: string;
+    /** User's phone number in E.164 format (e.g. +27821234567), can be used to log in once verified. Only one account can verify a number, unverified ones can be shared */
+    phoneNumber?: string;
 
-    /** Whether this user is an admin */
-    isAdmin?: boolean,
+    /** Language the user wants emails in (e.g. "en"), the server default is used if not set */
+    language?: string;
+
+    /** Staff roles of this user (e.g. "moderator"), see `src/server/auth/permissions.ts` for what each role may do */
+    roles?: string[],
 
     /** Whether this user's email has been verified */
     emailVerified?: boolean,
@@ -21,13 +26,31 @@ export interface UserInterface {
     emailVerification?: {
         /** Whether the user is currently waiting for their email to be verified */
         isPending: boolean;
-        /** Store the user's email verification hash */
+        /** SHA-256 hash of the code in the verification link */
         verificationCode: string;
+        /** Whether `verificationCode` is hashed, codes from before hashing are hashed once at startup */
+        hashed?: boolean;
         /** When the email verification was sent */
         sendDate: Date;
         /** When the email verification expires */
         expiresAt: Date;
     },
+    /** Email the user asked to change to, it only replaces `primaryEmail` once confirmed through a link sent to it */
+    pendingEmailChange?: {
+        /** The new email */
+        newEmail: string;
+        /** When the change was requested */
+        requestedAt: Date;
+    },
+    /** Whether this user's phone number has been verified through a code sent by SMS */
+    phoneVerified?: boolean,
+    /** Deletion the user asked for, the account is deleted at `scheduledFor` unless they cancel before then */
+    deletion?: {
+        /** When the deletion was confirmed */
+        requestedAt: Date;
+        /** When the account will be deleted */
+        scheduledFor: Date;
+    },
 
     /** Information relating to the user's profile */
     profile: {
@@ -86,7 +109,8 @@ const userSchema = new Schema<UserInterface>({
     userId: { type: String, default: () => getKey("user") },
     username: { type: String },
     passwordHash: { type: String, required: true },
-    isAdmin: { type: Boolean, default: false },
+    roles: { type: [String], default: [] },
+    language: { type: String },
 
     primaryEmail: { type: String },
 
@@ -94,10 +118,28 @@ const userSchema = new Schema<UserInterface>({
     emailVerification: {
         isPending: { type: Boolean, default: false },
         verificationCode: { type: String },
-        sentDate: { type: Date },
+        hashed: { type: Boolean },
+        sendDate: { type: Date },
         expiresAt: { type: Date },
     },
 
+    pendingEmailChange: {
+        type: {
+            newEmail: { type: String, required: true },
+            requestedAt: { type: Date, required: true },
+        },
+    },
+
+    phoneNumber: { type: String },
+    phoneVerified: { type: Boolean, default: false },
+
+    deletion: {
+        type: {
+            requestedAt: { type: Date, required: true },
+            scheduledFor: { type: Date, required: true },
+        },
+    },
+
     profile: {
         type: {
             bio: { type: String },
@@ -134,6 +176,11 @@ const userSchema = new Schema<UserInterface>({
 userSchema.index({ userId: 1 }, { unique: true });
 userSchema.index({ primaryEmail: 1 }, { unique: true, sparse: true });
 userSchema.index({ username: 1 }, { unique: true, sparse: true });
+userSchema.index({ phoneNumber: 1 }, { name: "phoneNumber_verified", unique: true, partialFilterExpression: { phoneVerified: true } });
+userSchema.index({ phoneNumber: 1, phoneVerified: 1 }, { sparse: true });
+userSchema.index({ roles: 1 });
+userSchema.index({ "emailVerification.verificationCode": 1 }, { sparse: true });
+userSchema.index({ "deletion.scheduledFor": 1 }, { sparse: true });
 
 // Moderation indexes for auto-unban performance
 userSchema.index({ 'moderation.ban.isBanned': 1, 'moderation.ban.unbannedAt': 1 });
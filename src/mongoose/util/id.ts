@@ -1,12 +1,17 @@
 import * as crypto from 'crypto'
 
-export type KeyType = "user" | "channel" | "message" | "listing"
+export type KeyType = "user" | "channel" | "message" | "listing" | "audit" | "moderation" | "report" | "apiKey" | "email"
 
 const prefixForKeyType: Record<KeyType, string> = {
     "user": "us",
     "channel": "ch",
     "message": "msg",
-    "listing": "li"
+    "listing": "li",
+    "audit": "au",
+    "moderation": "ma",
+    "report": "re",
+    "apiKey": "ak",
+    "email": "em"
 }
 
 const seperator = "-"
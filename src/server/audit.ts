@@ -0,0 +1,148 @@
+import { Request, Response } from "express";
+import { Model } from "mongoose";
+import { getLogger } from "../util/logger";
+import { userModel } from "../mongoose";
+import auditLogModel, { AuditLogInterface } from "../mongoose/models/audit_log";
+import listingModel from "../mongoose/models/listing";
+import messageModel from "../mongoose/models/message";
+import channelModel from "../mongoose/models/channel";
+import reportModel from "../mongoose/models/report";
+
+// INIT
+const logger = getLogger("AUDIT");
+
+// TYPES
+export type AuditConfig = {
+    /** Name of the action, defaults to the route path after `/api/admin` (e.g. "moderation.ban") */
+    action?: string;
+}
+
+type AuditTarget = NonNullable<AuditLogInterface["target"]>;
+type AuditChange = AuditLogInterface["changes"][number];
+type AuditSnapshot = Record<string, unknown> | null;
+
+// TARGETS
+
+/**
+ * Entities an audited action can target, resolved from the route params or body in this order.
+ * The first matching ID is the target, so more specific entities come before users.
+ */
+const AUDIT_TARGETS: { type: string; idField: string; model: Model<any> }[] = [
+    { type: "report", idField: "reportId", model: reportModel },
+    { type: "message", idField: "messageId", model: messageModel },
+    { type: "listing", idField: "listingId", model: listingModel },
+    { type: "channel", idField: "channelId", model: channelModel },
+    { type: "user", idField: "userId", model: userModel },
+];
+
+/** Fields never stored in the audit log, only the fact that they changed is recorded */
+const REDACTED_FIELD_PATTERN = /password|token|secret|hash|verificationCode/i;
+
+/** Fields that change on every write and would only add noise */
+const IGNORED_FIELDS = ["_id", "__v", "updatedAt"];
+
+// HELPERS
+
+function resolveTarget(req: Request): AuditTarget | null {
+    for (const { type, idField } of AUDIT_TARGETS) {
+        const id = req.params?.[idField] ?? req.body?.[idField];
+        if (typeof id === "string" && id.length > 0) return { type, id };
+    }
+    return null;
+}
+
+async function snapshotTarget(target: AuditTarget | null): Promise<AuditSnapshot> {
+    const definition = target && AUDIT_TARGETS.find(({ type }) => type === target.type);
+    if (!target || !definition) return null;
+
+    return await definition.model.findOne({ [definition.idField]: target.id }).lean() as AuditSnapshot;
+}
+
+/** Flatten a document into dotted paths, arrays and dates are treated as single values */
+function flatten(value: unknown, prefix = "", result: Record<string, unknown> = {}) {
+    if (value && typeof value === "object" && !Array.isArray(value) && !(value instanceof Date) && Object.keys(value).length > 0) {
+        for (const [key, child] of Object.entries(value)) {
+            if (!prefix && IGNORED_FIELDS.includes(key)) continue;
+            flatten(child, prefix ? `${prefix}.${key}` : key, result);
+        }
+    } else if (prefix) {
+        result[prefix] = value;
+    }
+    return result;
+}
+
+/** Get the fields that differ between two snapshots */
+export function diffSnapshots(before: AuditSnapshot, after: AuditSnapshot): AuditChange[] {
+    const flatBefore = flatten(before);
+    const flatAfter = flatten(after);
+
+    const changes: AuditChange[] = [];
+    for (const path of new Set([...Object.keys(flatBefore), ...Object.keys(flatAfter)])) {
+        if (JSON.stringify(flatBefore[path]) === JSON.stringify(flatAfter[path])) continue;
+
+        const redacted = REDACTED_FIELD_PATTERN.test(path);
+        changes.push({
+            path,
+            before: redacted && flatBefore[path] !== undefined ? "[REDACTED]" : flatBefore[path],
+            after: redacted && flatAfter[path] !== undefined ? "[REDACTED]" : flatAfter[path],
+        });
+    }
+    return changes;
+}
+
+/** Get the reason of an action from the body (`reason`, `banReason`, ...) or the `X-Audit-Reason` header */
+function resolveReason(req: Request): string | undefined {
+    const body = req.body && typeof req.body === "object" ? req.body as Record<string, unknown> : {};
+    const key = Object.keys(body).find(key => key === "reason" || key.endsWith("Reason"));
+    const reason = key ? body[key] : req.get("X-Audit-Reason");
+    return typeof reason === "string" && reason.length > 0 ? reason : undefined;
+}
+
+/** Default action name of a route, e.g. `POST:/api/admin/moderation/ban` becomes "moderation.ban" */
+export function getDefaultAuditAction(path: string): string {
+    return path
+        .replace(/^\/api\/admin/, "")
+        .split("/")
+        .filter(segment => segment.length > 0 && !segment.startsWith(":"))
+        .join(".");
+}
+
+// RECORDING
+
+/**
+ * Start auditing a request: snapshots the target before the handler runs and writes the audit log once the response is sent.
+ * Only successful actions are recorded, failures don't change anything. Failing to audit never fails the request itself.
+ */
+export async function beginAudit(route: string, action: string, req: Request, res: Response) {
+    const target = resolveTarget(req);
+
+    let before: AuditSnapshot = null;
+    try {
+        before = await snapshotTarget(target);
+    } catch (error) {
+        logger.error(`Failed to snapshot ${target?.type} ${target?.id} before ${action}: ${(error as Error)?.message || error}`);
+    }
+
+    res.once("finish", async () => {
+        if (res.statusCode >= 400) return;
+
+        try {
+            const after = await snapshotTarget(target);
+
+            await auditLogModel.create({
+                actorUserId: req.user.userId,
+                action,
+                route,
+                target: target || undefined,
+                changes: diffSnapshots(before, after),
+                reason: resolveReason(req),
+                ip: req.ip,
+                status: res.statusCode,
+            });
+
+            logger.debug(`Recorded ${action} by ${req.user.userId}${target ? ` on ${target.type} ${target.id}` : ""}`);
+        } catch (error) {
+            logger.error(`Failed to record audit log for ${action} by ${req.user?.userId}: ${(error as Error)?.stack || error}`);
+        }
+    });
+}
@@ -0,0 +1,134 @@
+import cron from "node-schedule";
+import { userModel } from "../../mongoose";
+import CONFIG from "../../util/config";
+import { getLogger } from "../../util/logger";
+import { stime } from "../../util/static";
+import { queueEmail } from "../../email/outbox";
+import oneTimeTokenModel from "../../mongoose/models/one_time_token";
+import { consumeOneTimeToken, issueOneTimeToken, revokeOneTimeTokens } from "./one_time_token";
+import { recordSecurityEvent } from "./security";
+import { jwtService, SessionMetadata } from "./jwt";
+import { BadRequestError } from "../errors";
+import { deleteEntity } from "../deletion";
+
+const logger = getLogger("ACCOUNT_DELETION");
+
+/*
+ * Users delete their account in two steps: the password to request it, and a link sent to their email to confirm it.
+ * The account is only deleted once the grace period is over, logging back in before then allows cancelling.
+ * What is removed along with the account is decided by the cascade rules in `src/server/deletion.ts`.
+ */
+
+/** Deletions handled per run of the deletion job */
+const BATCH_SIZE = 20;
+
+// TYPES
+
+/** The user deleting their account */
+type DeletingUser = {
+    userId: string;
+    primaryEmail?: string | null;
+    language?: string | null;
+    profile?: { firstName?: string | null } | null;
+};
+
+/** Outcome of requesting a deletion, users without an email can't be sent a link so theirs is scheduled right away */
+export type AccountDeletionRequestResult =
+    | { status: "confirmationSent" }
+    | { status: "scheduled"; scheduledFor: Date };
+
+// FLOW
+
+/** Schedule the deletion of an account at the end of the grace period, logging out every session */
+async function scheduleAccountDeletion(user: DeletingUser, metadata: SessionMetadata): Promise<Date> {
+    const scheduledFor = new Date(Date.now() + CONFIG.accountDeletion.gracePeriod);
+    await userModel.updateOne({ userId: user.userId }, { $set: { deletion: { requestedAt: new Date(), scheduledFor } } });
+    await jwtService.revokeAllRefreshTokens(user.userId);
+
+    if (user.primaryEmail) {
+        await queueEmail("accountDeletionScheduled", {
+            firstName: user.profile?.firstName || "there",
+            deletionDate: scheduledFor.toISOString().slice(0, 10),
+            loginLink: `${CONFIG.domain.frontendUri}/login`,
+        }, { to: user.primaryEmail, userId: user.userId, language: user.language });
+    }
+
+    await recordSecurityEvent({ userId: user.userId, type: "accountDeletionScheduled", ip: metadata.ip, userAgent: metadata.userAgent, details: { scheduledFor } });
+    logger.info(`Deletion of user ${user.userId} scheduled for ${scheduledFor.toISOString()}`);
+    return scheduledFor;
+}
+
+/**
+ * Start deleting the account of a user, the current password has to be checked before calling this
+ * @throws {BadRequestError} If the account is already scheduled for deletion
+ */
+export async function requestAccountDeletion(user: DeletingUser & { deletion?: unknown }, metadata: SessionMetadata = {}): Promise<AccountDeletionRequestResult> {
+    if (user.deletion) throw new BadRequestError("Your account is already scheduled for deletion.", {}, "Deletion Already Scheduled");
+
+    if (!user.primaryEmail) return { status: "scheduled", scheduledFor: await scheduleAccountDeletion(user, metadata) };
+
+    const token = await issueOneTimeToken(user.userId, "accountDeletion", CONFIG.accountDeletion.tokenExpiry);
+    await queueEmail("accountDeletionConfirm", {
+        firstName: user.profile?.firstName || "there",
+        link: `${CONFIG.domain.frontendUri}/confirm-account-deletion?token=${token}`,
+        expiresInHours: Math.round(CONFIG.accountDeletion.tokenExpiry / stime.hour),
+        gracePeriodDays: Math.round(CONFIG.accountDeletion.gracePeriod / stime.day),
+    }, { to: user.primaryEmail, userId: user.userId, language: user.language });
+
+    logger.info(`User ${user.userId} requested to delete their account`);
+    return { status: "confirmationSent" };
+}
+
+/**
+ * Confirm a deletion with the token from the link sent to the user
+ * @returns When the account will be deleted
+ * @throws {BadRequestError} If the token is invalid or expired
+ */
+export async function confirmAccountDeletion(token: string, metadata: SessionMetadata = {}): Promise<Date> {
+    const userId = await consumeOneTimeToken(token, "accountDeletion");
+    if (!userId) throw new BadRequestError("This confirmation link is invalid or has expired.", {}, "Invalid Confirmation Token");
+
+    const user = await userModel.findOne({ userId }, { userId: 1, primaryEmail: 1, language: 1, profile: 1, deletion: 1 }).lean();
+    if (!user) throw new BadRequestError("This confirmation link is invalid or has expired.", {}, "Invalid Confirmation Token");
+    if (user.deletion) return user.deletion.scheduledFor;
+
+    return await scheduleAccountDeletion(user, metadata);
+}
+
+/**
+ * Cancel a scheduled deletion, or a request that wasn't confirmed yet
+ * @returns Whether there was anything to cancel
+ */
+export async function cancelAccountDeletion(userId: string, metadata: SessionMetadata = {}): Promise<boolean> {
+    const pendingRequests = await oneTimeTokenModel.countDocuments({ userId, purpose: "accountDeletion", usedAt: null });
+    await revokeOneTimeTokens(userId, "accountDeletion");
+
+    const result = await userModel.updateOne({ userId, deletion: { $exists: true } }, { $unset: { deletion: 1 } });
+    if (result.modifiedCount === 0) return pendingRequests > 0;
+
+    await recordSecurityEvent({ userId, type: "accountDeletionCancelled", ip: metadata.ip, userAgent: metadata.userAgent });
+    logger.info(`User ${userId} cancelled the deletion of their account`);
+    return true;
+}
+
+/** Delete every account whose grace period is over */
+export async function processScheduledDeletions(): Promise<void> {
+    try {
+        const due = await userModel.find({ "deletion.scheduledFor": { $lte: new Date() } }, { userId: 1 }).sort({ "deletion.scheduledFor": 1 }).limit(BATCH_SIZE).lean();
+
+        for (const { userId } of due) {
+            try {
+                await deleteEntity("user", userId);
+            } catch (error) {
+                logger.error(`Failed to delete user ${userId}, retrying on the next run:`, error);
+            }
+        }
+    } catch (error) {
+        logger.error("Failed to process scheduled account deletions:", error);
+    }
+}
+
+// Delete accounts whose grace period is over every hour
+cron.scheduleJob('30 * * * *', async () => {
+    await processScheduledDeletions();
+});
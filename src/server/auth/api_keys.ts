@@ -0,0 +1,81 @@
+import crypto from "crypto";
+import { Request } from "express";
+import { getLogger } from "../../util/logger";
+import { stime } from "../../util/static";
+import { userModel } from "../../mongoose";
+import apiKeyModel, { ApiKeyInterface, ApiKeyScope } from "../../mongoose/models/api_key";
+import { getBearerToken } from "./util";
+import { assertNotBanned } from "./credentials";
+
+const logger = getLogger("API_KEY");
+
+/** Every API key starts with this, so they're easy to recognise (e.g. by secret scanners) and can't be mistaken for JWTs */
+export const API_KEY_PREFIX = "gt_";
+/** Amount of characters of the key stored in plain text to recognise it by */
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+declare module 'express' {
+    interface Request {
+        /** The API key the request was authenticated with, if any */
+        apiKey?: { keyId: string; scopes: ApiKeyScope[]; rateLimit: number };
+    }
+}
+
+/** Hash an API key, only hashes are stored */
+export function hashApiKey(key: string): string {
+    return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+/** Generate a new API key along with what's stored about it */
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+    return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH), keyHash: hashApiKey(key) };
+}
+
+/** Get the API key of a request, sent as `X-API-Key: <key>` or `Authorization: Bearer <key>` */
+export function getApiKeyFromRequest(req: Request): string | undefined {
+    const header = req.get("x-api-key");
+    if (header) return header.trim();
+
+    const bearerToken = getBearerToken(req);
+    if (bearerToken?.startsWith(API_KEY_PREFIX)) return bearerToken;
+}
+
+/**
+ * Look up an API key, tracking when and where it was last used
+ * @param key The API key as sent by the client
+ * @param ip IP the key is used from
+ * @returns The key, or null if it doesn't exist, was revoked, has expired or its owner no longer exists
+ * @throws {ForbiddenError} If the owner of the key is banned, keys never go through login so the ban is checked here
+ */
+export async function authenticateApiKey(key: string, ip?: string): Promise<ApiKeyInterface | null> {
+    if (!key.startsWith(API_KEY_PREFIX)) return null;
+
+    const apiKey = await apiKeyModel.findOne({ keyHash: hashApiKey(key) }).lean();
+    if (!apiKey) return null;
+
+    if (apiKey.revokedAt) {
+        logger.debug(`Revoked API key ${apiKey.keyId} used from IP: ${ip}`);
+        return null;
+    }
+    if (apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date()) {
+        logger.debug(`Expired API key ${apiKey.keyId} used from IP: ${ip}`);
+        return null;
+    }
+
+    const owner = await userModel.findOne({ userId: apiKey.userId }, { moderation: 1 }).lean();
+    if (!owner) {
+        logger.debug(`API key ${apiKey.keyId} of a deleted user used from IP: ${ip}`);
+        return null;
+    }
+    assertNotBanned(owner, "This API key can't be used");
+
+    // Only written once a minute, a busy integration shouldn't cause a write on every request
+    const now = new Date();
+    if (!apiKey.lastUsedAt || now.getTime() - new Date(apiKey.lastUsedAt).getTime() > stime.minute) {
+        apiKeyModel.updateOne({ keyId: apiKey.keyId }, { $set: { lastUsedAt: now, lastUsedIp: ip } })
+            .catch(error => logger.error(`Failed to track usage of API key ${apiKey.keyId}:`, error));
+    }
+
+    return apiKey;
+}
@@ -0,0 +1,41 @@
+/**
+ * Some of the most common passwords found in public breach compilations, checked offline without sending anything anywhere.
+ * All lowercase, passwords are compared case-insensitively and with trailing digits and symbols removed as well.
+ */
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+    "123456", "password", "123456789", "12345678", "12345", "qwerty", "1234567", "111111", "1234567890", "123123",
+    "abc123", "1234", "password1", "iloveyou", "1q2w3e4r", "000000", "qwerty123", "zaq12wsx", "dragon", "sunshine",
+    "princess", "letmein", "654321", "monkey", "27653", "1qaz2wsx", "123321", "qwertyuiop", "superman", "asdfghjkl",
+    "trustno1", "welcome", "admin", "admin123", "administrator", "root", "toor", "pass", "passw0rd", "p@ssw0rd",
+    "p@ssword", "password123", "password12", "password1234", "passwort", "1q2w3e", "1q2w3e4r5t", "1q2w3e4r5t6y",
+    "qazwsx", "qazwsxedc", "112233", "121212", "123qwe", "123abc", "159753", "987654321", "11111111", "00000000",
+    "88888888", "12341234", "123654", "147258369", "147258", "789456123", "789456", "666666", "555555", "777777",
+    "987654", "999999", "222222", "333333", "444444", "121314", "131313", "101010", "123123123", "1111111", "7777777",
+    "5201314", "qwe123", "asd123", "zxc123", "qweasd", "qweasdzxc", "asdfgh", "asdf1234", "zxcvbnm", "zxcvbn",
+    "qwertz", "azerty", "abcdef", "abcd1234", "abcdefg", "abcdefgh", "a1b2c3", "a1b2c3d4", "aa123456", "baseball",
+    "football", "soccer", "hockey", "basketball", "cricket", "rugby", "batman", "starwars", "pokemon", "naruto",
+    "spiderman", "harley", "mustang", "shadow", "master", "michael", "jennifer", "jordan", "jordan23", "hunter",
+    "ranger", "buster", "thomas", "robert", "daniel", "andrew", "joshua", "matthew", "charlie", "michelle", "jessica",
+    "ashley", "amanda", "nicole", "hannah", "samantha", "taylor", "maggie", "ginger", "pepper", "cookie", "chocolate",
+    "cheese", "banana", "orange", "apple", "summer", "winter", "spring", "autumn", "flower", "freedom", "whatever",
+    "nothing", "secret", "secret123", "hello", "hello123", "helloworld", "loveme", "lovely", "love123", "iloveu",
+    "iloveyou1", "iloveyou2", "fuckyou", "fuckoff", "killer", "computer", "internet", "google", "facebook", "linkedin",
+    "twitter", "youtube", "yahoo", "hotmail", "gmail", "samsung", "iphone", "android", "windows", "microsoft",
+    "apple123", "login", "guest", "test", "test123", "testing", "demo", "changeme", "default", "system", "manager",
+    "access", "access14", "qwerty1", "qwerty12", "qwerty1234", "1qazxsw2", "zaq1zaq1", "zaq1xsw2", "q1w2e3r4",
+    "q1w2e3r4t5", "q1w2e3", "aaaaaa", "aaaaaaaa", "abc12345", "abcabc", "696969", "6969", "159357", "11223344",
+    "monkey123", "dragon123", "master123", "shadow123", "sunshine1", "princess1", "welcome1", "welcome123", "letmein1",
+    "superman1", "blink182", "linkinpark", "metallica", "nirvana", "eminem", "tupac", "scorpion", "jaguar", "ferrari",
+    "porsche", "mercedes", "corvette", "yamaha", "chelsea", "arsenal", "liverpool", "manchester", "barcelona",
+    "realmadrid", "kaizerchiefs", "orlandopirates", "sundowns", "bafana", "bafanabafana", "springbok", "springboks",
+    "southafrica", "mzansi", "johannesburg", "joburg", "capetown", "durban", "pretoria", "soweto", "amandla", "ubuntu",
+    "gigtree", "gigtree123", "jesus", "jesus123", "jesuschrist", "christ", "blessed", "blessing", "god", "godisgood",
+    "faith", "grace", "angel", "angels", "heaven", "lucky", "lucky7", "money", "money123", "rich", "million",
+    "diamond", "golden", "silver", "purple", "yellow", "blue123", "red123", "black", "white", "tigger", "tiger",
+    "lion", "eagle", "falcon", "wolf", "bear", "panda", "dolphin", "butterfly", "rainbow", "unicorn", "pussy",
+    "pussycat", "kitten", "puppy", "family", "mother", "father", "sister", "brother", "baby", "babygirl", "babyboy",
+    "sweety", "sweetie", "sweetheart", "darling", "honey", "beautiful", "princesa", "tequiero", "teamo", "amor",
+    "amore", "bonjour", "soleil", "hallo", "schatz", "123456a", "123456aa", "a123456", "a12345", "1a2b3c", "12qwaszx",
+    "qwer1234", "asdf", "qwer", "zxcv", "1password", "password!", "password1!", "passw0rd1", "p4ssw0rd", "pa55word",
+    "pa$$word", "passpass",
+]);
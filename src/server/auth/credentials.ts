@@ -0,0 +1,103 @@
+import { userModel } from "../../mongoose";
+import { UserInterface } from "../../mongoose/models/user";
+import CONFIG from "../../util/config";
+import { isPhoneNumber, normalizePhoneNumber } from "../../util/phone";
+import { BadRequestError, ForbiddenError, UnauthorizedError } from "../errors";
+import { verifyPassword } from "./password";
+import { assertLoginAllowed, LoginSubject, recordLoginFailure, recordLoginSuccess } from "./login_protection";
+import { isTwoFactorEnabled } from "./two_factor";
+
+// HELPER FUNCTIONS
+
+function isEmail(input: string): boolean {
+    return input.includes('@');
+}
+
+type IdentifierType = "email" | "phone" | "username";
+
+/** Detect what kind of identifier the user logs in with */
+function getIdentifierType(identifier: string): IdentifierType {
+    if (isEmail(identifier)) return "email";
+    if (isPhoneNumber(identifier)) return "phone";
+    return "username";
+}
+
+/** Find the user an identifier belongs to, only verified phone numbers can be used to log in */
+async function findUserByIdentifier(identifier: string, identifierType: IdentifierType) {
+    switch (identifierType) {
+        case "email": return await userModel.findOne({ primaryEmail: identifier });
+        case "username": return await userModel.findOne({ username: identifier });
+        case "phone":
+            // Usernames can be made of digits too, so fall back to them
+            return await userModel.findOne({ phoneNumber: normalizePhoneNumber(identifier), phoneVerified: true })
+                || await userModel.findOne({ username: identifier });
+    }
+}
+
+/**
+ * Check that a user isn't banned (or their ban has expired), for logins and for credentials that skip logging in like API keys
+ * @param action What the user is trying to do, starts the error message (e.g. "Login failed")
+ * @throws {ForbiddenError} If the user is banned
+ */
+export function assertNotBanned(user: Pick<UserInterface, "moderation">, action: string): void {
+    if (user.moderation?.ban?.isBanned && (!user.moderation.ban.unbannedAt || new Date(user.moderation.ban.unbannedAt) > new Date())) {
+        throw new ForbiddenError(`${action} because your account was banned for: `
+            + `\n\n${(user.moderation.ban.banReason || "An unspecified reason.")}`
+            + `\n\n${user.moderation.ban.unbannedAt ? `You'll be unbanned at ${new Date(user.moderation.ban.unbannedAt).toLocaleString()}` : "This ban is permanent."}`);
+    }
+}
+
+/**
+ * Checks every way of logging in has to pass once the user has proven who they are
+ * @throws {ForbiddenError} If the user is banned or hasn't verified their email (or phone number)
+ */
+export function assertCanLogIn(user: Pick<UserInterface, "moderation" | "primaryEmail" | "emailVerified" | "phoneVerified">): void {
+    assertNotBanned(user, "Login failed");
+
+    // Check if verified, users who signed up with only a phone number verify that instead
+    const isVerified = user.primaryEmail ? user.emailVerified : user.phoneVerified;
+    if (CONFIG.signUp?.requireEmailVerification && !isVerified) {
+        throw new ForbiddenError("Please verify your email before logging in.", { emailVerificationRequired: true }, "Email Not Verified");
+    }
+}
+
+/**
+ * Check a username/email/phone number and password, shared by every way of logging in with credentials.
+ * @param identifier Username, email or phone number, detected automatically
+ * @param password Plain text password
+ * @param ip IP the login comes from, failed logins are counted per account and per IP
+ * @returns The authenticated user and which kind of identifier was used
+ * @throws {ForbiddenError} If login is disabled, or the user is banned or hasn't verified their email
+ * @throws {UnauthorizedError} If the credentials are invalid
+ * @throws {TooManyRequestsError} If the account or IP is locked after too many failed logins
+ */
+export async function authenticateCredentials(identifier: string, password: string, ip?: string) {
+    // Quick checks
+    if (!CONFIG.login?.enabled) throw new ForbiddenError("Login is currently disabled on this server.", {}, "Login Disabled");
+    if (!identifier) throw new BadRequestError("Username, email or phone number must be provided.", {}, "Missing Credentials");
+
+    // Automatically detect if identifier is email, phone number or username
+    const identifierType = getIdentifierType(identifier);
+    const user = await findUserByIdentifier(identifier, identifierType);
+    const subject: LoginSubject = { identifier, userId: user?.userId, ip };
+    await assertLoginAllowed(subject);
+
+    if (!user) {
+        await recordLoginFailure(subject);
+        throw new UnauthorizedError("Invalid username/email/phone number or password.", {}, "Invalid Credentials");
+    }
+
+    // Verify password
+    const isValidPassword = await verifyPassword(password, user.passwordHash);
+    if (!isValidPassword) {
+        await recordLoginFailure(subject, user);
+        throw new UnauthorizedError("Invalid username/email/phone number or password.", {}, "Invalid Credentials");
+    }
+
+    // With two-factor authentication failures are forgotten once the second step passes too
+    if (!await isTwoFactorEnabled(user.userId)) await recordLoginSuccess(subject);
+
+    assertCanLogIn(user);
+
+    return { user, identifierType };
+}
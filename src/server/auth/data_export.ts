@@ -0,0 +1,34 @@
+import { userModel } from "../../mongoose";
+import listingModel from "../../mongoose/models/listing";
+import channelModel from "../../mongoose/models/channel";
+import messageModel from "../../mongoose/models/message";
+import apiKeyModel from "../../mongoose/models/api_key";
+import securityEventModel from "../../mongoose/models/security_event";
+import { jwtService } from "./jwt";
+
+/** Internal Mongo fields left out of every part of the export */
+const HIDDEN_FIELDS = { _id: 0, __v: 0 };
+
+/**
+ * Collect everything stored about a user, so they can download a copy of their data
+ * @returns The export, or null if the user doesn't exist
+ */
+export async function exportUserData(userId: string) {
+    const user = await userModel.findOne({ userId }, { ...HIDDEN_FIELDS, passwordHash: 0, emailVerification: 0 }).lean();
+    if (!user) return null;
+
+    // Only the user's side of their conversations, the IDs of the other participants and what they wrote is their data, not this user's
+    const channels = await channelModel.find({ ownerUserIds: userId }, HIDDEN_FIELDS).lean();
+    const messages = await messageModel.find({ senderUserId: userId }, HIDDEN_FIELDS).sort({ createdAt: 1 }).lean();
+
+    return {
+        exportedAt: new Date(),
+        user,
+        listings: await listingModel.find({ ownerUserId: userId }, HIDDEN_FIELDS).lean(),
+        channels: channels.map(({ ownerUserIds, ...channel }) => ({ ...channel, participantCount: ownerUserIds.length })),
+        messages,
+        sessions: await jwtService.getActiveSessions(userId),
+        apiKeys: await apiKeyModel.find({ userId }, { ...HIDDEN_FIELDS, keyHash: 0 }).lean(),
+        securityEvents: await securityEventModel.find({ userId }, HIDDEN_FIELDS).sort({ createdAt: -1 }).lean(),
+    };
+}
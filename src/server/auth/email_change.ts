@@ -0,0 +1,115 @@
+import { userModel } from "../../mongoose";
+import CONFIG from "../../util/config";
+import { getLogger } from "../../util/logger";
+import { stime } from "../../util/static";
+import { queueEmail } from "../../email/outbox";
+import { consumeOneTimeToken, issueOneTimeToken, revokeOneTimeTokens } from "./one_time_token";
+import { recordSecurityEvent } from "./security";
+import { jwtService, SessionMetadata } from "./jwt";
+import { BadRequestError, ConflictError, isDuplicateKeyError } from "../errors";
+
+const logger = getLogger("EMAIL_CHANGE");
+
+/*
+ * Changing an email takes two confirmations: the password when requesting it, and a link sent to the new address.
+ * The old address gets a notice with a link to cancel, so someone who got into the account can't quietly take it over.
+ */
+
+// TYPES
+
+/** The user changing their email */
+type EmailChangeUser = {
+    userId: string;
+    primaryEmail?: string | null;
+    language?: string | null;
+    profile?: { firstName?: string | null } | null;
+};
+
+// FLOW
+
+/**
+ * Start changing the email of a user, the current password has to be checked before calling this
+ * @throws {ConflictError} If another account already uses the new email
+ */
+export async function requestEmailChange(user: EmailChangeUser, newEmail: string): Promise<void> {
+    if (await userModel.exists({ primaryEmail: newEmail, userId: { $ne: user.userId } })) {
+        throw new ConflictError("An account with this email already exists.", { fields: ["primaryEmail"] }, "Email Already Exists");
+    }
+
+    await userModel.updateOne({ userId: user.userId }, { $set: { pendingEmailChange: { newEmail, requestedAt: new Date() } } });
+
+    // Issuing new tokens invalidates the links of any earlier request
+    const confirmToken = await issueOneTimeToken(user.userId, "emailChange", CONFIG.emailChange.tokenExpiry);
+    const cancelToken = await issueOneTimeToken(user.userId, "emailChangeCancel", CONFIG.emailChange.tokenExpiry);
+
+    const firstName = user.profile?.firstName || "there";
+    await queueEmail("emailChangeConfirm", {
+        firstName,
+        link: `${CONFIG.domain.frontendUri}/confirm-email?token=${confirmToken}`,
+        expiresInHours: Math.round(CONFIG.emailChange.tokenExpiry / stime.hour),
+    }, { to: newEmail, userId: user.userId, language: user.language });
+
+    // Users who signed up with a phone number have no old address to warn
+    if (user.primaryEmail) {
+        await queueEmail("emailChangeNotice", {
+            firstName,
+            newEmail,
+            cancelLink: `${CONFIG.domain.frontendUri}/cancel-email-change?token=${cancelToken}`,
+        }, { to: user.primaryEmail, userId: user.userId, language: user.language });
+    }
+
+    logger.info(`User ${user.userId} requested an email change`);
+}
+
+/**
+ * Swap in the new email with the token from the confirmation link
+ * @returns The ID of the user and their new email
+ * @throws {BadRequestError} If the token is invalid, expired or the change was cancelled
+ * @throws {ConflictError} If another account started using the new email in the meantime
+ */
+export async function confirmEmailChange(token: string, metadata: SessionMetadata = {}): Promise<{ userId: string; newEmail: string }> {
+    const userId = await consumeOneTimeToken(token, "emailChange");
+    if (!userId) throw new BadRequestError("This confirmation link is invalid or has expired.", {}, "Invalid Confirmation Token");
+
+    const user = await userModel.findOne({ userId }, { userId: 1, primaryEmail: 1, pendingEmailChange: 1 }).lean();
+    if (!user?.pendingEmailChange) throw new BadRequestError("There is no email change waiting for confirmation.", {}, "No Pending Email Change");
+
+    const { newEmail } = user.pendingEmailChange;
+    try {
+        // Following the link proves the user owns the new address, so it counts as verified
+        await userModel.updateOne(
+            { userId, "pendingEmailChange.newEmail": newEmail },
+            { $set: { primaryEmail: newEmail, emailVerified: true }, $unset: { pendingEmailChange: 1, emailVerification: 1 } },
+        );
+    } catch (error) {
+        if (!isDuplicateKeyError(error)) throw error;
+
+        await userModel.updateOne({ userId }, { $unset: { pendingEmailChange: 1 } });
+        throw new ConflictError("Another account started using this email in the meantime.", { fields: ["primaryEmail"] }, "Email Already Exists");
+    } finally {
+        await revokeOneTimeTokens(userId, "emailChangeCancel");
+    }
+
+    await recordSecurityEvent({ userId, type: "emailChanged", ip: metadata.ip, userAgent: metadata.userAgent, details: { previousEmail: user.primaryEmail, newEmail } });
+    logger.success(`User ${userId} changed their email`);
+    return { userId, newEmail };
+}
+
+/**
+ * Cancel an email change with the token from the notice sent to the old address, logging out every session
+ * since the request may have come from someone who got into the account
+ * @returns The amount of sessions that were logged out
+ * @throws {BadRequestError} If the token is invalid or expired
+ */
+export async function cancelEmailChange(token: string, metadata: SessionMetadata = {}): Promise<number> {
+    const userId = await consumeOneTimeToken(token, "emailChangeCancel");
+    if (!userId) throw new BadRequestError("This cancel link is invalid or has expired.", {}, "Invalid Cancel Token");
+
+    await userModel.updateOne({ userId }, { $unset: { pendingEmailChange: 1 } });
+    await revokeOneTimeTokens(userId, "emailChange");
+    const revokedSessions = await jwtService.revokeAllRefreshTokens(userId);
+
+    await recordSecurityEvent({ userId, type: "emailChangeCancelled", ip: metadata.ip, userAgent: metadata.userAgent });
+    logger.warn(`User ${userId} cancelled an email change, revoked ${revokedSessions} sessions`);
+    return revokedSessions;
+}
@@ -0,0 +1,121 @@
+import crypto from "crypto";
+import { userModel } from "../../mongoose";
+import CONFIG from "../../util/config";
+import { getLogger } from "../../util/logger";
+import { stime } from "../../util/static";
+import { queueEmail } from "../../email/outbox";
+import { Initializer } from "../../bootloaders";
+
+const logger = getLogger("EMAIL_VERIFICATION");
+
+// TYPES
+
+/** The user an email verification is sent to */
+type VerificationRecipient = {
+    userId: string;
+    primaryEmail?: string | null;
+    language?: string | null;
+    profile?: { firstName?: string | null } | null;
+};
+
+/** Outcome of using a verification code */
+export type EmailVerificationResult =
+    | { status: "verified"; userId: string }
+    | { status: "expired" }
+    | { status: "invalid" };
+
+// HELPER FUNCTIONS
+
+/** Hash a verification code, only hashes are stored so a database leak doesn't leak usable links */
+function hashVerificationCode(code: string): string {
+    return crypto.createHash("sha256").update(code).digest("hex");
+}
+
+// VERIFICATION
+
+/** Start a new email verification for a user and email them the link, any previous link stops working */
+export async function issueEmailVerification(user: VerificationRecipient): Promise<void> {
+    if (!user.primaryEmail) throw new Error(`User ${user.userId} has no email to verify`);
+
+    const code = crypto.randomBytes(32).toString("hex");
+    const emailVerification = {
+        isPending: true,
+        verificationCode: hashVerificationCode(code),
+        hashed: true,
+        sendDate: new Date(),
+        expiresAt: new Date(Date.now() + CONFIG.signUp.emailVerificationExpiry),
+    };
+
+    await userModel.updateOne({ userId: user.userId }, { $set: { emailVerification } });
+    await queueEmail("emailVerification", {
+        firstName: user.profile?.firstName || "there",
+        link: `${CONFIG.domain.backendUri}/verify/email?code=${code}`,
+        expiresInHours: Math.round(CONFIG.signUp.emailVerificationExpiry / stime.hour),
+    }, { to: user.primaryEmail, userId: user.userId, language: user.language });
+    logger.info(`Email verification queued for user ${user.userId}`);
+}
+
+/**
+ * Time until a user may ask for a new verification email
+ * @returns Milliseconds to wait, 0 if a new email can be sent right away
+ */
+export function getResendCooldown(emailVerification?: { sendDate?: Date | null } | null): number {
+    if (!emailVerification?.sendDate) return 0;
+    const availableAt = new Date(emailVerification.sendDate).getTime() + CONFIG.signUp.emailVerificationResendCooldown;
+    return Math.max(availableAt - Date.now(), 0);
+}
+
+/** Use a verification code from an email link, marking the user's email as verified */
+export async function verifyEmailCode(code: string): Promise<EmailVerificationResult> {
+    const user = await userModel.findOne(
+        { "emailVerification.verificationCode": hashVerificationCode(code), "emailVerification.isPending": true },
+        { userId: 1, emailVerification: 1 },
+    ).lean();
+    if (!user?.emailVerification) return { status: "invalid" };
+
+    if (!user.emailVerification.expiresAt || new Date(user.emailVerification.expiresAt) <= new Date()) {
+        logger.debug(`Expired email verification used for user ${user.userId}`);
+        return { status: "expired" };
+    }
+
+    // Matching on the code again makes sure two requests can't both use it
+    const updated = await userModel.updateOne(
+        { userId: user.userId, "emailVerification.verificationCode": user.emailVerification.verificationCode },
+        { $set: { emailVerified: true }, $unset: { emailVerification: 1 } },
+    );
+    if (updated.modifiedCount === 0) return { status: "invalid" };
+
+    logger.info(`Email verification successful for user: ${user.userId}`);
+    return { status: "verified", userId: user.userId };
+}
+
+/**
+ * Hash verification codes that were stored as is before hashing was introduced, so links sent before then keep working
+ * @returns Amount of codes migrated
+ */
+export async function migrateLegacyVerificationCodes(): Promise<number> {
+    let migrated = 0;
+    const legacyFilter = { "emailVerification.verificationCode": { $exists: true }, "emailVerification.hashed": { $ne: true } };
+
+    for await (const user of userModel.find(legacyFilter, { userId: 1, emailVerification: 1 }).lean().cursor()) {
+        const code = user.emailVerification!.verificationCode;
+        await userModel.updateOne(
+            { userId: user.userId, "emailVerification.verificationCode": code },
+            { $set: { "emailVerification.verificationCode": hashVerificationCode(code), "emailVerification.hashed": true } },
+        );
+        migrated++;
+    }
+
+    if (migrated > 0) logger.info(`Hashed ${migrated} legacy email verification codes`);
+    return migrated;
+}
+
+// Hash any verification codes still stored as is
+new Initializer("EMAIL_VERIFICATION", async () => {
+    try {
+        await migrateLegacyVerificationCodes();
+    } catch (error) {
+        logger.error("Failed to migrate legacy email verification codes:", error);
+    }
+    return true;
+});
@@ -0,0 +1,22 @@
+import crypto from "crypto";
+import CONFIG from "../../util/config";
+
+// Secrets we need to read back later (signing keys, two-factor secrets) are encrypted at rest,
+// so reading the database alone isn't enough to use them
+const encryptionKey = crypto.createHash("sha256").update(CONFIG.jwt.keyEncryptionSecret).digest();
+
+/** Encrypt a secret with AES-256-GCM before storing it */
+export function encryptSecret(plaintext: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", encryptionKey, iv);
+    const encrypted = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString("base64url")).join(".");
+}
+
+/** Decrypt a secret encrypted with `encryptSecret` */
+export function decryptSecret(encrypted: string): string {
+    const [iv, tag, data] = encrypted.split(".").map(part => Buffer.from(part, "base64url"));
+    const decipher = crypto.createDecipheriv("aes-256-gcm", encryptionKey, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]).toString("utf8");
+}
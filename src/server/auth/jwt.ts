@@ -1,9 +1,13 @@
-import { CookieOptions, Response } from 'express';
+import { CookieOptions, Request, Response } from 'express';
 import jwt from 'jsonwebtoken';
-import { RefreshToken, UserInterface } from '../../mongoose';
+import crypto from 'crypto';
+import { RefreshToken, RefreshTokenInterface, UserInterface } from '../../mongoose';
 import cron from "node-schedule";
 import { getLogger } from '../../util/logger';
 import CONFIG from '../../util/config';
+import { Initializer } from '../../bootloaders';
+import { recordSecurityEvent } from './security';
+import { keyring } from './keyring';
 
 const logger = getLogger('JWT');
 
@@ -32,10 +36,34 @@ export interface TokenPayload {
     /** The timestamp when the token expires */
     expires?: number; // has to be optional cause authentication via API doesn't have expires info since it only maps user to UserToken
 
+    /** ID of the session the token belongs to, tokens issued before sessions existed don't have one */
+    sessionId?: string;
+
     exp?: number;
     iat?: number;
 }
 
+/** Information about the device a session is used from */
+export interface SessionMetadata {
+    userAgent?: string;
+    ip?: string;
+    /** When the session was started, defaults to now for new sessions */
+    sessionStartedAt?: Date;
+}
+
+/** Hash a refresh token, only hashes are stored so a database leak doesn't hand out valid sessions */
+export function hashRefreshToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/** Get the session metadata of a request */
+export function getSessionMetadata(req: Pick<Request, "get" | "ip">): SessionMetadata {
+    return {
+        userAgent: req.get("user-agent")?.slice(0, 512),
+        ip: req.ip,
+    };
+}
+
 
 declare module 'express' {
     interface Request {
@@ -70,21 +98,20 @@ class JWTService {
 
     /**
      * Generates both access and refresh tokens for a user
-     * @param {Omit<TokenPayload, "expires">} user - User data to encode in the token
+     * @param {Omit<TokenPayload, "expires">} user - User data to encode in the token, a new session is started if no sessionId is given
+     * @param {SessionMetadata} metadata - Information about the device the session is used from
      * @returns {Promise<{accessToken: string, refreshToken: string}>} Generated token pair
      * @throws {Error} If token generation fails
      */
-    async generateTokens(user: Omit<TokenPayload, "expires">): Promise<{ accessToken: string; refreshToken: string }> {
+    async generateTokens(user: Omit<TokenPayload, "expires">, metadata: SessionMetadata = {}): Promise<{ accessToken: string; refreshToken: string }> {
         try {
             const payload: TokenPayload = {
                 ...user,
+                sessionId: user.sessionId || crypto.randomUUID(),
                 expires: Date.now() + CONFIG.jwt.accessTokenExpiry
             };
 
-            const accessToken = jwt.sign(payload, CONFIG.jwt.secret, {
-                expiresIn: CONFIG.jwt.accessTokenExpiry / 1000,
-                algorithm: 'HS256'
-            });
+            const accessToken = await this.signAccessToken(payload);
 
             const refreshToken = jwt.sign(payload, CONFIG.jwt.refreshSecret, {
                 expiresIn: CONFIG.jwt.refreshTokenExpiry / 1000,
@@ -94,7 +121,9 @@ class JWTService {
             await this.storeRefreshToken(
                 user.userId,
                 refreshToken,
-                new Date(Date.now() + CONFIG.jwt.refreshTokenExpiry)
+                new Date(Date.now() + CONFIG.jwt.refreshTokenExpiry),
+                payload.sessionId!,
+                metadata
             );
 
             logger.debug(`Generated tokens for user ${user.userId}`);
@@ -106,13 +135,31 @@ class JWTService {
     }
 
     /**
-     * Verifies the validity of an access token
+     * Signs an access token with the keyring, or with the shared secret when JWT_ALGORITHM is HS256
+     * @param {TokenPayload} payload - Payload to encode in the token
+     * @returns {Promise<string>} The signed access token
+     */
+    private async signAccessToken(payload: TokenPayload): Promise<string> {
+        if (keyring.enabled) return await keyring.sign(payload, CONFIG.jwt.accessTokenExpiry);
+
+        return jwt.sign(payload, CONFIG.jwt.secret, {
+            expiresIn: CONFIG.jwt.accessTokenExpiry / 1000,
+            algorithm: 'HS256'
+        });
+    }
+
+    /**
+     * Verifies the validity of an access token.
+     * Tokens with a key ID are verified with the keyring, tokens without one were signed with the shared secret.
      * @param {string} token - The access token to verify
-     * @returns {TokenPayload | null} Decoded token payload or null if invalid
+     * @returns {Promise<TokenPayload | null>} Decoded token payload or null if invalid
      */
-    verifyAccessToken(token: string): TokenPayload | null {
+    async verifyAccessToken(token: string): Promise<TokenPayload | null> {
         try {
-            return jwt.verify(token, CONFIG.jwt.secret) as TokenPayload;
+            const header = jwt.decode(token, { complete: true })?.header;
+            if (header?.kid) return await keyring.verify(token) as TokenPayload;
+
+            return jwt.verify(token, CONFIG.jwt.secret, { algorithms: ['HS256'] }) as TokenPayload;
         } catch (error) {
             logger.debug(`Access token verification failed: ${error}`);
             return null;
@@ -120,31 +167,69 @@ class JWTService {
     }
 
     /**
-     * Verifies the validity of a refresh token and checks if it's been revoked
+     * Verifies the validity of a refresh token and checks if it's been revoked.
+     * Presenting a token that was already rotated revokes its whole session (token family), since either the
+     * legitimate user or an attacker is holding on to a stolen copy.
      * @param {string} token - The refresh token to verify
+     * @param {SessionMetadata} metadata - Information about the device presenting the token, used for security events
      * @returns {Promise<TokenPayload | null>} Decoded token payload or null if invalid/revoked
      */
-    async verifyRefreshToken(token: string): Promise<TokenPayload | null> {
+    async verifyRefreshToken(token: string, metadata: SessionMetadata = {}): Promise<TokenPayload | null> {
         try {
-            if (await this.isTokenRevoked(token)) {
+            const payload = jwt.verify(token, CONFIG.jwt.refreshSecret, { algorithms: ['HS256'] }) as TokenPayload;
+
+            const tokenDoc = await RefreshToken.findOne({ tokenHash: hashRefreshToken(token) }).lean();
+            if (!tokenDoc) {
+                logger.debug('Refresh token does not exist');
+                return null;
+            }
+
+            if (tokenDoc.isRevoked) {
                 logger.debug('Refresh token has been revoked');
+                if (tokenDoc.rotatedAt) await this.handleRotatedTokenReuse(tokenDoc, metadata);
                 return null;
             }
-            return jwt.verify(token, CONFIG.jwt.refreshSecret) as TokenPayload;
+
+            return payload;
         } catch (error) {
             logger.debug(`Refresh token verification failed: ${error}`);
             return null;
         }
     }
 
+    /**
+     * Handles an already rotated refresh token being presented again by revoking its whole session.
+     * Reuse within the grace period is ignored, browsers sending a few requests at once will race to rotate the same token.
+     */
+    private async handleRotatedTokenReuse(tokenDoc: Pick<RefreshTokenInterface, "userId" | "sessionId" | "tokenHash" | "rotatedAt">, metadata: SessionMetadata): Promise<void> {
+        const rotatedAgo = Date.now() - new Date(tokenDoc.rotatedAt!).getTime();
+        if (rotatedAgo <= CONFIG.jwt.reuseGracePeriod) {
+            logger.debug(`Rotated refresh token reused within grace period (${rotatedAgo}ms) for user ${tokenDoc.userId}`);
+            return;
+        }
+
+        // Tokens from before sessions existed have no family, so only the token itself can be revoked
+        const revokedTokens = tokenDoc.sessionId ? await this.revokeSession(tokenDoc.userId, tokenDoc.sessionId) : 0;
+
+        await recordSecurityEvent({
+            userId: tokenDoc.userId,
+            type: "refreshTokenReuse",
+            sessionId: tokenDoc.sessionId,
+            ip: metadata.ip,
+            userAgent: metadata.userAgent,
+            details: { rotatedAgo, revokedTokens },
+        });
+    }
+
     /**
      * Generates a new access token using a valid refresh token
      * @param {string} refreshToken - The refresh token to use
+     * @param {SessionMetadata} metadata - Information about the device presenting the token
      * @returns {Promise<{accessToken: string, payload: TokenPayload} | null>} New access token and payload or null if refresh failed
      */
-    async refreshAccessToken(refreshToken: string): Promise<{ accessToken: string; payload: TokenPayload } | null> {
+    async refreshAccessToken(refreshToken: string, metadata: SessionMetadata = {}): Promise<{ accessToken: string; payload: TokenPayload } | null> {
         try {
-            const oldPayload = await this.verifyRefreshToken(refreshToken);
+            const oldPayload = await this.verifyRefreshToken(refreshToken, metadata);
             if (!oldPayload) return null;
 
             const { exp, iat, ...cleanPayload } = oldPayload;
@@ -153,9 +238,7 @@ class JWTService {
                 expires: Date.now() + CONFIG.jwt.accessTokenExpiry
             };
 
-            const accessToken = jwt.sign(payload, CONFIG.jwt.secret, {
-                expiresIn: CONFIG.jwt.accessTokenExpiry / 1000
-            });
+            const accessToken = await this.signAccessToken(payload);
 
             return { accessToken, payload };
         } catch (error) {
@@ -169,9 +252,18 @@ class JWTService {
      * @param {string} userId - The user ID associated with the token
      * @param {string} token - The refresh token to store
      * @param {Date} expiresAt - Token expiration date
+     * @param {string} sessionId - ID of the session the token belongs to
+     * @param {SessionMetadata} metadata - Information about the device the session is used from
      */
-    async storeRefreshToken(userId: string, token: string, expiresAt: Date): Promise<void> {
-        await RefreshToken.create({ userId, token, expiresAt });
+    async storeRefreshToken(userId: string, token: string, expiresAt: Date, sessionId: string, metadata: SessionMetadata = {}): Promise<void> {
+        const now = new Date();
+        await RefreshToken.create({
+            userId, tokenHash: hashRefreshToken(token), expiresAt, sessionId,
+            sessionStartedAt: metadata.sessionStartedAt || now,
+            lastUsedAt: now,
+            userAgent: metadata.userAgent,
+            ip: metadata.ip,
+        });
     }
 
     /**
@@ -181,20 +273,82 @@ class JWTService {
      */
     async revokeRefreshToken(userId: string, token: string): Promise<void> {
         await RefreshToken.updateOne(
-            { userId, token },
+            { userId, tokenHash: hashRefreshToken(token) },
             { isRevoked: true }
         );
     }
 
     /**
-     * Checks if a refresh token has been revoked
-     * @param {string} token - The token to check
-     * @returns {Promise<boolean>} True if token is revoked or doesn't exist
-     * @private
+     * Revokes all refresh tokens of a user, logging them out everywhere
+     * @param {string} userId - The user ID to revoke all tokens of
+     * @returns {Promise<number>} Amount of tokens revoked
      */
-    private async isTokenRevoked(token: string): Promise<boolean> {
-        const tokenDoc = await RefreshToken.findOne({ token });
-        return (!tokenDoc || tokenDoc.isRevoked) ?? false;
+    async revokeAllRefreshTokens(userId: string): Promise<number> {
+        const result = await RefreshToken.updateMany(
+            { userId, isRevoked: false },
+            { isRevoked: true }
+        );
+        return result.modifiedCount;
+    }
+
+    /**
+     * Revokes all refresh tokens of a single session
+     * @param {string} userId - The user ID the session belongs to
+     * @param {string} sessionId - The session to revoke
+     * @returns {Promise<number>} Amount of tokens revoked, 0 if the session doesn't exist or was already revoked
+     */
+    async revokeSession(userId: string, sessionId: string): Promise<number> {
+        const result = await RefreshToken.updateMany(
+            { userId, sessionId, isRevoked: false },
+            { isRevoked: true }
+        );
+        return result.modifiedCount;
+    }
+
+    /**
+     * Revokes all refresh tokens of a user except the ones of the given session
+     * @param {string} userId - The user ID to revoke the tokens of
+     * @param {string} [keepSessionId] - The session to keep, every session is revoked if not given
+     * @returns {Promise<number>} Amount of tokens revoked
+     */
+    async revokeOtherSessions(userId: string, keepSessionId?: string): Promise<number> {
+        if (!keepSessionId) return await this.revokeAllRefreshTokens(userId);
+
+        const result = await RefreshToken.updateMany(
+            { userId, isRevoked: false, sessionId: { $ne: keepSessionId } },
+            { isRevoked: true }
+        );
+        return result.modifiedCount;
+    }
+
+    /**
+     * Gets all active (non-revoked, non-expired) sessions of a user, most recently used first
+     * @param {string} userId - The user ID to get the sessions of
+     */
+    async getActiveSessions(userId: string) {
+        return await RefreshToken.find(
+            // Tokens issued before sessions existed can't be managed individually, they expire by themselves
+            { userId, isRevoked: false, expiresAt: { $gt: new Date() }, sessionId: { $exists: true } },
+            { _id: 0, sessionId: 1, sessionStartedAt: 1, lastUsedAt: 1, userAgent: 1, ip: 1, expiresAt: 1 }
+        ).sort({ lastUsedAt: -1 }).lean();
+    }
+
+    /**
+     * Hashes refresh tokens that were stored in plain text before hashing was introduced
+     * @returns {Promise<number>} Amount of tokens migrated
+     */
+    async migrateLegacyRefreshTokens(): Promise<number> {
+        let migrated = 0;
+        for await (const tokenDoc of RefreshToken.find({ token: { $exists: true } }, { token: 1 }).lean().cursor()) {
+            await RefreshToken.updateOne(
+                { _id: tokenDoc._id },
+                { $set: { tokenHash: hashRefreshToken(tokenDoc.token!) }, $unset: { token: 1 } }
+            );
+            migrated++;
+        }
+
+        if (migrated > 0) logger.info(`Hashed ${migrated} legacy refresh tokens`);
+        return migrated;
     }
 
     /**
@@ -215,25 +369,36 @@ class JWTService {
     /**
      * Rotate the user's JWT tokens by generating new ones and revoking the old refresh token
      * @param refreshToken The user's refresh token
+     * @param metadata Information about the device the session is used from
      * @returns accessToken, refreshToken, and payload if successful, null otherwise
      */
-    async rotateTokens(refreshToken: string): Promise<{ accessToken: string; refreshToken: string; payload: TokenPayload } | null> {
+    async rotateTokens(refreshToken: string, metadata: SessionMetadata = {}): Promise<{ accessToken: string; refreshToken: string; payload: TokenPayload } | null> {
         try {
-            const refreshResult = await this.refreshAccessToken(refreshToken);
+            const refreshResult = await this.refreshAccessToken(refreshToken, metadata);
             if (!refreshResult) return null;
 
-            const { payload } = refreshResult;
+            // Claim the old refresh token, only one request can ever rotate it
+            const previous = await RefreshToken.findOneAndUpdate(
+                { tokenHash: hashRefreshToken(refreshToken), isRevoked: false },
+                { $set: { isRevoked: true, rotatedAt: new Date() } },
+                { projection: { sessionStartedAt: 1 } }
+            ).lean();
+            if (!previous) {
+                logger.debug(`Refresh token was rotated concurrently for user ${refreshResult.payload.userId}`);
+                return null;
+            }
+
+            // Tokens from before sessions existed are moved into a new session
+            const payload: TokenPayload = { ...refreshResult.payload, sessionId: refreshResult.payload.sessionId || crypto.randomUUID() };
 
-            // Generate new tokens
+            // Generate new tokens, continuing the same session (token family)
             const newTokens = await this.generateTokens({
                 userId: payload.userId,
-            });
-
-            // Revoke old refresh token
-            await this.revokeRefreshToken(payload.userId, refreshToken);
+                sessionId: payload.sessionId,
+            }, { ...metadata, sessionStartedAt: previous.sessionStartedAt });
 
             return {
-                accessToken: refreshResult.accessToken,
+                accessToken: newTokens.accessToken,
                 refreshToken: newTokens.refreshToken,
                 payload
             };
@@ -255,6 +420,15 @@ class JWTService {
         logger.debug('Cookies set successfully');
     }
 
+    /**
+     * Removes the access and refresh token cookies
+     * @param res Express response object
+     */
+    clearCookies(res: Response): void {
+        res.clearCookie("accessToken", tokenCookieOptions.accessToken);
+        res.clearCookie("refreshToken", tokenCookieOptions.refreshToken);
+    }
+
     /**
      * Verifies and refreshes tokens if needed, updating cookies automatically
      * @param cookies Current token cookies from request
@@ -264,11 +438,11 @@ class JWTService {
     async verifyAndRefreshTokens(cookies: { accessToken?: string; refreshToken?: string }, res: Response): Promise<TokenPayload | null> {
         try {
             // First try to verify access token
-            let payload = cookies.accessToken ? this.verifyAccessToken(cookies.accessToken) : null;
+            let payload = cookies.accessToken ? await this.verifyAccessToken(cookies.accessToken) : null;
 
             // If access token invalid/expired, try refresh and rotate tokens
             if (!payload && cookies.refreshToken) {
-                const rotated = await this.rotateTokens(cookies.refreshToken);
+                const rotated = await this.rotateTokens(cookies.refreshToken, getSessionMetadata(res.req));
                 if (rotated) {
                     payload = rotated.payload;
                     // Update both cookies with the new tokens
@@ -283,8 +457,7 @@ class JWTService {
         } catch (error) {
             logger.error('Token verification/refresh failed:', error);
             // Clear cookies on failure
-            res.clearCookie("accessToken", tokenCookieOptions.accessToken);
-            res.clearCookie("refreshToken", tokenCookieOptions.refreshToken);
+            this.clearCookies(res);
             return null;
         }
     }
@@ -295,4 +468,14 @@ export const jwtService = JWTService.getInstance();
 // Cleanup expired tokens every hour
 cron.scheduleJob('0 * * * *', async () => {
     await jwtService.cleanupExpiredTokens();
-});
\ No newline at end of file
+});
+
+// Hash any refresh tokens still stored in plain text
+new Initializer("JWT", async () => {
+    try {
+        await jwtService.migrateLegacyRefreshTokens();
+    } catch (error) {
+        logger.error('Failed to migrate legacy refresh tokens:', error);
+    }
+    return true;
+});
@@ -0,0 +1,276 @@
+import crypto, { KeyObject } from "crypto";
+import { promisify } from "util";
+import jwt from "jsonwebtoken";
+import cron from "node-schedule";
+import CONFIG from "../../util/config";
+import { getLogger } from "../../util/logger";
+import { stime } from "../../util/static";
+import { Initializer } from "../../bootloaders";
+import signingKeyModel, { SigningKeyAlgorithm, SigningKeyInterface } from "../../mongoose/models/signing_key";
+import { decryptSecret, encryptSecret } from "./encryption";
+
+const logger = getLogger("KEYRING");
+const generateKeyPair = promisify(crypto.generateKeyPair);
+
+// TYPES
+
+/** A signing key loaded into memory */
+interface LoadedKey {
+    kid: string;
+    algorithm: SigningKeyAlgorithm;
+    publicKey: KeyObject;
+    privateKey: KeyObject;
+    activatesAt: Date;
+    expiresAt?: Date;
+}
+
+/** Public key in JWK format as served on the JWKS endpoint */
+export type PublicJWK = crypto.JsonWebKey & { kid: string; alg: SigningKeyAlgorithm; use: "sig" };
+
+/** How often the keys are reloaded from the database, so keys rotated by other instances are picked up */
+const RELOAD_INTERVAL = stime.minute * 5;
+/** Minimum time between reloads caused by tokens with an unknown `kid`, so garbage tokens can't hammer the database */
+const UNKNOWN_KID_RELOAD_INTERVAL = 1000 * 10;
+/** Extra time a replaced key stays valid for verification, covers clock drift between services */
+const EXPIRY_LEEWAY = stime.minute;
+
+// EDDSA
+
+/*
+ * jsonwebtoken doesn't support EdDSA, so Ed25519 tokens are signed and verified here directly.
+ * Only compact JWS with the claims we issue is handled, which is all our own tokens ever are.
+ */
+
+function signEdDSA(payload: object, key: LoadedKey, expiresIn: number): string {
+    const iat = Math.floor(Date.now() / 1000);
+    const header = { alg: "EdDSA", typ: "JWT", kid: key.kid };
+    const body = { ...payload, iat, exp: iat + Math.floor(expiresIn / 1000) };
+
+    const signingInput = `${Buffer.from(JSON.stringify(header)).toString("base64url")}.${Buffer.from(JSON.stringify(body)).toString("base64url")}`;
+    const signature = crypto.sign(null, Buffer.from(signingInput), key.privateKey).toString("base64url");
+    return `${signingInput}.${signature}`;
+}
+
+function verifyEdDSA(token: string, key: LoadedKey): jwt.JwtPayload {
+    const [header, body, signature] = token.split(".");
+    if (!crypto.verify(null, Buffer.from(`${header}.${body}`), key.publicKey, Buffer.from(signature, "base64url"))) {
+        throw new Error("invalid signature");
+    }
+
+    const payload = JSON.parse(Buffer.from(body, "base64url").toString("utf8")) as jwt.JwtPayload;
+    if (typeof payload.exp !== "number" || payload.exp * 1000 <= Date.now()) throw new Error("jwt expired");
+    return payload;
+}
+
+/**
+ * Keeps the asymmetric keys access tokens are signed with.
+ * The newest active key signs, every key that hasn't expired verifies, so rotating keys never logs anyone out.
+ * Public keys are published through the JWKS endpoint before they start signing, letting other services verify tokens without any shared secret.
+ */
+class KeyringService {
+    private static instance: KeyringService;
+
+    /** Loaded keys, most recently activated first */
+    private keys: LoadedKey[] = [];
+    private loadedAt = 0;
+    private loading: Promise<void> | null = null;
+
+    private constructor() { }
+
+    /** Get singleton instance of KeyringService */
+    static getInstance(): KeyringService {
+        if (!KeyringService.instance) {
+            KeyringService.instance = new KeyringService();
+        }
+        return KeyringService.instance;
+    }
+
+    /** Whether tokens are signed with the keyring, or with the legacy shared secret */
+    get enabled(): boolean {
+        return CONFIG.jwt.algorithm !== "HS256";
+    }
+
+    // LOADING
+
+    /** Load all keys that haven't expired from the database */
+    async load(): Promise<void> {
+        // Concurrent callers share a single reload
+        if (!this.loading) {
+            this.loading = (async () => {
+                try {
+                    const docs = await signingKeyModel.find({ $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: new Date() } }] }).sort({ activatesAt: -1 }).lean();
+                    this.keys = docs.map(doc => this.toLoadedKey(doc));
+                    this.loadedAt = Date.now();
+                    logger.debug(`Loaded ${this.keys.length} signing keys`);
+                } finally {
+                    this.loading = null;
+                }
+            })();
+        }
+        await this.loading;
+    }
+
+    private toLoadedKey(doc: SigningKeyInterface): LoadedKey {
+        return {
+            kid: doc.kid,
+            algorithm: doc.algorithm,
+            publicKey: crypto.createPublicKey(doc.publicKey),
+            privateKey: crypto.createPrivateKey(decryptSecret(doc.encryptedPrivateKey)),
+            activatesAt: new Date(doc.activatesAt),
+            expiresAt: doc.expiresAt ? new Date(doc.expiresAt) : undefined,
+        };
+    }
+
+    private async ensureLoaded(): Promise<void> {
+        if (Date.now() - this.loadedAt > RELOAD_INTERVAL) await this.load();
+    }
+
+    /** Keys that can still verify tokens */
+    private get validKeys(): LoadedKey[] {
+        const now = Date.now();
+        return this.keys.filter(key => !key.expiresAt || key.expiresAt.getTime() > now);
+    }
+
+    // KEYS
+
+    /** Get the key new tokens are signed with, creating the first one if there are none yet */
+    async getSigningKey(): Promise<LoadedKey> {
+        await this.ensureLoaded();
+
+        const now = Date.now();
+        const active = this.validKeys.find(key => key.activatesAt.getTime() <= now);
+        if (active) return active;
+
+        // Nothing has been published yet, so there's no one to give a heads-up to and the key can be used right away
+        logger.info("No active signing key found, generating one");
+        await this.rotate(0);
+        return this.validKeys.find(key => key.activatesAt.getTime() <= Date.now())!;
+    }
+
+    /** Find the key with the given ID, reloading once in case another instance just created it */
+    private async getVerificationKey(kid: string): Promise<LoadedKey | undefined> {
+        await this.ensureLoaded();
+
+        let key = this.validKeys.find(key => key.kid === kid);
+        if (!key && Date.now() - this.loadedAt > UNKNOWN_KID_RELOAD_INTERVAL) {
+            await this.load();
+            key = this.validKeys.find(key => key.kid === kid);
+        }
+        return key;
+    }
+
+    /**
+     * Generate a new key and schedule the current ones to expire once every token they signed has.
+     * @param activationDelay Time until the new key starts signing, so services caching the JWKS see it before it's used
+     * @returns The ID of the new key
+     */
+    async rotate(activationDelay: number = CONFIG.jwt.keyActivationDelay): Promise<string> {
+        const algorithm = CONFIG.jwt.algorithm as SigningKeyAlgorithm;
+        const { publicKey, privateKey } = algorithm === "EdDSA"
+            ? await generateKeyPair("ed25519")
+            : await generateKeyPair("rsa", { modulusLength: 2048 });
+
+        const kid = crypto.randomBytes(12).toString("base64url");
+        const activatesAt = new Date(Date.now() + activationDelay);
+
+        await signingKeyModel.create({
+            kid,
+            algorithm,
+            publicKey: publicKey.export({ type: "spki", format: "pem" }).toString(),
+            encryptedPrivateKey: encryptSecret(privateKey.export({ type: "pkcs8", format: "pem" }).toString()),
+            activatesAt,
+        });
+
+        // Tokens keep being signed with the previous keys until the new one activates (or other instances reload),
+        // and stay valid for one access token lifetime after that
+        const expiresAt = new Date(activatesAt.getTime() + RELOAD_INTERVAL + CONFIG.jwt.accessTokenExpiry + EXPIRY_LEEWAY);
+        await signingKeyModel.updateMany({ kid: { $ne: kid }, expiresAt: { $exists: false } }, { $set: { expiresAt } });
+
+        await this.load();
+        logger.info(`Generated ${algorithm} signing key ${kid}, activating at ${activatesAt.toISOString()}`);
+        return kid;
+    }
+
+    /** Rotate the signing key if it's older than the rotation interval or uses another algorithm than configured, unless a newer key is waiting to activate */
+    async rotateIfDue(): Promise<void> {
+        try {
+            await this.load();
+
+            const now = Date.now();
+            const newest = this.validKeys[0];
+            if (newest && newest.activatesAt.getTime() > now) return;
+            if (newest && newest.algorithm === CONFIG.jwt.algorithm && now - newest.activatesAt.getTime() < CONFIG.jwt.keyRotationInterval) return;
+
+            await this.rotate();
+        } catch (error) {
+            logger.error("Failed to rotate signing keys:", error);
+        }
+    }
+
+    /** Get the public keys of all keys that can currently verify tokens, including ones that aren't signing yet */
+    async getPublicKeys(): Promise<PublicJWK[]> {
+        await this.ensureLoaded();
+        return this.validKeys.map(key => ({
+            ...key.publicKey.export({ format: "jwk" }),
+            kid: key.kid,
+            alg: key.algorithm,
+            use: "sig",
+        }));
+    }
+
+    // TOKENS
+
+    /**
+     * Sign a payload with the current signing key
+     * @param payload Claims to put in the token
+     * @param expiresIn Lifetime of the token in milliseconds
+     */
+    async sign(payload: object, expiresIn: number): Promise<string> {
+        const key = await this.getSigningKey();
+        if (key.algorithm === "EdDSA") return signEdDSA(payload, key, expiresIn);
+
+        return jwt.sign(payload, key.privateKey, {
+            algorithm: key.algorithm,
+            keyid: key.kid,
+            expiresIn: expiresIn / 1000,
+        });
+    }
+
+    /**
+     * Verify a token signed by the keyring, based on the `kid` in its header
+     * @throws {Error} If the key is unknown, the signature is invalid or the token has expired
+     */
+    async verify(token: string): Promise<jwt.JwtPayload> {
+        const decoded = jwt.decode(token, { complete: true });
+        const kid = decoded?.header.kid;
+        if (!kid) throw new Error("token has no key id");
+
+        const key = await this.getVerificationKey(kid);
+        if (!key) throw new Error(`unknown key id ${kid}`);
+        // The algorithm always comes from our own key, never from the token header
+        if (decoded.header.alg !== key.algorithm) throw new Error(`algorithm ${decoded.header.alg} doesn't match key ${kid}`);
+
+        if (key.algorithm === "EdDSA") return verifyEdDSA(token, key);
+        return jwt.verify(token, key.publicKey, { algorithms: [key.algorithm] }) as jwt.JwtPayload;
+    }
+}
+
+export const keyring = KeyringService.getInstance();
+
+// Check daily whether the signing key is due for rotation
+cron.scheduleJob('0 3 * * *', async () => {
+    if (keyring.enabled) await keyring.rotateIfDue();
+});
+
+// Make sure there's a signing key before the first token is issued
+new Initializer("KEYRING", async () => {
+    if (!keyring.enabled) return true;
+
+    try {
+        await keyring.getSigningKey();
+        return true;
+    } catch (error) {
+        logger.error("Failed to load signing keys:", error);
+        return false;
+    }
+});
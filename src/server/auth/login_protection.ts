@@ -0,0 +1,151 @@
+import CONFIG from "../../util/config";
+import { getLogger } from "../../util/logger";
+import { stime } from "../../util/static";
+import { queueEmail } from "../../email/outbox";
+import loginAttemptModel, { LoginAttemptScope } from "../../mongoose/models/login_attempt";
+import { TooManyRequestsError } from "../errors";
+import { recordSecurityEvent } from "./security";
+
+const logger = getLogger("LOGIN.PROTECT");
+
+/*
+ * Brute-force protection keyed to the account being logged into (and the IP trying), unlike rate limiting which
+ * only looks at who is calling. Every failure past the first few adds a growing delay before the next attempt is
+ * even checked, and too many failures in a row lock logging in for a while.
+ */
+
+/** Failures allowed before attempts have to wait */
+const FREE_ATTEMPTS = 3;
+/** Delay after the first failure past the free attempts, doubles with every failure */
+const BASE_DELAY = 1000;
+const MAX_DELAY = stime.minute;
+
+// TYPES
+
+/** Who is trying to log in, the identifier is used for accounts that don't exist so they behave the same as ones that do */
+export type LoginSubject = {
+    identifier: string;
+    userId?: string;
+    ip?: string;
+};
+
+/** The account a lockout email goes to */
+type LockoutRecipient = {
+    userId: string;
+    primaryEmail?: string | null;
+    language?: string | null;
+    profile?: { firstName?: string | null } | null;
+};
+
+function getKeys(subject: LoginSubject): { key: string; scope: LoginAttemptScope; userId?: string }[] {
+    const keys: { key: string; scope: LoginAttemptScope; userId?: string }[] = [
+        { key: `account:${subject.userId || subject.identifier.toLowerCase()}`, scope: "account", userId: subject.userId },
+    ];
+    if (subject.ip) keys.push({ key: `ip:${subject.ip}`, scope: "ip" });
+    return keys;
+}
+
+// CHECKS
+
+/**
+ * Make sure the subject may attempt to log in right now, call this before checking the password
+ * @throws {TooManyRequestsError} If the account or IP is locked or has to wait after recent failures
+ */
+export async function assertLoginAllowed(subject: LoginSubject): Promise<void> {
+    const attempts = await loginAttemptModel.find({ key: { $in: getKeys(subject).map(({ key }) => key) } }).lean();
+    const now = Date.now();
+
+    let waitUntil = 0;
+    let locked = false;
+    for (const attempt of attempts) {
+        const lockedUntil = attempt.lockedUntil ? new Date(attempt.lockedUntil).getTime() : 0;
+        const nextAttemptAt = attempt.nextAttemptAt ? new Date(attempt.nextAttemptAt).getTime() : 0;
+
+        if (lockedUntil > now) locked = true;
+        waitUntil = Math.max(waitUntil, lockedUntil, nextAttemptAt);
+    }
+    if (waitUntil <= now) return;
+
+    // The message doesn't say whether the account or the IP is the problem
+    const retryAfter = Math.ceil((waitUntil - now) / 1000);
+    throw new TooManyRequestsError(retryAfter, locked
+        ? "Too many failed login attempts, logging in is temporarily locked. Try again later or reset your password."
+        : "Too many failed login attempts, please wait a moment before trying again.");
+}
+
+/**
+ * Count a failed login, delaying further attempts and locking the account or IP once it has failed too often
+ * @param recipient The account that was tried, notified by email when it gets locked
+ */
+export async function recordLoginFailure(subject: LoginSubject, recipient?: LockoutRecipient): Promise<void> {
+    const now = new Date();
+
+    for (const { key, scope, userId } of getKeys(subject)) {
+        const attempt = await loginAttemptModel.findOneAndUpdate(
+            { key },
+            { $inc: { failures: 1 }, $set: { scope, userId, lastFailureAt: now, expiresAt: new Date(now.getTime() + CONFIG.login.failureWindow) } },
+            { upsert: true, new: true },
+        ).lean();
+
+        const maxFailures = scope === "account" ? CONFIG.login.maxFailedAttempts : CONFIG.login.maxFailedAttemptsPerIp;
+        if (attempt.failures >= maxFailures) {
+            await lock(key, scope, now, recipient);
+        } else if (attempt.failures > FREE_ATTEMPTS) {
+            const delay = Math.min(BASE_DELAY * 2 ** (attempt.failures - FREE_ATTEMPTS - 1), MAX_DELAY);
+            await loginAttemptModel.updateOne({ key }, { $set: { nextAttemptAt: new Date(now.getTime() + delay) } });
+        }
+    }
+}
+
+async function lock(key: string, scope: LoginAttemptScope, now: Date, recipient?: LockoutRecipient): Promise<void> {
+    const lockedUntil = new Date(now.getTime() + CONFIG.login.lockoutDuration);
+
+    // Failures start over once the lock is lifted, only the first request to reach the limit locks (and notifies)
+    const result = await loginAttemptModel.updateOne(
+        { key, $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lte: now } }] },
+        { $set: { failures: 0, lockedUntil, expiresAt: new Date(lockedUntil.getTime() + CONFIG.login.failureWindow) }, $unset: { nextAttemptAt: 1 } },
+    );
+    if (result.modifiedCount === 0) return;
+
+    logger.warn(`Locked logins for ${key} until ${lockedUntil.toISOString()}`);
+    if (scope !== "account" || !recipient) return;
+
+    await recordSecurityEvent({ userId: recipient.userId, type: "accountLocked", details: { lockedUntil } });
+    if (recipient.primaryEmail) {
+        queueEmail("accountLocked", {
+            firstName: recipient.profile?.firstName || "there",
+            lockoutMinutes: Math.round(CONFIG.login.lockoutDuration / stime.minute),
+            resetLink: `${CONFIG.domain.frontendUri}/forgot-password`,
+        }, { to: recipient.primaryEmail, userId: recipient.userId, language: recipient.language })
+            .catch(error => logger.error(`Failed to queue lockout email to user ${recipient.userId}: ${(error as Error).message || "Unknown Error"}`));
+    }
+}
+
+/** Forget the failures of an account after a successful login, failures of the IP are kept */
+export async function recordLoginSuccess(subject: LoginSubject): Promise<void> {
+    await loginAttemptModel.deleteOne({ key: getKeys(subject)[0].key });
+}
+
+// ADMIN
+
+/** Get the failed logins and lockout state of accounts, by user ID */
+export async function getLockoutStates(userIds: string[]) {
+    const attempts = await loginAttemptModel.find({ userId: { $in: userIds }, scope: "account" }, { _id: 0, userId: 1, failures: 1, lastFailureAt: 1, lockedUntil: 1 }).lean();
+    const now = Date.now();
+
+    return new Map(attempts.map(attempt => [attempt.userId!, {
+        failedAttempts: attempt.failures,
+        lastFailureAt: attempt.lastFailureAt,
+        locked: !!attempt.lockedUntil && new Date(attempt.lockedUntil).getTime() > now,
+        lockedUntil: attempt.lockedUntil,
+    }]));
+}
+
+/**
+ * Lift the lockout of an account and forget its failed logins
+ * @returns Whether there was anything to unlock
+ */
+export async function unlockAccount(userId: string): Promise<boolean> {
+    const result = await loginAttemptModel.deleteMany({ userId, scope: "account" });
+    return result.deletedCount > 0;
+}
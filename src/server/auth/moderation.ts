@@ -1,9 +1,44 @@
 import cron from "node-schedule";
 import { userModel } from "../../mongoose";
 import { getLogger } from "../../util/logger";
+import { stime } from "../../util/static";
+import { BadRequestError, NotFoundError } from "../errors";
+import moderationActionModel, { ModerationActionType, SYSTEM_ISSUER } from "../../mongoose/models/moderation_action";
 
 const logger = getLogger("MOD.EXP");
 
+// TYPES
+
+/** Kinds of restrictions that can be placed on a user */
+export type RestrictionKind = "ban" | "mute" | "jobListingBan";
+
+type RestrictionOptions = {
+    /** ID of the staff member issuing the action */
+    issuedBy: string;
+    /** The reason for the action */
+    reason?: string;
+    /** Duration in hours, permanent if not provided */
+    duration?: number;
+    /** IDs of the reports that led to this action */
+    reportIds?: string[];
+}
+
+/** Where each restriction is stored on `UserInterface.moderation` and which actions apply and lift it */
+const RESTRICTIONS: Record<RestrictionKind, {
+    field: "ban" | "muted" | "jobListingBan";
+    active: string;
+    since: string;
+    reason: string;
+    until: string;
+    apply: ModerationActionType;
+    lift: ModerationActionType;
+    label: string;
+}> = {
+    ban: { field: "ban", active: "isBanned", since: "bannedAt", reason: "banReason", until: "unbannedAt", apply: "ban", lift: "unban", label: "banned" },
+    mute: { field: "muted", active: "isMuted", since: "mutedAt", reason: "muteReason", until: "unmutedAt", apply: "mute", lift: "unmute", label: "muted" },
+    jobListingBan: { field: "jobListingBan", active: "isBanned", since: "bannedAt", reason: "banReason", until: "unbannedAt", apply: "jobListingBan", lift: "jobListingUnban", label: "job listing banned" },
+};
+
 class ModerationService {
     private static instance: ModerationService;
 
@@ -39,44 +74,102 @@ class ModerationService {
         logger.debug("Moderation scheduled tasks started - running every 15 minutes");
     }
 
-    /** Process and unban users with expired bans */
-    async processExpiredBans(): Promise<void> {
-        try {
-            const now = new Date();
+    // ACTIONS
+
+    /** Place a restriction on a user and record it in their moderation history, returns the new restriction state */
+    async restrict(userId: string, kind: RestrictionKind, { issuedBy, reason, duration, reportIds = [] }: RestrictionOptions) {
+        const restriction = RESTRICTIONS[kind];
+        const now = new Date();
+        const expiresAt = duration ? new Date(now.getTime() + duration * stime.hour) : undefined;
+
+        const path = `moderation.${restriction.field}`;
+        const update: Record<string, Record<string, unknown>> = {
+            $set: {
+                [`${path}.${restriction.active}`]: true,
+                [`${path}.${restriction.since}`]: now,
+                [`${path}.${restriction.reason}`]: reason,
+            },
+        };
+
+        // Permanent restrictions have no end date
+        if (expiresAt) update.$set[`${path}.${restriction.until}`] = expiresAt;
+        else update.$unset = { [`${path}.${restriction.until}`]: 1 };
+
+        const user = await userModel.findOneAndUpdate({ userId }, update, { new: true }).lean();
+        if (!user) throw new NotFoundError("User not found");
+
+        await moderationActionModel.create({ userId, type: restriction.apply, issuedBy, reason, duration, expiresAt, reportIds });
+        logger.info(`User ${userId} ${restriction.label} by ${issuedBy}${duration ? ` for ${duration} hours` : " permanently"}${reason ? `: ${reason}` : ""}`);
+
+        return user.moderation?.[restriction.field];
+    }
+
+    /** Lift a restriction from a user and record it in their moderation history */
+    async lift(userId: string, kind: RestrictionKind, { issuedBy, reason, reportIds = [] }: Omit<RestrictionOptions, "duration">) {
+        const restriction = RESTRICTIONS[kind];
+
+        const user = await userModel.findOne({ userId }, { userId: 1, moderation: 1 }).lean();
+        if (!user) throw new NotFoundError("User not found");
+
+        const state = user.moderation?.[restriction.field] as Record<string, unknown> | undefined;
+        if (!state?.[restriction.active]) throw new BadRequestError(`User is not currently ${restriction.label}`);
+
+        await userModel.updateOne({ userId }, {
+            $set: {
+                [`moderation.${restriction.field}.${restriction.active}`]: false,
+                [`moderation.${restriction.field}.${restriction.until}`]: new Date(),
+            },
+        });
+
+        await moderationActionModel.create({ userId, type: restriction.lift, issuedBy, reason, reportIds });
+        logger.info(`User ${userId} no longer ${restriction.label}, lifted by ${issuedBy}`);
+    }
+
+    /** Get the full moderation timeline of a user, newest first */
+    async getHistory(userId: string) {
+        return await moderationActionModel.find({ userId }, { _id: 0, __v: 0 }).sort({ createdAt: -1 }).lean();
+    }
+
+    // EXPIRY
+
+    /** Lift all restrictions of the given kind that have expired, recorded as automatic actions by "system" */
+    private async processExpired(kind: RestrictionKind): Promise<number> {
+        const restriction = RESTRICTIONS[kind];
+        const now = new Date();
 
-            // Find users with expired bans
-            const expiredBans = await userModel.find({
-                'moderation.ban.isBanned': true,
-                'moderation.ban.unbannedAt': { $lte: now, $ne: null }
+        const expiredQuery = {
+            [`moderation.${restriction.field}.${restriction.active}`]: true,
+            [`moderation.${restriction.field}.${restriction.until}`]: { $lte: now, $ne: null },
+        };
+
+        const expiredUsers = await userModel.find(expiredQuery, { userId: 1, moderation: 1 }).lean();
+        if (expiredUsers.length === 0) {
+            logger.debug(`No expired ${kind} restrictions found`);
+            return 0;
+        }
+
+        let processed = 0;
+        for (const user of expiredUsers) {
+            // Only lift it if it's still expired, a staff member may have changed it in the meantime
+            const result = await userModel.updateOne({ userId: user.userId, ...expiredQuery }, {
+                $set: { [`moderation.${restriction.field}.${restriction.active}`]: false },
             });
+            if (result.modifiedCount === 0) continue;
 
-            if (expiredBans.length === 0) {
-                logger.debug("No expired bans found");
-                return;
-            }
+            const state = user.moderation?.[restriction.field] as Record<string, unknown> | undefined;
+            await moderationActionModel.create({ userId: user.userId, type: restriction.lift, issuedBy: SYSTEM_ISSUER, reason: "Expired" });
+            logger.info(`Auto-lifted ${kind} of user ${user.userId} - expired at ${state?.[restriction.until]}`);
+            processed++;
+        }
 
-            // Update all expired bans
-            const result = await userModel.updateMany(
-                {
-                    'moderation.ban.isBanned': true,
-                    'moderation.ban.unbannedAt': { $lte: now, $ne: null }
-                },
-                {
-                    $set: {
-                        'moderation.ban.isBanned': false
-                    }
-                }
-            );
-
-            if (result.modifiedCount > 0) {
-                logger.info(`Auto-unbanned ${result.modifiedCount} users with expired bans`);
-
-                // Log individual unbans for audit purposes
-                for (const user of expiredBans) {
-                    logger.info(`Auto-unbanned user ${user.userId} - ban expired at ${user.moderation?.ban?.unbannedAt}`);
-                }
-            }
+        return processed;
+    }
 
+    /** Process and unban users with expired bans */
+    async processExpiredBans(): Promise<void> {
+        try {
+            const processed = await this.processExpired("ban");
+            if (processed > 0) logger.info(`Auto-unbanned ${processed} users with expired bans`);
         } catch (error) {
             logger.error("Failed to process expired bans:", error);
         }
@@ -85,41 +178,8 @@ class ModerationService {
     /** Process and unmute users with expired mutes */
     async processExpiredMutes(): Promise<void> {
         try {
-            const now = new Date();
-
-            // Find users with expired mutes
-            const expiredMutes = await userModel.find({
-                'moderation.muted.isMuted': true,
-                'moderation.muted.unmutedAt': { $lte: now, $ne: null }
-            });
-
-            if (expiredMutes.length === 0) {
-                logger.debug("No expired mutes found");
-                return;
-            }
-
-            // Update all expired mutes
-            const result = await userModel.updateMany(
-                {
-                    'moderation.muted.isMuted': true,
-                    'moderation.muted.unmutedAt': { $lte: now, $ne: null }
-                },
-                {
-                    $set: {
-                        'moderation.muted.isMuted': false
-                    }
-                }
-            );
-
-            if (result.modifiedCount > 0) {
-                logger.info(`Auto-unmuted ${result.modifiedCount} users with expired mutes`);
-
-                // Log individual unmutes for audit purposes
-                for (const user of expiredMutes) {
-                    logger.info(`Auto-unmuted user ${user.userId} - mute expired at ${user.moderation?.muted?.unmutedAt}`);
-                }
-            }
-
+            const processed = await this.processExpired("mute");
+            if (processed > 0) logger.info(`Auto-unmuted ${processed} users with expired mutes`);
         } catch (error) {
             logger.error("Failed to process expired mutes:", error);
         }
@@ -128,41 +188,8 @@ class ModerationService {
     /** Process and unban users with expired job listing bans */
     async processExpiredJobListingBans(): Promise<void> {
         try {
-            const now = new Date();
-
-            // Find users with expired job listing bans
-            const expiredJobBans = await userModel.find({
-                'moderation.jobListingBan.isBanned': true,
-                'moderation.jobListingBan.unbannedAt': { $lte: now, $ne: null }
-            });
-
-            if (expiredJobBans.length === 0) {
-                logger.debug("No expired job listing bans found");
-                return;
-            }
-
-            // Update all expired job listing bans
-            const result = await userModel.updateMany(
-                {
-                    'moderation.jobListingBan.isBanned': true,
-                    'moderation.jobListingBan.unbannedAt': { $lte: now, $ne: null }
-                },
-                {
-                    $set: {
-                        'moderation.jobListingBan.isBanned': false
-                    }
-                }
-            );
-
-            if (result.modifiedCount > 0) {
-                logger.info(`Auto-unbanned ${result.modifiedCount} users from job listing with expired bans`);
-
-                // Log individual unbans for audit purposes
-                for (const user of expiredJobBans) {
-                    logger.info(`Auto-unbanned user ${user.userId} from job listing - ban expired at ${user.moderation?.jobListingBan?.unbannedAt}`);
-                }
-            }
-
+            const processed = await this.processExpired("jobListingBan");
+            if (processed > 0) logger.info(`Auto-unbanned ${processed} users from job listing with expired bans`);
         } catch (error) {
             logger.error("Failed to process expired job listing bans:", error);
         }
@@ -0,0 +1,108 @@
+import crypto from "crypto";
+import oneTimeTokenModel, { OneTimeTokenPurpose } from "../../mongoose/models/one_time_token";
+
+/** Hash a one-time token, only hashes are stored so a database leak doesn't leak usable tokens */
+export function hashOneTimeToken(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Issue a new single-use token for a user, any unused tokens with the same purpose are invalidated.
+ * @returns The token to send to the user, it can't be recovered afterwards
+ */
+export async function issueOneTimeToken(userId: string, purpose: OneTimeTokenPurpose, ttl: number): Promise<string> {
+    const token = crypto.randomBytes(32).toString("hex");
+
+    await oneTimeTokenModel.deleteMany({ userId, purpose, usedAt: null });
+    await oneTimeTokenModel.create({ userId, purpose, tokenHash: hashOneTimeToken(token), expiresAt: new Date(Date.now() + ttl) });
+
+    return token;
+}
+
+/**
+ * Use a single-use token, it can't be used again afterwards.
+ * @returns The ID of the user the token belongs to, or null if the token is invalid, expired or already used
+ */
+export async function consumeOneTimeToken(token: string, purpose: OneTimeTokenPurpose): Promise<string | null> {
+    const consumed = await oneTimeTokenModel.findOneAndUpdate(
+        { tokenHash: hashOneTimeToken(token), purpose, usedAt: null, expiresAt: { $gt: new Date() } },
+        { $set: { usedAt: new Date() } },
+    ).lean();
+
+    return consumed?.userId || null;
+}
+
+/** Invalidate all unused tokens of a user with the given purpose, e.g. once what they were for no longer applies */
+export async function revokeOneTimeTokens(userId: string, purpose: OneTimeTokenPurpose): Promise<void> {
+    await oneTimeTokenModel.deleteMany({ userId, purpose, usedAt: null });
+}
+
+/**
+ * Find a single-use token without using it, for tokens that are only used once a second factor checks out.
+ * @returns The token, or null if it's invalid, expired or already used
+ */
+export async function findOneTimeToken(token: string, purpose: OneTimeTokenPurpose) {
+    return await oneTimeTokenModel.findOne(
+        { tokenHash: hashOneTimeToken(token), purpose, usedAt: null, expiresAt: { $gt: new Date() } },
+    ).lean();
+}
+
+/**
+ * Count a failed attempt at using a token, the token is invalidated once the maximum is reached.
+ * @returns Whether the token can still be used
+ */
+export async function recordFailedOneTimeTokenAttempt(token: string, purpose: OneTimeTokenPurpose, maxAttempts: number): Promise<boolean> {
+    const updated = await oneTimeTokenModel.findOneAndUpdate(
+        { tokenHash: hashOneTimeToken(token), purpose, usedAt: null },
+        { $inc: { attempts: 1 } },
+        { new: true },
+    ).lean();
+    if (!updated) return false;
+
+    if (updated.attempts >= maxAttempts) {
+        await oneTimeTokenModel.updateOne({ _id: updated._id }, { $set: { usedAt: new Date() } });
+        return false;
+    }
+    return true;
+}
+
+// SHORT CODES
+
+/** Short codes can repeat between users, so they're hashed together with the user they're for */
+function hashOneTimeCode(userId: string, purpose: OneTimeTokenPurpose, code: string): string {
+    return hashOneTimeToken(`${userId}:${purpose}:${code}`);
+}
+
+/**
+ * Issue a short numeric code for a user (e.g. to send by SMS), any previous codes with the same purpose are invalidated.
+ * @param cooldown Minimum time since the previous code, so codes can't be requested in a loop
+ * @returns The code to send to the user, or null if the previous one was issued less than the cooldown ago
+ */
+export async function issueOneTimeCode(userId: string, purpose: OneTimeTokenPurpose, ttl: number, cooldown = 0): Promise<string | null> {
+    if (cooldown > 0) {
+        const recent = await oneTimeTokenModel.exists({ userId, purpose, createdAt: { $gt: new Date(Date.now() - cooldown) } });
+        if (recent) return null;
+    }
+
+    const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, "0");
+
+    await oneTimeTokenModel.deleteMany({ userId, purpose });
+    await oneTimeTokenModel.create({ userId, purpose, tokenHash: hashOneTimeCode(userId, purpose, code), expiresAt: new Date(Date.now() + ttl) });
+
+    return code;
+}
+
+/**
+ * Use a short code, wrong guesses count towards the maximum after which the code is invalidated.
+ * @returns Whether the code was correct
+ */
+export async function consumeOneTimeCode(userId: string, purpose: OneTimeTokenPurpose, code: string, maxAttempts: number): Promise<boolean> {
+    const consumed = await oneTimeTokenModel.findOneAndUpdate(
+        { userId, purpose, tokenHash: hashOneTimeCode(userId, purpose, code.trim()), usedAt: null, expiresAt: { $gt: new Date() }, attempts: { $lt: maxAttempts } },
+        { $set: { usedAt: new Date() } },
+    ).lean();
+    if (consumed) return true;
+
+    await oneTimeTokenModel.updateOne({ userId, purpose, usedAt: null }, { $inc: { attempts: 1 } });
+    return false;
+}
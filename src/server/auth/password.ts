@@ -0,0 +1,30 @@
+import bcrypt from "bcrypt";
+import { z } from "zod";
+import CONFIG from "../../util/config";
+
+const SALT_ROUNDS = 12;
+
+const policy = CONFIG.password;
+
+/**
+ * Schema new passwords have to match, shared by sign-up and password changes.
+ * Only covers the rules that don't depend on the user, see `assertPasswordPolicy` for the rest.
+ */
+export const passwordSchema = z.string()
+    .min(policy.minLength, `Password must be at least ${policy.minLength} characters long`)
+    .max(policy.maxLength, `Password must be at most ${policy.maxLength} characters long`)
+    .refine(password => Buffer.byteLength(password) <= 72, "Password is too long")
+    .refine(password => !policy.requireLowercase || /[a-z]/.test(password), "Password must contain a lowercase letter")
+    .refine(password => !policy.requireUppercase || /[A-Z]/.test(password), "Password must contain an uppercase letter")
+    .refine(password => !policy.requireNumber || /[0-9]/.test(password), "Password must contain a number")
+    .refine(password => !policy.requireSymbol || /[^a-zA-Z0-9]/.test(password), "Password must contain a symbol");
+
+/** Create a secure hash of a password */
+export async function hashPassword(password: string): Promise<string> {
+    return await bcrypt.hash(password, SALT_ROUNDS);
+}
+
+/** Check whether a password matches a hash */
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+    return await bcrypt.compare(password, hash);
+}
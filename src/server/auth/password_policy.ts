@@ -0,0 +1,195 @@
+import CONFIG from "../../util/config";
+import { ValidationError } from "../errors";
+import { COMMON_PASSWORDS } from "./common_passwords";
+
+// TYPES
+
+/** What is known about the user a password is for, passwords shouldn't contain any of it */
+export type PasswordContext = {
+    username?: string | null;
+    email?: string | null;
+    firstName?: string | null;
+    lastName?: string | null;
+};
+
+export type PasswordStrength = {
+    /** From 0 (guessed within seconds) to 4 (practically unguessable) */
+    score: 0 | 1 | 2 | 3 | 4;
+    /** Suggestions to make the password stronger */
+    feedback: string[];
+};
+
+// PATTERNS
+
+const KEYBOARD_ROWS = ["`1234567890-=", "qwertyuiop[]\\", "asdfghjkl;'", "zxcvbnm,./", "1qaz2wsx3edc4rfv5tgb6yhn7ujm8ik9ol0p", "qazwsxedcrfvtgbyhnujmikolp"];
+
+/** Minimum length a repeat, sequence or keyboard pattern needs to count */
+const MIN_PATTERN_LENGTH = 3;
+
+/** Whether a password is (a variant of) one of the most common passwords */
+export function isCommonPassword(password: string): boolean {
+    const lower = password.toLowerCase();
+    if (COMMON_PASSWORDS.has(lower)) return true;
+
+    // "password123!" is just as common as "password"
+    const base = lower.replace(/[\d\W_]+$/, "");
+    return base.length >= 4 && COMMON_PASSWORDS.has(base);
+}
+
+/** Parts of the user's details that are long enough to matter */
+function getPersonalTokens(context: PasswordContext): string[] {
+    const tokens = [context.username, context.email?.split("@")[0], context.firstName, context.lastName];
+    return tokens.filter((token): token is string => !!token && token.length >= 3).map(token => token.toLowerCase());
+}
+
+/** Size of the alphabet the password draws from, as an attacker brute forcing it would see it */
+function getCharsetSize(password: string): number {
+    let size = 0;
+    if (/[a-z]/.test(password)) size += 26;
+    if (/[A-Z]/.test(password)) size += 26;
+    if (/[0-9]/.test(password)) size += 10;
+    if (/[^a-zA-Z0-9]/.test(password)) size += 33;
+    return Math.max(size, 10);
+}
+
+/** Length of the run of the same character starting at the index */
+function repeatLength(password: string, index: number): number {
+    let end = index + 1;
+    while (end < password.length && password[end] === password[index]) end++;
+    return end - index;
+}
+
+/** Length of the sequence (e.g. "abcd", "4321") starting at the index */
+function sequenceLength(password: string, index: number): number {
+    const step = password.charCodeAt(index + 1) - password.charCodeAt(index);
+    if (Math.abs(step) !== 1) return 1;
+
+    let end = index + 1;
+    while (end < password.length && password.charCodeAt(end) - password.charCodeAt(end - 1) === step) end++;
+    return end - index;
+}
+
+/** Length of the keyboard pattern (e.g. "qwerty", "asdf") starting at the index */
+function keyboardLength(lower: string, index: number): number {
+    let longest = 0;
+    for (const row of KEYBOARD_ROWS) {
+        for (let length = lower.length - index; length > longest && length >= MIN_PATTERN_LENGTH; length--) {
+            const part = lower.slice(index, index + length);
+            if (row.includes(part) || row.includes([...part].reverse().join(""))) {
+                longest = length;
+                break;
+            }
+        }
+    }
+    return longest;
+}
+
+// STRENGTH
+
+/**
+ * Estimate how hard a password is to guess, in the spirit of zxcvbn: repeats, sequences, keyboard patterns,
+ * years, personal details and common passwords only count as much as guessing the pattern itself would take.
+ */
+export function estimatePasswordStrength(password: string, context: PasswordContext = {}): PasswordStrength {
+    const feedback = new Set<string>();
+
+    if (isCommonPassword(password)) {
+        return { score: 0, feedback: ["This is one of the most common passwords, choose something less predictable."] };
+    }
+
+    const lower = password.toLowerCase();
+    const charsetBits = Math.log2(getCharsetSize(password));
+    const personalTokens = getPersonalTokens(context);
+
+    let bits = 0;
+    let index = 0;
+    while (index < password.length) {
+        const personal = personalTokens.find(token => lower.startsWith(token, index));
+        if (personal) {
+            feedback.add("Avoid using your name, username or email.");
+            bits += 4;
+            index += personal.length;
+            continue;
+        }
+
+        const year = /^(19|20)\d\d/.exec(lower.slice(index));
+        if (year) {
+            feedback.add("Avoid years and dates that are associated with you.");
+            bits += Math.log2(200);
+            index += 4;
+            continue;
+        }
+
+        const repeat = repeatLength(password, index);
+        if (repeat >= MIN_PATTERN_LENGTH) {
+            feedback.add("Avoid repeated characters like \"aaa\".");
+            bits += charsetBits + Math.log2(repeat);
+            index += repeat;
+            continue;
+        }
+
+        const sequence = sequenceLength(password, index);
+        if (sequence >= MIN_PATTERN_LENGTH) {
+            feedback.add("Avoid sequences like \"abc\" or \"123\".");
+            bits += charsetBits + Math.log2(sequence) + 1;
+            index += sequence;
+            continue;
+        }
+
+        const keyboard = keyboardLength(lower, index);
+        if (keyboard >= MIN_PATTERN_LENGTH) {
+            feedback.add("Avoid keyboard patterns like \"qwerty\".");
+            bits += Math.log2(KEYBOARD_ROWS.join("").length) + Math.log2(keyboard) + 1;
+            index += keyboard;
+            continue;
+        }
+
+        bits += charsetBits;
+        index++;
+    }
+
+    // Roughly the guesses an offline attacker needs, on the same scale as zxcvbn (1e3, 1e6, 1e8, 1e10 guesses)
+    const score = bits < 10 ? 0 : bits < 20 ? 1 : bits < 27 ? 2 : bits < 34 ? 3 : 4;
+    if (score < 3) feedback.add("Add more words or characters, longer passwords are harder to guess.");
+
+    return { score, feedback: Array.from(feedback) };
+}
+
+// POLICY
+
+/**
+ * Check the rules of the password policy that depend on the user, on top of `passwordSchema`
+ * @param field Name of the field the password was sent in, errors are reported in the same format as validation errors
+ * @returns The reasons the password isn't allowed (empty if it is) and its strength
+ */
+export function checkPasswordPolicy(password: string, context: PasswordContext = {}, field = "password"): { errors: string[]; strength: PasswordStrength } {
+    const policy = CONFIG.password;
+    const strength = estimatePasswordStrength(password, context);
+    const errors: string[] = [];
+
+    if (policy.blockCommonPasswords && isCommonPassword(password)) {
+        errors.push(`${field}: This password is too common, it shows up in lists of breached passwords.`);
+    }
+
+    const lower = password.toLowerCase();
+    if (policy.disallowPersonalInfo && getPersonalTokens(context).some(token => lower.includes(token))) {
+        errors.push(`${field}: Password can't contain your name, username or email.`);
+    }
+
+    if (errors.length === 0 && strength.score < policy.minStrength) {
+        errors.push(`${field}: Password is too weak. ${strength.feedback.join(" ")}`.trim());
+    }
+
+    return { errors, strength };
+}
+
+/**
+ * Make sure a password follows the password policy
+ * @returns The strength of the password
+ * @throws {ValidationError} If the password isn't allowed
+ */
+export function assertPasswordPolicy(password: string, context: PasswordContext = {}, field = "password"): PasswordStrength {
+    const { errors, strength } = checkPasswordPolicy(password, context, field);
+    if (errors.length > 0) throw new ValidationError("Password doesn't meet the password requirements.", errors);
+    return strength;
+}
@@ -0,0 +1,115 @@
+import CONFIG from "../../util/config";
+import { userModel } from "../../mongoose";
+
+// PERMISSIONS
+
+/** Every permission that can be required by a route */
+export const PERMISSIONS = [
+    "dashboard.read",
+    "system.read",
+
+    "users.read",
+    "users.update",
+    "users.delete",
+
+    "listings.read",
+    "listings.update",
+    "listings.delete",
+
+    "messages.read",
+    "messages.delete",
+
+    "moderation.read",
+    "moderation.mute",
+    "moderation.listingBan",
+    "moderation.ban",
+
+    "reports.read",
+    "reports.manage",
+
+    "emails.read",
+    "emails.manage",
+
+    "roles.manage",
+    "audit.read",
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// ROLES
+
+/** Permissions granted by each role, a user has the combined permissions of all their roles */
+export const ROLES = {
+    /** Helps users out, can look things up but not change anything */
+    support: [
+        "dashboard.read",
+        "users.read",
+        "listings.read",
+        "messages.read",
+        "moderation.read",
+        "reports.read",
+        "emails.read",
+    ],
+    /** Keeps the platform clean, can act on reports and mute or ban users but not delete anything of substance */
+    moderator: [
+        "dashboard.read",
+        "users.read",
+        "listings.read",
+        "listings.update",
+        "messages.read",
+        "messages.delete",
+        "moderation.read",
+        "moderation.mute",
+        "moderation.listingBan",
+        "moderation.ban",
+        "reports.read",
+        "reports.manage",
+    ],
+    /** Full access */
+    admin: [...PERMISSIONS],
+} satisfies Record<string, readonly Permission[]>;
+
+export type Role = keyof typeof ROLES;
+export const ROLE_NAMES = Object.keys(ROLES) as Role[];
+
+// HELPERS
+
+/** Whether the user is a super-admin configured through `ADMIN_USER_IDS`, they always have every permission */
+export function isSuperAdmin(userId: string): boolean {
+    return CONFIG.moderation.adminUserIds.includes(userId);
+}
+
+/** Get all permissions of a user based on their roles */
+export function getPermissions(user: { userId: string; roles?: string[] | null }): Permission[] {
+    if (isSuperAdmin(user.userId)) return [...PERMISSIONS];
+
+    const permissions = new Set<Permission>();
+    for (const role of user.roles || []) {
+        for (const permission of ROLES[role as Role] || []) permissions.add(permission);
+    }
+    return Array.from(permissions);
+}
+
+/** Check whether a user has a permission */
+export function hasPermission(user: { userId: string; roles?: string[] | null }, permission: Permission): boolean {
+    return getPermissions(user).includes(permission);
+}
+
+/** Whether a user is an admin, either through the admin role or as super-admin */
+export function isAdmin(user: { userId: string; roles?: string[] | null }): boolean {
+    return isSuperAdmin(user.userId) || !!user.roles?.includes("admin");
+}
+
+/** Get the roles of a user from the database, roles aren't stored in tokens so changes apply immediately */
+export async function fetchRoles(userId: string): Promise<string[] | null> {
+    const user = await userModel.findOne({ userId }, { roles: 1 }).lean();
+    return user ? user.roles || [] : null;
+}
+
+/** Check whether the user with the given ID has a permission, for checks that depend on the request (e.g. the action taken) */
+export async function hasPermissionById(userId: string, permission: Permission): Promise<boolean> {
+    if (isSuperAdmin(userId)) return true;
+
+    const roles = await fetchRoles(userId);
+    return !!roles && hasPermission({ userId, roles }, permission);
+}
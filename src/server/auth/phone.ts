@@ -0,0 +1,112 @@
+import { z } from "zod";
+import { userModel } from "../../mongoose";
+import CONFIG from "../../util/config";
+import { getLogger } from "../../util/logger";
+import { stime } from "../../util/static";
+import { sendSms } from "../../util/sms";
+import { maskPhoneNumber, normalizePhoneNumber } from "../../util/phone";
+import { OneTimeTokenPurpose } from "../../mongoose/models/one_time_token";
+import { ConflictError, isDuplicateKeyError } from "../errors";
+import { consumeOneTimeCode, issueOneTimeCode } from "./one_time_token";
+import { Initializer } from "../../bootloaders";
+
+const logger = getLogger("PHONE");
+
+/** Schema for phone numbers in any common format, turned into E.164 */
+export const phoneNumberSchema = z.string()
+    .max(30, "Phone number is too long")
+    .transform((input, ctx) => {
+        const phoneNumber = normalizePhoneNumber(input);
+        if (!phoneNumber) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid phone number, include the country code (e.g. +27821234567)" });
+            return z.NEVER;
+        }
+        return phoneNumber;
+    });
+
+type PhoneCodePurpose = Extract<OneTimeTokenPurpose, "phoneVerification" | "phoneLogin">;
+
+const CODE_MESSAGES: Record<PhoneCodePurpose, (code: string, minutes: number) => string> = {
+    phoneVerification: (code, minutes) => `Your GigTree verification code is ${code}. It expires in ${minutes} minutes.`,
+    phoneLogin: (code, minutes) => `Your GigTree login code is ${code}. It expires in ${minutes} minutes. Never share this code with anyone.`,
+};
+
+/**
+ * Text a code to a user's phone number
+ * @returns Whether a code was sent, no code is sent if the previous one was sent less than `CONFIG.sms.resendCooldown` ago
+ * @throws {Error} If the SMS gateway fails
+ */
+export async function sendPhoneCode(userId: string, phoneNumber: string, purpose: PhoneCodePurpose): Promise<boolean> {
+    const code = await issueOneTimeCode(userId, purpose, CONFIG.sms.codeExpiry, CONFIG.sms.resendCooldown);
+    if (!code) {
+        logger.debug(`Not sending ${purpose} code to user ${userId}, the previous one was sent too recently`);
+        return false;
+    }
+
+    await sendSms(phoneNumber, CODE_MESSAGES[purpose](code, Math.round(CONFIG.sms.codeExpiry / stime.minute)));
+    logger.info(`Sent ${purpose} code to user ${userId} (${maskPhoneNumber(phoneNumber)})`);
+    return true;
+}
+
+/**
+ * Check a code sent to a user's phone number, it can only be used once
+ * @returns Whether the code was correct
+ */
+export async function verifyPhoneCode(userId: string, code: string, purpose: PhoneCodePurpose): Promise<boolean> {
+    return await consumeOneTimeCode(userId, purpose, code, CONFIG.sms.maxCodeAttempts);
+}
+
+/**
+ * Make sure a phone number can be given to a user. Several accounts can hold the same unverified number,
+ * it only belongs to one of them once they prove it with a code, so nobody can take a number away from someone else.
+ * @throws {ConflictError} If another account has verified the phone number
+ */
+export async function assertPhoneNumberAvailable(phoneNumber: string, userId?: string): Promise<void> {
+    const holder = await userModel.exists({ phoneNumber, phoneVerified: true, userId: { $ne: userId } });
+    if (holder) throw new ConflictError("An account with this phone number already exists.", { fields: ["phoneNumber"] }, "Phone Number Already Exists");
+}
+
+/**
+ * Verify the phone number of a user with the code sent to it, the number becomes theirs
+ * @returns Whether the code was correct
+ * @throws {ConflictError} If another account verified the number first
+ */
+export async function verifyPhoneNumber(userId: string, phoneNumber: string, code: string): Promise<boolean> {
+    if (!await verifyPhoneCode(userId, code, "phoneVerification")) return false;
+    await assertPhoneNumberAvailable(phoneNumber, userId);
+
+    try {
+        const result = await userModel.updateOne({ userId, phoneNumber }, { $set: { phoneVerified: true } });
+        if (result.matchedCount === 0) return false;
+    } catch (error) {
+        // Someone else verified the number in the meantime
+        if (!isDuplicateKeyError(error)) throw error;
+        throw new ConflictError("An account with this phone number already exists.", { fields: ["phoneNumber"] }, "Phone Number Already Exists");
+    }
+
+    logger.info(`User ${userId} verified their phone number ${maskPhoneNumber(phoneNumber)}`);
+    return true;
+}
+
+// LEGACY
+
+/** Phone numbers used to be unique even when unverified, that index would stop accounts from sharing unverified numbers */
+async function dropLegacyPhoneNumberIndex(): Promise<void> {
+    try {
+        await userModel.collection.dropIndex("phoneNumber_1");
+        await userModel.createIndexes();
+        logger.info("Replaced the legacy unique index on unverified phone numbers");
+    } catch (error) {
+        const codeName = (error as { codeName?: string }).codeName;
+        if (codeName !== "IndexNotFound" && codeName !== "NamespaceNotFound") throw error;
+    }
+}
+
+new Initializer("PHONE", async () => {
+    try {
+        await dropLegacyPhoneNumberIndex();
+    } catch (error) {
+        logger.error("Failed to drop the legacy phone number index:", error);
+    }
+    return true;
+});
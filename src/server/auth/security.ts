@@ -0,0 +1,15 @@
+import { getLogger } from "../../util/logger";
+import securityEventModel, { SecurityEventInterface } from "../../mongoose/models/security_event";
+
+const logger = getLogger("SECURITY");
+
+/** Record a security event, failing to do so is logged but never throws */
+export async function recordSecurityEvent(event: Omit<SecurityEventInterface, "createdAt">): Promise<void> {
+    logger.warn(`Security event ${event.type} for user ${event.userId}${event.sessionId ? ` (session ${event.sessionId})` : ""} from IP: ${event.ip || "unknown"}`);
+
+    try {
+        await securityEventModel.create(event);
+    } catch (error) {
+        logger.error(`Failed to record security event ${event.type} for user ${event.userId}: ${(error as Error)?.message || error}`);
+    }
+}
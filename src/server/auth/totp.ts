@@ -0,0 +1,94 @@
+import crypto from "crypto";
+
+// Time-based one-time passwords (RFC 6238) as used by authenticator apps, HMAC-SHA1 with 6 digits every 30 seconds
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const PERIOD = 30;
+const DIGITS = 6;
+
+/** Encode bytes as base32 (RFC 4648, no padding), the format authenticator apps expect secrets in */
+export function base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = "";
+
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+
+    return output;
+}
+
+/** Decode a base32 string, ignoring padding, spaces and case */
+export function base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/[\s=]/g, "");
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) throw new Error(`Invalid base32 character: ${char}`);
+
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+
+    return Buffer.from(bytes);
+}
+
+/** Generate a new random secret (160 bits, as recommended by RFC 4226), base32 encoded */
+export function generateTotpSecret(): string {
+    return base32Encode(crypto.randomBytes(20));
+}
+
+/** Get the time step a timestamp falls in */
+export function getTotpCounter(timestamp: number = Date.now()): number {
+    return Math.floor(timestamp / 1000 / PERIOD);
+}
+
+/** Generate the code for a secret at the given time step (HOTP, RFC 4226) */
+export function generateTotp(secret: string, counter: number = getTotpCounter()): string {
+    const counterBuffer = Buffer.alloc(8);
+    counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+    const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counterBuffer).digest();
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+    return (binary % 10 ** DIGITS).toString().padStart(DIGITS, "0");
+}
+
+/**
+ * Check a code against a secret, accepting codes from adjacent time steps to allow for clock drift
+ * @param window Amount of time steps before and after the current one to accept
+ * @returns The time step the code belongs to, or null if it doesn't match
+ */
+export function verifyTotp(secret: string, code: string, window = 1, timestamp: number = Date.now()): number | null {
+    if (!/^\d{6}$/.test(code)) return null;
+
+    const current = getTotpCounter(timestamp);
+    for (let counter = current - window; counter <= current + window; counter++) {
+        const expected = generateTotp(secret, counter);
+        if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) return counter;
+    }
+
+    return null;
+}
+
+/** Build the `otpauth://` URI authenticator apps read from a QR code */
+export function getOtpauthUri(secret: string, accountName: string, issuer: string): string {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({ secret, issuer, algorithm: "SHA1", digits: String(DIGITS), period: String(PERIOD) });
+    return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -0,0 +1,195 @@
+import crypto from "crypto";
+import CONFIG from "../../util/config";
+import { getLogger } from "../../util/logger";
+import twoFactorModel from "../../mongoose/models/two_factor";
+import { decryptSecret, encryptSecret } from "./encryption";
+import { generateTotpSecret, getOtpauthUri, verifyTotp } from "./totp";
+import { consumeOneTimeToken, findOneTimeToken, issueOneTimeToken, recordFailedOneTimeTokenAttempt } from "./one_time_token";
+import { recordSecurityEvent } from "./security";
+import { assertLoginAllowed, LoginSubject, recordLoginFailure, recordLoginSuccess } from "./login_protection";
+import { userModel } from "../../mongoose";
+import { SessionMetadata } from "./jwt";
+import { UnauthorizedError } from "../errors";
+
+const logger = getLogger("2FA");
+
+/** Amount of recovery codes generated at once */
+const RECOVERY_CODE_COUNT = 10;
+/** Wrong codes allowed per login challenge before the user has to enter their password again, they also count toward the account lockout */
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+export type TwoFactorMethod = "totp" | "recoveryCode";
+
+// RECOVERY CODES
+
+/** Normalise a recovery code so dashes, spaces and casing don't matter when it's typed in */
+function normaliseRecoveryCode(code: string): string {
+    return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function hashRecoveryCode(code: string): string {
+    return crypto.createHash("sha256").update(normaliseRecoveryCode(code)).digest("hex");
+}
+
+/** Generate a new set of recovery codes (e.g. `k3m9x-q2w7p`) along with their hashes */
+function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+    const alphabet = "abcdefghjkmnpqrstuvwxyz23456789"; // No characters that are easily confused
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const characters = Array.from({ length: 10 }, () => alphabet[crypto.randomInt(alphabet.length)]).join("");
+        return `${characters.slice(0, 5)}-${characters.slice(5)}`;
+    });
+    return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+// STATE
+
+/** Whether a user has two-factor authentication enabled */
+export async function isTwoFactorEnabled(userId: string): Promise<boolean> {
+    return !!await twoFactorModel.exists({ userId, enabled: true });
+}
+
+/** Get the two-factor state of a user, without any secrets */
+export async function getTwoFactorStatus(userId: string) {
+    const twoFactor = await twoFactorModel.findOne({ userId }, { enabled: 1, enabledAt: 1, recoveryCodes: 1 }).lean();
+    return {
+        enabled: !!twoFactor?.enabled,
+        enabledAt: twoFactor?.enabled ? twoFactor.enabledAt : undefined,
+        recoveryCodesRemaining: twoFactor?.enabled ? twoFactor.recoveryCodes.length : 0,
+    };
+}
+
+// ENROLMENT
+
+/**
+ * Start setting up two-factor authentication with a new secret, replacing any earlier setup that wasn't confirmed
+ * @returns The secret and an `otpauth://` URI to show as QR code, or null if two-factor authentication is already enabled
+ */
+export async function beginTwoFactorSetup(userId: string, accountName: string): Promise<{ secret: string; otpauthUri: string } | null> {
+    const secret = generateTotpSecret();
+
+    const result = await twoFactorModel.updateOne(
+        { userId, enabled: { $ne: true } },
+        { $set: { secret: encryptSecret(secret), recoveryCodes: [] }, $unset: { lastUsedCounter: 1 } },
+        { upsert: true },
+    ).catch(error => {
+        // The upsert runs into the unique index when two-factor authentication is already enabled
+        if (error?.code === 11000) return null;
+        throw error;
+    });
+    if (!result) return null;
+
+    return { secret, otpauthUri: getOtpauthUri(secret, accountName, CONFIG.twoFactor.issuer) };
+}
+
+/**
+ * Confirm the setup with a code from the authenticator app, enabling two-factor authentication
+ * @returns The recovery codes to show to the user once, or null if the code is invalid or there's no setup to confirm
+ */
+export async function confirmTwoFactorSetup(userId: string, code: string, metadata: SessionMetadata = {}): Promise<string[] | null> {
+    const twoFactor = await twoFactorModel.findOne({ userId, enabled: false }).lean();
+    if (!twoFactor) return null;
+
+    const counter = verifyTotp(decryptSecret(twoFactor.secret), code);
+    if (counter === null) return null;
+
+    const { codes, hashes } = generateRecoveryCodes();
+    const result = await twoFactorModel.updateOne(
+        { userId, enabled: false, secret: twoFactor.secret },
+        { $set: { enabled: true, enabledAt: new Date(), lastUsedCounter: counter, recoveryCodes: hashes } },
+    );
+    if (result.modifiedCount === 0) return null;
+
+    await recordSecurityEvent({ userId, type: "twoFactorEnabled", ip: metadata.ip, userAgent: metadata.userAgent });
+    return codes;
+}
+
+/** Turn off two-factor authentication, removing the secret and recovery codes */
+export async function disableTwoFactor(userId: string, metadata: SessionMetadata = {}): Promise<void> {
+    await twoFactorModel.deleteOne({ userId });
+    await recordSecurityEvent({ userId, type: "twoFactorDisabled", ip: metadata.ip, userAgent: metadata.userAgent });
+}
+
+/**
+ * Replace the recovery codes of a user with a new set
+ * @returns The new recovery codes, or null if two-factor authentication isn't enabled
+ */
+export async function regenerateRecoveryCodes(userId: string): Promise<string[] | null> {
+    const { codes, hashes } = generateRecoveryCodes();
+    const result = await twoFactorModel.updateOne({ userId, enabled: true }, { $set: { recoveryCodes: hashes } });
+    return result.matchedCount > 0 ? codes : null;
+}
+
+// VERIFICATION
+
+/**
+ * Check a code from the authenticator app or a recovery code, either can only be used once
+ * @returns How the user verified, or null if the code is invalid
+ */
+export async function verifyTwoFactorCode(userId: string, code: string, metadata: SessionMetadata = {}): Promise<TwoFactorMethod | null> {
+    const twoFactor = await twoFactorModel.findOne({ userId, enabled: true }).lean();
+    if (!twoFactor) return null;
+
+    const trimmed = code.replace(/\s/g, "");
+    if (/^\d{6}$/.test(trimmed)) {
+        const counter = verifyTotp(decryptSecret(twoFactor.secret), trimmed);
+        if (counter === null) return null;
+
+        // Claim the time step, so an intercepted code can't be replayed while it's still valid
+        const result = await twoFactorModel.updateOne(
+            { userId, enabled: true, $or: [{ lastUsedCounter: { $lt: counter } }, { lastUsedCounter: { $exists: false } }] },
+            { $set: { lastUsedCounter: counter } },
+        );
+        return result.modifiedCount > 0 ? "totp" : null;
+    }
+
+    const result = await twoFactorModel.updateOne(
+        { userId, enabled: true, recoveryCodes: hashRecoveryCode(trimmed) },
+        { $pull: { recoveryCodes: hashRecoveryCode(trimmed) } },
+    );
+    if (result.modifiedCount === 0) return null;
+
+    await recordSecurityEvent({
+        userId, type: "recoveryCodeUsed", ip: metadata.ip, userAgent: metadata.userAgent,
+        details: { recoveryCodesRemaining: twoFactor.recoveryCodes.length - 1 },
+    });
+    return "recoveryCode";
+}
+
+// LOGIN CHALLENGE
+
+/** Start the second login step, the returned challenge token stands in for the password while the user enters their code */
+export async function issueTwoFactorChallenge(userId: string): Promise<string> {
+    return await issueOneTimeToken(userId, "twoFactorLogin", CONFIG.twoFactor.challengeExpiry);
+}
+
+/**
+ * Complete the second login step, wrong codes count as failed logins so a new challenge doesn't mean new guesses
+ * @returns The ID of the user that logged in and how they verified
+ * @throws {UnauthorizedError} If the challenge is invalid or expired, or the code is wrong
+ * @throws {TooManyRequestsError} If the account or IP is locked after too many failed logins
+ */
+export async function completeTwoFactorChallenge(challengeToken: string, code: string, metadata: SessionMetadata = {}): Promise<{ userId: string; method: TwoFactorMethod }> {
+    const challenge = await findOneTimeToken(challengeToken, "twoFactorLogin");
+    if (!challenge) throw new UnauthorizedError("This login attempt has expired, please log in again.", {}, "Challenge Expired");
+
+    const subject: LoginSubject = { identifier: challenge.userId, userId: challenge.userId, ip: metadata.ip };
+    await assertLoginAllowed(subject);
+
+    const method = await verifyTwoFactorCode(challenge.userId, code, metadata);
+    if (!method) {
+        const user = await userModel.findOne({ userId: challenge.userId }, { userId: 1, primaryEmail: 1, language: 1, profile: 1 }).lean();
+        await recordLoginFailure(subject, user || undefined);
+
+        const canRetry = await recordFailedOneTimeTokenAttempt(challengeToken, "twoFactorLogin", MAX_CHALLENGE_ATTEMPTS);
+        logger.debug(`Invalid two-factor code for user ${challenge.userId}${canRetry ? "" : ", challenge invalidated"}`);
+        throw new UnauthorizedError(canRetry ? "Invalid two-factor code." : "Too many invalid codes, please log in again.", { canRetry }, "Invalid Code");
+    }
+
+    const userId = await consumeOneTimeToken(challengeToken, "twoFactorLogin");
+    if (!userId) throw new UnauthorizedError("This login attempt has expired, please log in again.", {}, "Challenge Expired");
+
+    // Failures are only forgotten once both factors passed, the password alone doesn't reset them
+    await recordLoginSuccess(subject);
+
+    return { userId, method };
+}
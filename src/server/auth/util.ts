@@ -32,7 +32,29 @@ export async function validateJWT(accessToken: string, refreshToken?: string): P
     return accessTokenValidationPayload;
 }
 
+/** Get the token of an `Authorization: Bearer <token>` header, undefined if the header is missing and null if it's malformed */
+export function getBearerToken(req: Request): string | null | undefined {
+    const authorization = req.get("authorization");
+    if (!authorization) return undefined;
+
+    const [scheme, token] = authorization.trim().split(/\s+/);
+    return scheme.toLowerCase() === "bearer" && token ? token : null;
+}
+
 export async function validateJWTRequest(req: Request, res: Response): Promise<boolean> {
+    // Bearer tokens are used by clients without cookies, they refresh through the token endpoint themselves
+    const bearerToken = getBearerToken(req);
+    if (bearerToken !== undefined) {
+        const payload = bearerToken ? await jwtService.verifyAccessToken(bearerToken) : null;
+        if (!payload) {
+            logger.debug(`Bearer authentication failed from IP: ${req.ip}`);
+            return false;
+        }
+
+        req.user = payload;
+        return true;
+    }
+
     if (!req.cookies) {
         logger.warn(`No cookies passed for JWT validation from IP: ${req.ip}`);
         return false;
@@ -0,0 +1,194 @@
+import mongoose, { ClientSession, Model } from "mongoose";
+import { getLogger } from "../util/logger";
+import { RefreshToken, userModel } from "../mongoose";
+import listingModel from "../mongoose/models/listing";
+import channelModel from "../mongoose/models/channel";
+import messageModel from "../mongoose/models/message";
+import apiKeyModel from "../mongoose/models/api_key";
+import twoFactorModel from "../mongoose/models/two_factor";
+import oneTimeTokenModel from "../mongoose/models/one_time_token";
+import loginAttemptModel from "../mongoose/models/login_attempt";
+import securityEventModel from "../mongoose/models/security_event";
+import emailOutboxModel from "../mongoose/models/email_outbox";
+import { closeChannelSubscriptions, closeUserSubscriptions } from "./routes/messanger/subscribeChannel";
+
+// INIT
+const logger = getLogger("DELETION");
+
+/*
+ * Deleting an entity also cleans up everything that points to it, following the cascade rules below.
+ * The database changes run in a transaction when MongoDB supports it (replica sets and sharded clusters), so a failure
+ * halfway leaves nothing behind. Side effects outside the database, like closing SSE connections, only happen once it's done.
+ * Moderation actions, reports and audit logs are never touched, they're records of what staff did.
+ */
+
+/** Sender ID put on the messages of deleted users, so conversations stay readable for the other participants */
+export const DELETED_USER_ID = "deleted_user";
+
+// TYPES
+export type DeletableEntity = "user" | "listing" | "message" | "channel";
+
+/** What a deletion touched, counted per collection */
+export type DeletionReport = {
+    entity: DeletableEntity;
+    id: string;
+    /** Documents removed */
+    deleted: Record<string, number>;
+    /** Documents kept but changed, e.g. messages whose sender was anonymised */
+    updated: Record<string, number>;
+    /** Live SSE connections that were closed */
+    closedConnections: number;
+    /** Whether the database changes ran in a single transaction */
+    transactional: boolean;
+};
+
+type DeletionContext = {
+    session?: ClientSession;
+    report: DeletionReport;
+    /** Side effects outside the database, run once the deletion went through */
+    afterCommit: (() => void)[];
+};
+
+/** Cleans up what points to the entity with the given ID, runs before the entity itself is deleted */
+type CascadeRule = (id: string, context: DeletionContext) => Promise<void>;
+
+// HELPERS
+
+function count(counts: Record<string, number>, model: Model<any>, amount: number) {
+    if (amount === 0) return;
+    const collection = model.collection.collectionName;
+    counts[collection] = (counts[collection] || 0) + amount;
+}
+
+async function deleteAll(model: Model<any>, filter: Record<string, unknown>, context: DeletionContext) {
+    const result = await model.deleteMany(filter, { session: context.session });
+    count(context.report.deleted, model, result.deletedCount);
+}
+
+// CASCADE RULES
+
+/** Log the user out everywhere and remove everything tied to their credentials */
+const revokeUserTokens: CascadeRule = async (userId, context) => {
+    for (const model of [RefreshToken, apiKeyModel, twoFactorModel, oneTimeTokenModel, loginAttemptModel, securityEventModel, emailOutboxModel] as Model<any>[]) {
+        await deleteAll(model, { userId }, context);
+    }
+};
+
+const removeUserListings: CascadeRule = async (userId, context) => {
+    await deleteAll(listingModel, { ownerUserId: userId }, context);
+};
+
+const anonymiseUserMessages: CascadeRule = async (userId, context) => {
+    const result = await messageModel.updateMany({ senderUserId: userId }, { $set: { senderUserId: DELETED_USER_ID } }, { session: context.session });
+    count(context.report.updated, messageModel, result.modifiedCount);
+};
+
+/** Take the user out of their channels, channels with nobody left to talk to are deleted */
+const leaveUserChannels: CascadeRule = async (userId, context) => {
+    const channels = await channelModel.find({ ownerUserIds: userId }, { channelId: 1, ownerUserIds: 1 }, { session: context.session }).lean();
+
+    for (const channel of channels) {
+        if (channel.ownerUserIds.filter(ownerUserId => ownerUserId !== userId).length < 2) {
+            await cascade("channel", channel.channelId, context);
+            continue;
+        }
+
+        await channelModel.updateOne({ channelId: channel.channelId }, { $pull: { ownerUserIds: userId } }, { session: context.session });
+        count(context.report.updated, channelModel, 1);
+    }
+};
+
+const closeUserConnections: CascadeRule = async (userId, context) => {
+    context.afterCommit.push(() => context.report.closedConnections += closeUserSubscriptions(userId));
+};
+
+const removeChannelMessages: CascadeRule = async (channelId, context) => {
+    await deleteAll(messageModel, { channelId }, context);
+};
+
+const closeChannelConnections: CascadeRule = async (channelId, context) => {
+    context.afterCommit.push(() => context.report.closedConnections += closeChannelSubscriptions(channelId));
+};
+
+/** How each entity is found and what is cleaned up before it's deleted, in order */
+const CASCADE_RULES: Record<DeletableEntity, { model: Model<any>; idField: string; rules: CascadeRule[] }> = {
+    user: { model: userModel, idField: "userId", rules: [revokeUserTokens, removeUserListings, leaveUserChannels, anonymiseUserMessages, closeUserConnections] },
+    listing: { model: listingModel, idField: "listingId", rules: [] },
+    message: { model: messageModel, idField: "messageId", rules: [] },
+    channel: { model: channelModel, idField: "channelId", rules: [removeChannelMessages, closeChannelConnections] },
+};
+
+/**
+ * Run the cascade rules of an entity and delete it
+ * @returns Whether the entity existed
+ */
+async function cascade(entity: DeletableEntity, id: string, context: DeletionContext): Promise<boolean> {
+    const { model, idField, rules } = CASCADE_RULES[entity];
+    if (!await model.exists({ [idField]: id }).session(context.session ?? null)) return false;
+
+    for (const rule of rules) await rule(id, context);
+    await deleteAll(model, { [idField]: id }, context);
+    return true;
+}
+
+// TRANSACTIONS
+
+let transactionsSupported: boolean | undefined;
+
+/** Transactions need a replica set or a sharded cluster, a standalone server (like the in-memory one) doesn't support them */
+async function supportsTransactions(): Promise<boolean> {
+    if (transactionsSupported !== undefined) return transactionsSupported;
+    if (!mongoose.connection.db) return false;
+
+    const hello = await mongoose.connection.db.admin().command({ hello: 1 });
+    transactionsSupported = Boolean(hello.setName) || hello.msg === "isdbgrid";
+    if (!transactionsSupported) logger.warn("MongoDB doesn't support transactions, deletions will run without one");
+    return transactionsSupported;
+}
+
+// DELETION
+
+/**
+ * Delete an entity together with everything that depends on it
+ * @returns What was touched, or null if the entity doesn't exist
+ */
+export async function deleteEntity(entity: DeletableEntity, id: string): Promise<DeletionReport | null> {
+    const transactional = await supportsTransactions();
+    const createContext = (session?: ClientSession): DeletionContext => ({
+        session,
+        report: { entity, id, deleted: {}, updated: {}, closedConnections: 0, transactional },
+        afterCommit: [],
+    });
+
+    let context = createContext();
+    let found = false;
+
+    if (transactional) {
+        const session = await mongoose.startSession();
+        try {
+            // The callback is retried on transient errors, so every attempt starts with a fresh report
+            await session.withTransaction(async () => {
+                context = createContext(session);
+                found = await cascade(entity, id, context);
+            });
+        } finally {
+            await session.endSession();
+        }
+    } else {
+        found = await cascade(entity, id, context);
+    }
+
+    if (!found) return null;
+
+    for (const effect of context.afterCommit) {
+        try {
+            effect();
+        } catch (error) {
+            logger.error(`Failed to clean up after deleting ${entity} ${id}:`, error);
+        }
+    }
+
+    const { deleted, updated, closedConnections } = context.report;
+    logger.info(`Deleted ${entity} ${id}, removed ${JSON.stringify(deleted)}, updated ${JSON.stringify(updated)}, closed ${closedConnections} connections`);
+    return context.report;
+}
@@ -0,0 +1,140 @@
+import mongoose from "mongoose";
+import { ZodError } from "zod";
+
+// TYPES
+
+/** Machine-readable error codes, returned in the `code` field of every error response */
+export const API_ERROR_CODES = [
+    "BAD_REQUEST",
+    "VALIDATION_FAILED",
+    "UNAUTHORIZED",
+    "FORBIDDEN",
+    "NOT_FOUND",
+    "CONFLICT",
+    "RATE_LIMITED",
+    "INTERNAL_ERROR",
+] as const;
+
+export type ApiErrorCode = typeof API_ERROR_CODES[number];
+
+/**
+ * The error envelope every route responds with when something goes wrong.
+ * Extra details (e.g. `validationErrors`) are merged into the top level of the envelope.
+ */
+export type ApiErrorResponse = {
+    success: false;
+    /** Human-readable error title, e.g. "Not Found" */
+    error: string;
+    /** Machine-readable error code */
+    code: ApiErrorCode;
+    /** Human-readable description of what went wrong */
+    message: string;
+    [detail: string]: unknown;
+}
+
+// CLASSES
+
+/** Base class of all errors that can be thrown from a route handler and are sent back to the client */
+export class ApiError extends Error {
+    constructor(
+        /** HTTP status code to respond with */
+        public status: number,
+        /** Machine-readable error code */
+        public code: ApiErrorCode,
+        /** Human-readable error title */
+        public title: string,
+        message: string,
+        /** Extra details merged into the error envelope */
+        public details: Record<string, unknown> = {},
+    ) {
+        super(message);
+        this.name = new.target.name;
+    }
+
+    toResponse(): ApiErrorResponse {
+        return { success: false, error: this.title, code: this.code, message: this.message, ...this.details };
+    }
+}
+
+export class BadRequestError extends ApiError {
+    constructor(message: string, details?: Record<string, unknown>, title = "Bad Request") {
+        super(400, "BAD_REQUEST", title, message, details);
+    }
+}
+
+export class ValidationError extends ApiError {
+    constructor(message: string, validationErrors: string[] = []) {
+        super(400, "VALIDATION_FAILED", "Bad Request", message, { validationErrors });
+    }
+}
+
+export class UnauthorizedError extends ApiError {
+    constructor(message = "Invalid or missing authentication.", details?: Record<string, unknown>, title = "Unauthorized") {
+        super(401, "UNAUTHORIZED", title, message, details);
+    }
+}
+
+export class ForbiddenError extends ApiError {
+    constructor(message: string, details?: Record<string, unknown>, title = "Forbidden") {
+        super(403, "FORBIDDEN", title, message, details);
+    }
+}
+
+export class NotFoundError extends ApiError {
+    constructor(message: string, details?: Record<string, unknown>, title = "Not Found") {
+        super(404, "NOT_FOUND", title, message, details);
+    }
+}
+
+export class ConflictError extends ApiError {
+    constructor(message: string, details?: Record<string, unknown>, title = "Conflict") {
+        super(409, "CONFLICT", title, message, details);
+    }
+}
+
+export class TooManyRequestsError extends ApiError {
+    constructor(
+        /** Seconds until the client may try again */
+        public retryAfter: number,
+        message = "Too many requests, please try again later.",
+    ) {
+        super(429, "RATE_LIMITED", "Too Many Requests", message, { retryAfter });
+    }
+}
+
+export class InternalServerError extends ApiError {
+    constructor(message = "An unexpected error occurred.") {
+        super(500, "INTERNAL_ERROR", "Internal Server Error", message);
+    }
+}
+
+// HELPERS
+
+/** Check whether an error is a MongoDB duplicate key error (unique index violation) */
+export function isDuplicateKeyError(error: unknown): error is { code: 11000; keyValue?: Record<string, unknown> } {
+    return typeof error === "object" && error !== null && (error as { code?: unknown }).code === 11000;
+}
+
+/** Map any thrown value to an ApiError, unknown errors become a generic internal error */
+export function toApiError(error: unknown): ApiError {
+    if (error instanceof ApiError) return error;
+
+    if (error instanceof ZodError) {
+        return new ValidationError("Validation failed.", error.errors.map(err => `${err.path.join('.')}: ${err.message}`));
+    }
+
+    if (isDuplicateKeyError(error)) {
+        const fields = Object.keys(error.keyValue || {});
+        return new ConflictError(`A record with this ${fields.join(", ") || "value"} already exists.`, { fields });
+    }
+
+    if (error instanceof mongoose.Error.ValidationError) {
+        return new ValidationError("Validation failed.", Object.values(error.errors).map(err => `${err.path}: ${err.message}`));
+    }
+
+    if (error instanceof mongoose.Error.CastError) {
+        return new BadRequestError(`Invalid value for ${error.path}.`);
+    }
+
+    return new InternalServerError();
+}
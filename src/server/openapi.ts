@@ -0,0 +1,228 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { getRegisteredRoutes, Route, RouteValidationSchema } from "./package";
+import CONFIG from "../util/config";
+import { API_ERROR_CODES } from "./errors";
+
+// TYPES
+type JsonSchema = Record<string, any>;
+
+type OpenAPIParameter = {
+    name: string;
+    in: "query" | "path";
+    required: boolean;
+    description?: string;
+    schema: JsonSchema;
+}
+
+type OpenAPIOperation = {
+    operationId: string;
+    summary?: string;
+    description?: string;
+    tags: string[];
+    deprecated?: boolean;
+    parameters?: OpenAPIParameter[];
+    requestBody?: { required: boolean; content: Record<string, { schema: JsonSchema }> };
+    responses: Record<string, { description: string; content?: Record<string, { schema: JsonSchema }> }>;
+    security?: Record<string, string[]>[];
+    "x-api-key-scopes"?: string[];
+    "x-required-permissions"?: string[];
+    "x-audited"?: boolean;
+    "x-rate-limit"?: { max: number; window: number; key: string };
+}
+
+export type OpenAPIDocument = {
+    openapi: "3.1.0";
+    info: { title: string; version: string; description?: string };
+    servers: { url: string }[];
+    paths: Record<string, Record<string, OpenAPIOperation>>;
+    components: Record<string, Record<string, any>>;
+}
+
+// HELPERS
+
+/** Convert a zod schema to a JSON schema usable inside an OpenAPI 3.1 document */
+function toJsonSchema(schema: RouteValidationSchema): JsonSchema {
+    const { $schema, ...jsonSchema } = zodToJsonSchema(schema, { $refStrategy: "none", effectStrategy: "input" }) as JsonSchema;
+    return jsonSchema;
+}
+
+/** Convert an Express-style path (`/users/:userId`) to an OpenAPI path (`/users/{userId}`) */
+function toOpenAPIPath(path: string): string {
+    return path.replace(/:([A-Za-z0-9_]+)/g, "{$1}");
+}
+
+/** Split an object JSON schema into individual OpenAPI parameters */
+function toParameters(jsonSchema: JsonSchema, location: OpenAPIParameter["in"]): OpenAPIParameter[] {
+    const properties: Record<string, JsonSchema> = jsonSchema.properties || {};
+    const required: string[] = jsonSchema.required || [];
+
+    return Object.entries(properties).map(([name, { description, ...schema }]) => ({
+        name,
+        in: location,
+        required: location === "path" || (required.includes(name) && schema.default === undefined),
+        ...(description ? { description } : {}),
+        schema,
+    }));
+}
+
+function createOperationId(route: Route): string {
+    const pathPart = route.path
+        .split("/")
+        .filter(segment => segment.length > 0 && segment !== "api")
+        .map(segment => segment.replace(/^:/, "by-"))
+        .join("-");
+
+    return `${route.method.toLowerCase()}-${pathPart}`.replace(/[^A-Za-z0-9]+(.)?/g, (_, char: string | undefined) => char ? char.toUpperCase() : "");
+}
+
+function createDefaultTags(route: Route): string[] {
+    const segments = route.path.split("/").filter(segment => segment.length > 0);
+    const tag = segments[0] === "api" ? segments[1] : segments[0];
+    return tag ? [tag] : [];
+}
+
+function createOperation(route: Route): OpenAPIOperation {
+    const { docs, schemas } = route;
+
+    const operation: OpenAPIOperation = {
+        operationId: createOperationId(route),
+        summary: docs.summary,
+        description: docs.description,
+        tags: docs.tags || createDefaultTags(route),
+        deprecated: docs.deprecated,
+        responses: {},
+    };
+
+    // Request
+    const pathParameters = schemas.params ? toParameters(toJsonSchema(schemas.params), "path") : [];
+    for (const [, name] of route.path.matchAll(/:([A-Za-z0-9_]+)/g)) {
+        if (!pathParameters.some(parameter => parameter.name === name)) pathParameters.push({ name, in: "path", required: true, schema: { type: "string" } });
+    }
+
+    const queryParameters = schemas.query ? toParameters(toJsonSchema(schemas.query), "query") : [];
+    if (pathParameters.length > 0 || queryParameters.length > 0) operation.parameters = [...pathParameters, ...queryParameters];
+    if (schemas.body) operation.requestBody = {
+        required: true,
+        content: { "application/json": { schema: toJsonSchema(schemas.body) } },
+    };
+
+    // Authentication
+    if (route.authConfig) {
+        const { authConfig } = route;
+        const jwtSecurity: Record<string, string[]>[] = [{ cookieAuth: [] }, { bearerAuth: [] }];
+
+        if (authConfig.type === "APIKey") {
+            operation.security = [{ apiKeyAuth: [] }, ...(authConfig.config?.allowJWT ? jwtSecurity : [])];
+            operation["x-api-key-scopes"] = authConfig.scopes;
+        } else {
+            operation.security = jwtSecurity;
+        }
+        operation.responses["401"] = errorResponse("Invalid or missing authentication");
+    }
+
+    if (route.permissions.length > 0) {
+        operation["x-required-permissions"] = route.permissions;
+        if (route.audited) operation["x-audited"] = true;
+        operation.responses["403"] = errorResponse(`Requires the ${route.permissions.join(", ")} permission${route.permissions.length > 1 ? "s" : ""}`);
+    }
+
+    if (route.rateLimitConfig) {
+        const { max, window, key } = route.rateLimitConfig;
+        operation["x-rate-limit"] = { max, window, key: key || "ip" };
+        operation.responses["429"] = errorResponse(`Rate limit exceeded, at most ${max} requests per ${window / 1000} seconds`);
+    }
+
+    if (schemas.body || schemas.query || schemas.params) operation.responses["400"] = errorResponse("Request validation failed");
+    operation.responses["500"] = errorResponse("Unexpected server error");
+
+    // Documented responses
+    for (const [status, response] of Object.entries(docs.responses || {})) {
+        operation.responses[status] = {
+            description: response.description,
+            ...(response.schema ? { content: { "application/json": { schema: toJsonSchema(response.schema) } } } : {}),
+        };
+    }
+
+    // Validated responses, these take priority over documented schemas since they are enforced
+    for (const [status, schema] of Object.entries(route.responseSchemas)) {
+        operation.responses[status] = {
+            description: operation.responses[status]?.description || "Successful response",
+            content: { "application/json": { schema: toJsonSchema(schema) } },
+        };
+    }
+
+    if (!Object.keys(operation.responses).some(status => status.startsWith("2"))) {
+        operation.responses["200"] = { description: "Successful response" };
+    }
+
+    return operation;
+}
+
+function errorResponse(description: string) {
+    return {
+        description,
+        content: { "application/json": { schema: { $ref: "#/components/schemas/ErrorResponse" } } },
+    };
+}
+
+// GENERATOR
+
+/** Generate an OpenAPI 3.1 document from all registered routes */
+export function generateOpenAPIDocument(): OpenAPIDocument {
+    const paths: OpenAPIDocument["paths"] = {};
+
+    const routes = getRegisteredRoutes().sort((a, b) => a.path.localeCompare(b.path));
+    for (const route of routes) {
+        const path = toOpenAPIPath(route.path);
+        if (!paths[path]) paths[path] = {};
+        paths[path][route.method.toLowerCase()] = createOperation(route);
+    }
+
+    return {
+        openapi: "3.1.0",
+        info: {
+            title: "GigTree API",
+            version: process.env.npm_package_version || "0.0.1",
+            description: "Back-end API for GigTree, a C2C service-browser for informal workers in South Africa.",
+        },
+        servers: [{ url: CONFIG.domain.backendUri }],
+        paths,
+        components: {
+            securitySchemes: {
+                cookieAuth: {
+                    type: "apiKey",
+                    in: "cookie",
+                    name: "accessToken",
+                    description: "Access token cookie, set on login alongside the `refreshToken` cookie",
+                },
+                apiKeyAuth: {
+                    type: "apiKey",
+                    in: "header",
+                    name: "X-API-Key",
+                    description: "Personal API key created through `POST /api/user/api-keys`, limited to the scopes listed in `x-api-key-scopes`",
+                },
+                bearerAuth: {
+                    type: "http",
+                    scheme: "bearer",
+                    bearerFormat: "JWT",
+                    description: "Access token from `POST /api/authv1/token`, refreshed through `POST /api/authv1/token/refresh`",
+                },
+            },
+            schemas: {
+                ErrorResponse: {
+                    type: "object",
+                    description: "Error envelope returned by every route, extra details (e.g. `validationErrors`) are added to the top level",
+                    properties: {
+                        success: { type: "boolean", const: false },
+                        error: { type: "string", description: "Human-readable error title" },
+                        code: { type: "string", enum: [...API_ERROR_CODES], description: "Machine-readable error code" },
+                        message: { type: "string", description: "Human-readable description of what went wrong" },
+                        validationErrors: { type: "array", items: { type: "string" } },
+                        retryAfter: { type: "integer", description: "Seconds until the request may be retried, only sent when rate limited" },
+                    },
+                    required: ["success", "error", "code", "message"],
+                },
+            },
+        },
+    };
+}
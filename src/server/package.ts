@@ -5,15 +5,32 @@ import { validateJWTRequest } from "./auth/util";
 import { userModel } from "../mongoose";
 import { z, ZodSchema, ZodError } from "zod";
 import CONFIG from "../util/config";
+import { ApiError, ForbiddenError, InternalServerError, NotFoundError, toApiError, TooManyRequestsError, UnauthorizedError, ValidationError } from "./errors";
+import { hitRateLimit, RateLimitConfig } from "./rate_limit";
+import { fetchRoles, hasPermission, isSuperAdmin, Permission } from "./auth/permissions";
+import { AuditConfig, beginAudit, getDefaultAuditAction } from "./audit";
+import { authenticateApiKey, getApiKeyFromRequest } from "./auth/api_keys";
+import { isTwoFactorEnabled } from "./auth/two_factor";
+import { ApiKeyScope } from "../mongoose/models/api_key";
+import { stime } from "../util/static";
 
 // INIT
 const logger = getLogger("ROUTE.PACK");
-const ROUTES = new Map<RouteCompositionId, Route>();
+const ROUTES = new Map<RouteCompositionId, Route<any>>();
 
 // TYPES
 export type RouteMethods = "GET" | "POST" | "PUT" | "DELETE" | "PATCH" | "HEAD" | "OPTIONS";
 export type RouteCompositionId = `${RouteMethods}:${string}`;
 export type RouteValidationSchema = ZodSchema<any>;
+export type RouteResponseSchemas = { [status: number]: RouteValidationSchema };
+
+type RouteJsonResponse<T> = Omit<Response, "json"> & { json(body: T): Response };
+
+/** Express response whose JSON payloads are type-checked against the schemas declared through `expectResponse` */
+export type RouteResponse<R extends RouteResponseSchemas> = keyof R extends never ? Response : Omit<Response, "status" | "json"> & {
+    status<S extends number>(code: S): S extends keyof R ? RouteJsonResponse<z.input<R[S]>> : Response;
+    json(body: 200 extends keyof R ? z.input<R[200]> : any): Response;
+};
 
 type RouteAuthConfigJWT = {
     type: "JWT";
@@ -23,7 +40,36 @@ type RouteAuthConfigJWT = {
     }
 }
 
-export type RouteAuthConfig = RouteAuthConfigJWT;
+type RouteAuthConfigAPIKey = {
+    type: "APIKey";
+    /** Scopes the API key needs to call this route */
+    scopes: ApiKeyScope[];
+    config?: {
+        /** Whether to return the full user in req.user, otherwise will just return tokenized payload */
+        getFullUser?: boolean;
+        /** Whether logged in users (cookies or bearer JWT) can call this route as well, they aren't limited by scopes */
+        allowJWT?: boolean;
+    }
+}
+
+export type RouteAuthConfig = RouteAuthConfigJWT | RouteAuthConfigAPIKey;
+
+/** Middleware of a route, errors thrown (or rejected) in here are sent back using the standard error envelope */
+type RouteMiddleware = (req: Request, res: Response, next: () => void) => void | Promise<void>;
+
+/** Optional documentation metadata, used when generating the OpenAPI document */
+export interface RouteDocumentation {
+    /** Short, one-line summary of what the route does */
+    summary?: string;
+    /** Longer description of the route, markdown is supported */
+    description?: string;
+    /** Tags used to group the route, defaults to the first path segment after `/api` */
+    tags?: string[];
+    /** Whether the route is deprecated */
+    deprecated?: boolean;
+    /** Documented responses, keyed by HTTP status code */
+    responses?: Record<number, { description: string; schema?: RouteValidationSchema }>;
+}
 
 // HELPERS
 
@@ -42,19 +88,39 @@ function validateWithZodSchema(data: any, schema: RouteValidationSchema): { succ
     }
 }
 
+/** Get all routes that have been registered so far */
+export function getRegisteredRoutes(): Route<any>[] {
+    return Array.from(ROUTES.values());
+}
+
 // CLASSES
-export class Route {
+export class Route<TResponses extends RouteResponseSchemas = Record<never, never>> {
     public method: RouteMethods;
     public path: string;
     public route: RouteCompositionId;
 
-    private middleware: ((req: Request, res: Response, next: () => void) => void)[] = [];
+    /** Authentication config of this route, null if the route is public */
+    public authConfig: RouteAuthConfig | null = null;
+    /** Permissions required to call this route */
+    public permissions: Permission[] = [];
+    /** Documentation metadata of this route */
+    public docs: RouteDocumentation = {};
+    /** Audit config of this route, false if auditing was explicitly disabled */
+    public auditConfig: AuditConfig | false = {};
+    /** Rate limit of this route, null if the route isn't rate limited */
+    public rateLimitConfig: RateLimitConfig | null = null;
+
+    private middleware: RouteMiddleware[] = [];
 
-    private schemas = {
+    public readonly schemas = {
         body: null as RouteValidationSchema | null,
         query: null as RouteValidationSchema | null,
+        params: null as RouteValidationSchema | null,
     }
 
+    /** Schemas the JSON response is validated against, keyed by HTTP status code */
+    public readonly responseSchemas: RouteResponseSchemas = {};
+
     // TODO: honestly idk if this dual constructor is necessary, in the future see which one you prefer and remove the other
     constructor(route: RouteCompositionId);
     constructor(method: RouteMethods, path: string);
@@ -69,9 +135,10 @@ export class Route {
                 throw new Error(`Invalid route format: ${routeOrMethod}`);
             }
 
-            const [method, path] = routeOrMethod.split(":");
-            this.method = method as RouteMethods;
-            this.path = path;
+            // Only split on the first colon, the path itself may contain colons for path parameters (e.g. `/users/:userId`)
+            const separatorIndex = routeOrMethod.indexOf(":");
+            this.method = routeOrMethod.slice(0, separatorIndex) as RouteMethods;
+            this.path = routeOrMethod.slice(separatorIndex + 1);
             this.route = routeOrMethod as RouteCompositionId;
         }
 
@@ -81,54 +148,156 @@ export class Route {
         logger.debug(`Route created: ${this.method} on ${this.path}`);
     }
 
-    /** Require authentication for this endpoint */
-    auth({ type, config }: RouteAuthConfig) {
-        if (type !== "JWT") throw new Error(`[ROUTE.PACK] Unsupported authentication type: ${type}`);
-        logger.debug(`Authentication required for route ${this.route}`);
+    /**
+     * Require authentication for this endpoint.
+     * `JWT` accepts logged in users, `APIKey` accepts API keys with the given scopes (and logged in users too with `allowJWT`).
+     */
+    auth(authConfig: RouteAuthConfig) {
+        const { type, config } = authConfig;
+        if (type !== "JWT" && type !== "APIKey") throw new Error(`[ROUTE.PACK] Unsupported authentication type: ${type}`);
+        logger.debug(`Authentication (${type}) required for route ${this.route}`);
+        this.authConfig = authConfig;
 
         this.middleware.push(async (req, res, next) => {
-            const validated = await validateJWTRequest(req, res);
-            if (!validated) return res.status(401).json({ success: false, error: "Unauthorized", message: "Invalid or missing authentication." });
+            const apiKey = authConfig.type === "APIKey" ? getApiKeyFromRequest(req) : undefined;
+
+            if (authConfig.type === "APIKey" && (apiKey || !authConfig.config?.allowJWT)) {
+                await this.authenticateApiKey(req, res, apiKey, authConfig.scopes);
+            } else {
+                const validated = await validateJWTRequest(req, res);
+                if (!validated) throw new UnauthorizedError();
+            }
 
             // If config is provided, handle it
             if (config?.getFullUser) {
                 const user = await userModel.findOne({ userId: req.user.userId });
                 if (!user) {
                     logger.warn(`User not found for userId: ${req.user.userId}`);
-                    return res.status(404).json({ success: false, error: "Not Found", message: "User not found." });
+                    throw new NotFoundError("User not found.");
                 }
 
                 req.user = user.toObject(); // Convert Mongoose document to plain object
                 logger.debug(`Full user data attached to request for userId: ${req.user.userId}`);
             }
 
-            return next();
+            next();
         });
         return this;
     }
 
-    requireAdmin() {
-        logger.debug(`Admin privileges required for route ${this.route}`);
+    /** Authenticate a request with an API key, checking its scopes and its own rate limit */
+    private async authenticateApiKey(req: Request, res: Response, key: string | undefined, scopes: ApiKeyScope[]) {
+        if (!key) throw new UnauthorizedError("An API key is required, send it as `X-API-Key: <key>`.");
+
+        const apiKey = await authenticateApiKey(key, req.ip);
+        if (!apiKey) throw new UnauthorizedError("Invalid, expired or revoked API key.");
 
-        this.middleware.push((req, res, next) => {
-            const user = req.user as { userId: string } | null;
+        const missing = scopes.filter(scope => !apiKey.scopes.includes(scope));
+        if (missing.length > 0) {
+            logger.warn(`API key ${apiKey.keyId} attempted to access route ${this.route} without scopes: ${missing.join(", ")}`);
+            throw new ForbiddenError("This API key doesn't have the scopes needed to do this.", { requiredScopes: missing });
+        }
+
+        // Every key has its own hourly limit across all routes
+        await this.enforceRateLimit(res, `apiKey:${apiKey.keyId}`, { window: stime.hour, max: apiKey.rateLimit }, `API key ${apiKey.keyId}`);
+
+        req.user = { userId: apiKey.userId };
+        req.apiKey = { keyId: apiKey.keyId, scopes: apiKey.scopes, rateLimit: apiKey.rateLimit };
+    }
+
+    /** Count a request towards a rate limit, setting the RateLimit headers and throwing once the limit is exceeded */
+    private async enforceRateLimit(res: Response, key: string, config: RateLimitConfig, identity: string) {
+        if (!CONFIG.rateLimit.enabled) return;
+
+        let result: Awaited<ReturnType<typeof hitRateLimit>>;
+        try {
+            result = await hitRateLimit(key, config);
+        } catch (error) {
+            // Don't lock everyone out when the store is unavailable
+            logger.error(`Failed to check rate limit for route ${this.route}, allowing request: ${(error as Error)?.message || error}`);
+            return;
+        }
+
+        res.setHeader("RateLimit-Limit", result.limit);
+        res.setHeader("RateLimit-Remaining", result.remaining);
+        res.setHeader("RateLimit-Reset", result.reset);
+
+        if (result.limited) {
+            logger.warn(`Rate limit exceeded for route ${this.route} by ${identity}`);
+            throw new TooManyRequestsError(result.reset);
+        }
+    }
+
+    /**
+     * Require the authenticated user to have a permission, granted through their roles or as super-admin.
+     * Has to be called after `auth()`, roles are looked up on every request so revoking them applies immediately.
+     */
+    requirePermission(...permissions: Permission[]) {
+        logger.debug(`Permissions ${permissions.join(", ")} required for route ${this.route}`);
+        this.permissions.push(...permissions);
+
+        this.middleware.push(async (req, res, next) => {
+            const user = req.user as { userId: string; roles?: string[] } | null;
             if (!user) {
-                logger.warn("Admin middleware called without user authentication");
-                return res.status(401).json({ success: false, error: "Unauthorized", message: "Authentication required" });
+                logger.warn("Permission middleware called without user authentication");
+                throw new UnauthorizedError("Authentication required");
+            }
+
+            // Full users already carry their roles, super-admins don't need any
+            const roles = user.roles || (isSuperAdmin(user.userId) ? [] : await fetchRoles(user.userId));
+            if (!roles) throw new UnauthorizedError("Authentication required");
+
+            const missing = permissions.filter(permission => !hasPermission({ userId: user.userId, roles }, permission));
+            if (missing.length > 0) {
+                logger.warn(`User ${user.userId} attempted to access route ${this.route} without permissions: ${missing.join(", ")}`);
+                throw new ForbiddenError("You don't have permission to do this.", { requiredPermissions: missing });
             }
 
-            // Check if user is in the admin list
-            if (!CONFIG.moderation.adminUserIds.includes(user.userId)) {
-                logger.warn(`Non-admin user ${user.userId} attempted to access admin endpoint`);
-                return res.status(403).json({ success: false, error: "Forbidden", message: "Admin privileges required" });
+            // Staff accounts can only use their permissions once two-factor authentication is set up
+            if (CONFIG.twoFactor.requiredForStaff && !await isTwoFactorEnabled(user.userId)) {
+                logger.warn(`User ${user.userId} attempted to access route ${this.route} without two-factor authentication`);
+                throw new ForbiddenError("Staff accounts need two-factor authentication, set it up to continue.", { twoFactorRequired: true }, "Two-Factor Required");
             }
 
-            logger.debug(`Admin user ${user.userId} accessing admin endpoint`);
+            logger.debug(`User ${user.userId} accessing route ${this.route} with permissions: ${permissions.join(", ")}`);
+            next();
+        });
+        return this;
+    }
+
+    /**
+     * Limit how often this route can be called within a time window, grouped by IP or by authenticated user.
+     * When limiting by user, call this after `auth()` so the user is known by the time the limit is checked.
+     */
+    rateLimit({ window, max, key = "ip" }: RateLimitConfig) {
+        logger.debug(`Rate limit of ${max} requests per ${window}ms (by ${key}) for route ${this.route}`);
+        this.rateLimitConfig = { window, max, key };
+
+        this.middleware.push(async (req, res, next) => {
+            const userId = req.user?.userId as string | undefined;
+            const identity = key === "user" && userId ? `user:${userId}` : `ip:${req.ip}`;
+
+            await this.enforceRateLimit(res, `${this.route}:${identity}`, { window, max, key }, identity);
             next();
         });
         return this;
     }
 
+    /**
+     * Configure how calls to this route are recorded in the audit log, or pass `false` to never record them.
+     * Staff routes that can change data (non-GET routes requiring a non-read permission) are audited automatically.
+     */
+    audit(config: AuditConfig | false) {
+        this.auditConfig = config === false ? false : { ...this.auditConfig, ...config };
+        return this;
+    }
+
+    /** Whether calls to this route are recorded in the audit log */
+    get audited(): boolean {
+        if (this.auditConfig === false || this.permissions.length === 0) return false;
+        return this.method !== "GET" && this.permissions.some(permission => !permission.endsWith(".read"));
+    }
+
     /** Add a schema to automatically check the input of the body */
     public expectBody(schema: RouteValidationSchema) {
         this.schemas.body = schema;
@@ -141,52 +310,121 @@ export class Route {
         return this;
     }
 
-    /** Handler for when this route is called */
-    public onCall(handler: (req: Request, res: Response) => void) {
-        const [method, path] = this.route.split(":");
+    /**
+     * Add a schema the JSON response for the given status code has to match.
+     * Responses are parsed through the schema so unknown fields (e.g. `passwordHash`) are stripped,
+     * in development a mismatching response is reported back in detail to make mistakes obvious.
+     * Once a route declares any response schema, every other 2xx status has to be declared too, a success response
+     * without a schema is answered with a 500 instead of being sent unchecked. Error responses are never validated.
+     */
+    public expectResponse<S extends number, T extends RouteValidationSchema>(status: S, schema: T): Route<TResponses & { [K in S]: T }> {
+        this.responseSchemas[status] = schema;
+        return this as unknown as Route<TResponses & { [K in S]: T }>;
+    }
+
+    /** Add a schema to automatically check the path parameters (e.g. `:userId` in `/api/users/:userId`) */
+    public expectParams(schema: RouteValidationSchema) {
+        this.schemas.params = schema;
+        return this;
+    }
 
-        if (!method || !path) {
+    /** Add documentation metadata to this route, merged with any previously provided metadata */
+    public describe(docs: RouteDocumentation) {
+        this.docs = { ...this.docs, ...docs, responses: { ...this.docs.responses, ...docs.responses } };
+        return this;
+    }
+
+    /** Handler for when this route is called, errors thrown by the handler are sent back using the standard error envelope */
+    public onCall(handler: (req: Request, res: RouteResponse<TResponses>) => void | Promise<unknown>) {
+        if (!this.method || !this.path) {
             logger.error(`Invalid route format: ${this.route}`);
             return;
         }
 
+        // Wrap middleware so async failures end up in the error handler instead of hanging the request
+        const middleware = this.middleware.map(fn => async (req: Request, res: Response, next: () => void) => {
+            try {
+                await fn(req, res, next);
+            } catch (error) {
+                this.handleError(error, req, res);
+            }
+        });
+
         // Subscribe to server requests on this route
-        app[method.toLowerCase() as keyof typeof app](path, this.middleware, (req: Request, res: Response) => {
+        app[this.method.toLowerCase() as keyof typeof app](this.path, middleware, async (req: Request, res: Response) => {
             logger.debug(`Route called: ${this.method} on ${this.path}`);
 
             // Validate request data
-            const validateRequestData = (data: any, schema: RouteValidationSchema | null, type: 'body' | 'query') => {
-                if (!schema) return true;
+            const validateRequestData = (data: any, schema: RouteValidationSchema | null, type: 'body' | 'query' | 'params') => {
+                if (!schema) return;
 
                 const validation = validateWithZodSchema(data, schema);
                 if (!validation.success) {
                     logger.warn(`Request ${type} validation failed for route ${this.route}`);
-                    res.status(400).json({
-                        success: false,
-                        error: "Bad Request",
-                        message: `Request ${type} validation failed.`,
-                        validationErrors: validation.errors || [],
-                    });
-                    return false;
+                    throw new ValidationError(`Request ${type} validation failed.`, validation.errors || []);
                 }
 
                 // Replace data with validated data (just overwrite body in both cases cause query is readonly)
                 if (type === "body" || type === "query") req.body = validation.data;
-                else {
-                    logger.error(`Invalid validation type: ${type}`);
-                    res.status(500).json({ success: false, error: "Internal Server Error", message: "Invalid validation type." });
-                    return false;
-                }
-
-                return true;
+                else if (type === "params") req.params = validation.data;
             };
 
-            // Validate body and query
-            if (!validateRequestData(req.body, this.schemas.body, 'body')) return;
-            if (!validateRequestData(req.query, this.schemas.query, 'query')) return;
+            try {
+                // Validate params, body and query
+                validateRequestData(req.params, this.schemas.params, 'params');
+                validateRequestData(req.body, this.schemas.body, 'body');
+                validateRequestData(req.query, this.schemas.query, 'query');
+
+                // Record staff actions in the audit log
+                if (this.audited && this.auditConfig) await beginAudit(this.route, this.auditConfig.action || getDefaultAuditAction(this.path), req, res);
 
-            // Forward
-            handler(req as Request, res);
+                // Validate the response before it is sent
+                if (Object.keys(this.responseSchemas).length > 0) this.wrapResponseValidation(res);
+
+                // Forward
+                await handler(req as Request, res as unknown as RouteResponse<TResponses>);
+            } catch (error) {
+                this.handleError(error, req, res);
+            }
         })
     }
+
+    /** Map an error to the standard error envelope, log it with the request context and send it */
+    private handleError(error: unknown, req: Request, res: Response) {
+        const apiError = toApiError(error);
+        const context = `${this.route} (ip: ${req.ip}, user: ${req.user?.userId || "anonymous"})`;
+
+        if (apiError.status >= 500) logger.error(`Error in route ${context}: ${(error as Error)?.stack || error}`);
+        else if (!(error instanceof ApiError)) logger.warn(`Route ${context} failed with ${apiError.code}: ${(error as Error)?.message || error}`);
+        else logger.debug(`Route ${context} failed with ${apiError.status} ${apiError.code}: ${apiError.message}`);
+
+        // Nothing can be sent anymore if the handler already started responding (e.g. SSE streams)
+        if (res.headersSent) return;
+        if (apiError instanceof TooManyRequestsError) res.setHeader("Retry-After", apiError.retryAfter);
+        res.status(apiError.status).json(apiError.toResponse());
+    }
+
+    /** Overwrite `res.json` so the payload is validated against the schema of the current status code */
+    private wrapResponseValidation(res: Response) {
+        const sendJson = res.json.bind(res);
+
+        res.json = (body: any) => {
+            const schema = this.responseSchemas[res.statusCode];
+            const isSuccess = res.statusCode >= 200 && res.statusCode < 300;
+            if (!schema && !isSuccess) return sendJson(body);
+
+            // Success responses without a schema would go out unchecked, so they fail just like invalid ones
+            const validation = schema
+                ? validateWithZodSchema(body, schema)
+                : { success: false as const, errors: [`No response schema declared for status ${res.statusCode}`] };
+            if (validation.success) return sendJson(validation.data);
+
+            logger.error(`Response validation failed for route ${this.route} (${res.statusCode}): ${validation.errors?.join(", ")}`);
+            res.status(500);
+            return sendJson({
+                ...new InternalServerError("The server produced an invalid response.").toResponse(),
+                ...(CONFIG.nodeEnv !== "production" ? { validationErrors: validation.errors || [] } : {}),
+            });
+        };
+    }
 }
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { getLogger } from "../util/logger";
+import { stime } from "../util/static";
+import CONFIG from "../util/config";
+import rateLimitModel from "../mongoose/models/rate_limit";
+
+// INIT
+const logger = getLogger("ROUTE.RATELIMIT");
+
+// TYPES
+export type RateLimitConfig = {
+    /** Length of the window in milliseconds */
+    window: number;
+    /** Maximum amount of requests allowed within a single window */
+    max: number;
+    /** What requests are grouped by, "user" falls back to the IP for unauthenticated requests (Default: "ip") */
+    key?: "ip" | "user";
+}
+
+export type RateLimitHit = {
+    /** Amount of requests made in the current window, including this one */
+    count: number;
+    /** When the current window ends */
+    resetAt: Date;
+}
+
+/** Storage backend of the rate limiter, implement this to keep counters somewhere else */
+export interface RateLimitStore {
+    /** Count a request against the given key, the window starting at `windowStart` */
+    increment(key: string, windowStart: number, window: number): Promise<RateLimitHit>;
+}
+
+// STORES
+
+/** Keeps counters in memory, only suitable for a single server instance */
+export class MemoryRateLimitStore implements RateLimitStore {
+    private buckets = new Map<string, RateLimitHit>();
+
+    constructor(cleanupInterval = stime.minute) {
+        // Periodically drop expired buckets so the map doesn't grow forever
+        setInterval(() => {
+            const now = Date.now();
+            for (const [key, bucket] of this.buckets) if (bucket.resetAt.getTime() <= now) this.buckets.delete(key);
+        }, cleanupInterval).unref();
+    }
+
+    async increment(key: string, windowStart: number, window: number): Promise<RateLimitHit> {
+        const bucketKey = `${key}:${windowStart}`;
+
+        const bucket = this.buckets.get(bucketKey) || { count: 0, resetAt: new Date(windowStart + window) };
+        bucket.count++;
+        this.buckets.set(bucketKey, bucket);
+
+        return { ...bucket };
+    }
+}
+
+/** Keeps counters in MongoDB so they're shared between all server instances */
+export class MongoRateLimitStore implements RateLimitStore {
+    async increment(key: string, windowStart: number, window: number): Promise<RateLimitHit> {
+        const bucket = await rateLimitModel.findOneAndUpdate(
+            { key: `${key}:${windowStart}` },
+            { $inc: { count: 1 }, $setOnInsert: { resetAt: new Date(windowStart + window) } },
+            { upsert: true, new: true },
+        );
+
+        return { count: bucket.count, resetAt: bucket.resetAt };
+    }
+}
+
+let store: RateLimitStore | null = null;
+
+/** Get the rate limit store configured through `RATE_LIMIT_STORE` */
+export function getRateLimitStore(): RateLimitStore {
+    if (!store) {
+        store = CONFIG.rateLimit.store === "mongo" ? new MongoRateLimitStore() : new MemoryRateLimitStore();
+        logger.debug(`Using ${CONFIG.rateLimit.store} rate limit store`);
+    }
+    return store;
+}
+
+/** Replace the rate limit store, e.g. with a custom implementation */
+export function setRateLimitStore(newStore: RateLimitStore) {
+    store = newStore;
+}
+
+// HELPERS
+
+/**
+ * Count a request against the rate limit of the given key.
+ * Uses fixed windows aligned to the window length, so every instance agrees on when a window starts.
+ */
+export async function hitRateLimit(key: string, config: RateLimitConfig) {
+    const now = Date.now();
+    const windowStart = now - (now % config.window);
+
+    const hit = await getRateLimitStore().increment(key, windowStart, config.window);
+    return {
+        limited: hit.count > config.max,
+        limit: config.max,
+        remaining: Math.max(0, config.max - hit.count),
+        /** Seconds until the window resets */
+        reset: Math.max(0, Math.ceil((hit.resetAt.getTime() - now) / 1000)),
+    };
+}
@@ -1,7 +1,14 @@
 import "./routes/health";
+import "./routes/docs";
+import "./routes/jwks";
 
 import "./routes/authv1/login";
 import "./routes/authv1/signup";
+import "./routes/authv1/passwordReset";
+import "./routes/authv1/magicLink";
+import "./routes/authv1/phone";
+import "./routes/authv1/sessions";
+import "./routes/authv1/token";
 
 // Verification routes
 import "./routes/verification/email";
@@ -9,6 +16,13 @@ import "./routes/verification/email";
 // User routes
 import "./routes/user/getUser";
 import "./routes/user/updateUser";
+import "./routes/user/changePassword";
+import "./routes/user/changeEmail";
+import "./routes/user/phone";
+import "./routes/user/apiKeys";
+import "./routes/user/twoFactor";
+import "./routes/user/deleteAccount";
+import "./routes/user/exportData";
 
 import "./routes/user/getListing";
 import "./routes/user/setListing";
@@ -24,5 +38,8 @@ import "./routes/messanger/createChannel";
 import "./routes/messanger/subscribeChannel";
 // import "./routes/messanger/channelStats";
 
+// Report routes
+import "./routes/report/submitReport";
+
 // Admin routes
 import "./routes/admin";
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { z } from "zod";
+import { Route } from "../../package";
+import auditLogModel from "../../../mongoose/models/audit_log";
+
+// Get audit log entries with filters and pagination
+const getAuditLogSchema = z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+    actorUserId: z.string().optional(),
+    action: z.string().optional(),
+    targetType: z.string().optional(),
+    targetId: z.string().optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+});
+
+new Route("GET:/api/admin/audit").describe({ summary: "Search the audit log of staff actions" }).auth({ type: "JWT" }).requirePermission("audit.read").expectQuery(getAuditLogSchema).onCall(async (req, res) => {
+    const { page, limit, actorUserId, action, targetType, targetId, from, to } = req.body as z.infer<typeof getAuditLogSchema>;
+
+    // Build filter query
+    const query: any = {};
+    if (actorUserId) query.actorUserId = actorUserId;
+    if (action) query.action = action;
+    if (targetType) query["target.type"] = targetType;
+    if (targetId) query["target.id"] = targetId;
+    if (from || to) {
+        query.createdAt = {};
+        if (from) query.createdAt.$gte = from;
+        if (to) query.createdAt.$lte = to;
+    }
+
+    const skip = (page - 1) * limit;
+
+    const [entries, totalCount] = await Promise.all([
+        auditLogModel.find(query, { _id: 0, __v: 0 })
+            .sort({ createdAt: -1 })
+            .skip(skip)
+            .limit(limit)
+            .lean(),
+        auditLogModel.countDocuments(query)
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+        success: true,
+        entries,
+        pagination: {
+            page,
+            limit,
+            totalCount,
+            totalPages,
+            hasNextPage: page < totalPages,
+            hasPrevPage: page > 1
+        }
+    });
+});
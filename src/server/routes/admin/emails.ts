@@ -0,0 +1,100 @@
+import { z } from "zod";
+import { Route } from "../../package";
+import { BadRequestError, NotFoundError } from "../../errors";
+import { getLogger } from "../../../util/logger";
+import emailOutboxModel, { EMAIL_STATUSES } from "../../../mongoose/models/email_outbox";
+import { EMAIL_TEMPLATES } from "../../../email/templates";
+import { retryEmail } from "../../../email/outbox";
+
+const logger = getLogger("ADMIN.EMAILS");
+
+/** Bodies may contain single-use links, staff only get to see what was sent and how delivery went */
+const EMAIL_PROJECTION = { _id: 0, __v: 0, text: 0, html: 0 };
+
+// Get emails from the outbox with filters and pagination, to help users who didn't receive an email
+const getEmailsSchema = z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+    status: z.enum(EMAIL_STATUSES).optional(),
+    template: z.enum(Object.keys(EMAIL_TEMPLATES) as [string, ...string[]]).optional(),
+    to: z.string().optional(),
+    userId: z.string().optional(),
+    from: z.coerce.date().optional(),
+    until: z.coerce.date().optional(),
+});
+
+new Route("GET:/api/admin/emails").describe({ summary: "Search the email outbox and see the delivery status of emails" }).auth({ type: "JWT" }).requirePermission("emails.read").expectQuery(getEmailsSchema).onCall(async (req, res) => {
+    const { page, limit, status, template, to, userId, from, until } = req.body as z.infer<typeof getEmailsSchema>;
+
+    // Build filter query
+    const query: any = {};
+    if (status) query.status = status;
+    if (template) query.template = template;
+    if (to) query.to = to;
+    if (userId) query.userId = userId;
+    if (from || until) {
+        query.createdAt = {};
+        if (from) query.createdAt.$gte = from;
+        if (until) query.createdAt.$lte = until;
+    }
+
+    const skip = (page - 1) * limit;
+
+    const [emails, totalCount, statusCounts] = await Promise.all([
+        emailOutboxModel.find(query, EMAIL_PROJECTION)
+            .sort({ createdAt: -1 })
+            .skip(skip)
+            .limit(limit)
+            .lean(),
+        emailOutboxModel.countDocuments(query),
+        emailOutboxModel.aggregate<{ _id: string; count: number }>([{ $group: { _id: "$status", count: { $sum: 1 } } }]),
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+        success: true,
+        emails,
+        statusCounts: Object.fromEntries(statusCounts.map(({ _id, count }) => [_id, count])), // Across the whole outbox, so a growing backlog stands out
+        pagination: {
+            page,
+            limit,
+            totalCount,
+            totalPages,
+            hasNextPage: page < totalPages,
+            hasPrevPage: page > 1
+        }
+    });
+});
+
+// Get a single email
+const emailParamsSchema = z.object({
+    emailId: z.string().min(1),
+});
+
+new Route("GET:/api/admin/emails/:emailId").describe({ summary: "Get the delivery details of an email" }).auth({ type: "JWT" }).requirePermission("emails.read").expectParams(emailParamsSchema).onCall(async (req, res) => {
+    const { emailId } = req.params as z.infer<typeof emailParamsSchema>;
+
+    const email = await emailOutboxModel.findOne({ emailId }, EMAIL_PROJECTION).lean();
+    if (!email) throw new NotFoundError("Email not found");
+
+    res.json({
+        success: true,
+        email
+    });
+});
+
+// Retry a failed email, e.g. after fixing the SMTP configuration
+new Route("POST:/api/admin/emails/:emailId/retry").describe({ summary: "Retry delivering an email that failed" }).auth({ type: "JWT" }).requirePermission("emails.manage").expectParams(emailParamsSchema).onCall(async (req, res) => {
+    const { emailId } = req.params as z.infer<typeof emailParamsSchema>;
+
+    const email = await emailOutboxModel.findOne({ emailId }, { status: 1 }).lean();
+    if (!email) throw new NotFoundError("Email not found");
+    if (!await retryEmail(emailId)) throw new BadRequestError(`Only failed emails can be retried, this one is ${email.status}`);
+
+    logger.info(`User ${req.user.userId} retried email ${emailId}`);
+    res.json({
+        success: true,
+        message: "Email queued for another delivery attempt"
+    });
+});
@@ -3,3 +3,7 @@ import "./moderation";
 import "./listingManagement";
 import "./messageManagement";
 import "./dashboard";
+import "./roles";
+import "./audit";
+import "./reports";
+import "./emails";
@@ -1,8 +1,11 @@
+import { Response } from "express";
 import { z } from "zod";
 import { Route } from "../../package";
+import { NotFoundError } from "../../errors";
 import { userModel } from "../../../mongoose";
 import listingModel from "../../../mongoose/models/listing";
 import { getLogger } from "../../../util/logger";
+import { deleteEntity } from "../../deletion";
 
 const logger = getLogger("ADMIN.LISTING_MANAGEMENT");
 
@@ -15,60 +18,51 @@ const getListingsSchema = z.object({
     sortBy: z.enum(["createdAt", "updatedAt", "shortDescription"]).default("createdAt"),
 });
 
-new Route("GET:/api/admin/listings").auth({ type: "JWT" }).requireAdmin().expectQuery(getListingsSchema).onCall(async (req, res) => {
-    try {
-        const { page, limit, search, sort, sortBy } = req.body as z.infer<typeof getListingsSchema>;
-
-        // Build search query
-        const query: any = {};
-        if (search) query.shortDescription = { $regex: search, $options: 'i' };
-        const skip = (page - 1) * limit;
-        const sortObj: any = {};
-        sortObj[sortBy] = sort === "asc" ? 1 : -1;
-
-        // Fetch listings and total count
-        const [listings, totalCount] = await Promise.all([
-            listingModel.find(query).sort(sortObj).skip(skip).limit(limit).lean(),
-            listingModel.countDocuments(query)
-        ]);
-
-        // Get user data for listings
-        const userIds = [...new Set(listings.map(listing => listing.ownerUserId))];
-        const users = await userModel.find(
-            { userId: { $in: userIds } },
-            { userId: 1, username: 1, primaryEmail: 1, 'profile.firstName': 1, 'profile.lastName': 1 }
-        ).lean();
-
-        const userMap = new Map(users.map(user => [user.userId, user]));
-
-        // Combine listings with user data
-        const listingsWithUsers = listings.map(listing => ({
-            ...listing,
-            owner: userMap.get(listing.ownerUserId) || null
-        }));
-
-        const totalPages = Math.ceil(totalCount / limit);
-
-        res.json({
-            success: true,
-            listings: listingsWithUsers,
-            pagination: {
-                page,
-                limit,
-                totalCount,
-                totalPages,
-                hasNextPage: page < totalPages,
-                hasPrevPage: page > 1
-            }
-        });
-    } catch (error) {
-        logger.error("Error fetching listings:", error);
-        res.status(500).json({
-            success: false,
-            error: "Internal Server Error",
-            message: "Failed to fetch listings"
-        });
-    }
+new Route("GET:/api/admin/listings").auth({ type: "JWT" }).requirePermission("listings.read").expectQuery(getListingsSchema).onCall(async (req, res) => {
+    const { page, limit, search, sort, sortBy } = req.body as z.infer<typeof getListingsSchema>;
+
+    // Build search query
+    const query: any = {};
+    if (search) query.shortDescription = { $regex: search, $options: 'i' };
+    const skip = (page - 1) * limit;
+    const sortObj: any = {};
+    sortObj[sortBy] = sort === "asc" ? 1 : -1;
+
+    // Fetch listings and total count
+    const [listings, totalCount] = await Promise.all([
+        listingModel.find(query).sort(sortObj).skip(skip).limit(limit).lean(),
+        listingModel.countDocuments(query)
+    ]);
+
+    // Get user data for listings
+    const userIds = [...new Set(listings.map(listing => listing.ownerUserId))];
+    const users = await userModel.find(
+        { userId: { $in: userIds } },
+        { userId: 1, username: 1, primaryEmail: 1, 'profile.firstName': 1, 'profile.lastName': 1 }
+    ).lean();
+
+    const userMap = new Map(users.map(user => [user.userId, user]));
+
+    // Combine listings with user data
+    const listingsWithUsers = listings.map(listing => ({
+        ...listing,
+        owner: userMap.get(listing.ownerUserId) || null
+    }));
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+        success: true,
+        listings: listingsWithUsers,
+        pagination: {
+            page,
+            limit,
+            totalCount,
+            totalPages,
+            hasNextPage: page < totalPages,
+            hasPrevPage: page > 1
+        }
+    });
 });
 
 // Get specific listing details
@@ -76,40 +70,33 @@ const getListingByIdSchema = z.object({
     listingId: z.string().min(1),
 });
 
-new Route("POST:/api/admin/listings/get").auth({ type: "JWT" }).requireAdmin().expectBody(getListingByIdSchema).onCall(async (req, res) => {
-    try {
-        const { listingId } = req.body as z.infer<typeof getListingByIdSchema>;
-
-        const listing = await listingModel.findOne({ listingId }).lean();
-        if (!listing) {
-            return res.status(404).json({
-                success: false,
-                error: "Not Found",
-                message: "Listing not found"
-            });
+async function sendListingById(listingId: string, res: Response) {
+    const listing = await listingModel.findOne({ listingId }).lean();
+    if (!listing) throw new NotFoundError("Listing not found");
+
+    // Get owner details
+    const owner = await userModel.findOne(
+        { userId: listing.ownerUserId },
+        { passwordHash: 0, emailVerification: 0 }
+    ).lean();
+
+    res.json({
+        success: true,
+        listing: {
+            ...listing,
+            owner
         }
+    });
+}
 
-        // Get owner details
-        const owner = await userModel.findOne(
-            { userId: listing.ownerUserId },
-            { passwordHash: 0, emailVerification: 0 }
-        ).lean();
-
-        res.json({
-            success: true,
-            listing: {
-                ...listing,
-                owner
-            }
-        });
-    } catch (error) {
-        logger.error("Error fetching listing:", error);
-        res.status(500).json({
-            success: false,
-            error: "Internal Server Error",
-            message: "Failed to fetch listing"
-        });
-    }
+new Route("GET:/api/admin/listings/:listingId").auth({ type: "JWT" }).requirePermission("listings.read").expectParams(getListingByIdSchema).onCall(async (req, res) => {
+    const { listingId } = req.params as z.infer<typeof getListingByIdSchema>;
+    await sendListingById(listingId, res);
+});
+
+new Route("POST:/api/admin/listings/get").describe({ deprecated: true, description: "Use `GET /api/admin/listings/{listingId}` instead." }).auth({ type: "JWT" }).requirePermission("listings.read").expectBody(getListingByIdSchema).onCall(async (req, res) => {
+    const { listingId } = req.body as z.infer<typeof getListingByIdSchema>;
+    await sendListingById(listingId, res);
 });
 
 // Update listing
@@ -119,39 +106,24 @@ const updateListingSchema = z.object({
     shortDescription: z.string().min(1).max(200).optional(),
 });
 
-new Route("PUT:/api/admin/listings/update").auth({ type: "JWT" }).requireAdmin().expectBody(updateListingSchema).onCall(async (req, res) => {
-    try {
-        const { listingId, ...updateData } = req.body as z.infer<typeof updateListingSchema>;
-
-        const listing = await listingModel.findOne({ listingId });
-        if (!listing) {
-            return res.status(404).json({
-                success: false,
-                error: "Not Found",
-                message: "Listing not found"
-            });
-        }
+new Route("PUT:/api/admin/listings/update").auth({ type: "JWT" }).requirePermission("listings.update").expectBody(updateListingSchema).onCall(async (req, res) => {
+    const { listingId, ...updateData } = req.body as z.infer<typeof updateListingSchema>;
+
+    const listing = await listingModel.findOne({ listingId });
+    if (!listing) throw new NotFoundError("Listing not found");
 
-        // Update listing fields
-        if (updateData.thumbnailUrl !== undefined) listing.thumbnailUrl = updateData.thumbnailUrl;
-        if (updateData.shortDescription !== undefined) listing.shortDescription = updateData.shortDescription;
-
-        await listing.save();
-
-        logger.info(`Admin updated listing ${listingId}`);
-        res.json({
-            success: true,
-            message: "Listing updated successfully",
-            listing: listing.toObject()
-        });
-    } catch (error) {
-        logger.error("Error updating listing:", error);
-        res.status(500).json({
-            success: false,
-            error: "Internal Server Error",
-            message: "Failed to update listing"
-        });
-    }
+    // Update listing fields
+    if (updateData.thumbnailUrl !== undefined) listing.thumbnailUrl = updateData.thumbnailUrl;
+    if (updateData.shortDescription !== undefined) listing.shortDescription = updateData.shortDescription;
+
+    await listing.save();
+
+    logger.info(`Admin updated listing ${listingId}`);
+    res.json({
+        success: true,
+        message: "Listing updated successfully",
+        listing: listing.toObject()
+    });
 });
 
 // Delete listing
@@ -159,32 +131,18 @@ const deleteListingSchema = z.object({
     listingId: z.string().min(1),
 });
 
-new Route("DELETE:/api/admin/listings/delete").auth({ type: "JWT" }).requireAdmin().expectBody(deleteListingSchema).onCall(async (req, res) => {
-    try {
-        const { listingId } = req.body as z.infer<typeof deleteListingSchema>;
-
-        const listing = await listingModel.findOneAndDelete({ listingId });
-        if (!listing) {
-            return res.status(404).json({
-                success: false,
-                error: "Not Found",
-                message: "Listing not found"
-            });
-        }
+new Route("DELETE:/api/admin/listings/delete").auth({ type: "JWT" }).requirePermission("listings.delete").expectBody(deleteListingSchema).onCall(async (req, res) => {
+    const { listingId } = req.body as z.infer<typeof deleteListingSchema>;
+
+    const deleted = await deleteEntity("listing", listingId);
+    if (!deleted) throw new NotFoundError("Listing not found");
 
-        logger.info(`Admin deleted listing ${listingId}`);
-        res.json({
-            success: true,
-            message: "Listing deleted successfully"
-        });
-    } catch (error) {
-        logger.error("Error deleting listing:", error);
-        res.status(500).json({
-            success: false,
-            error: "Internal Server Error",
-            message: "Failed to delete listing"
-        });
-    }
+    logger.info(`Admin deleted listing ${listingId}`);
+    res.json({
+        success: true,
+        message: "Listing deleted successfully",
+        deleted
+    });
 });
 
 // Get listings by user
@@ -192,38 +150,23 @@ const getListingsByUserSchema = z.object({
     userId: z.string().min(1),
 });
 
-new Route("POST:/api/admin/listings/user").auth({ type: "JWT" }).requireAdmin().expectBody(getListingsByUserSchema).onCall(async (req, res) => {
-    try {
-        const { userId } = req.body as z.infer<typeof getListingsByUserSchema>;
-
-        // Check if user exists
-        const user = await userModel.findOne(
-            { userId },
-            { userId: 1, username: 1, primaryEmail: 1, 'profile.firstName': 1, 'profile.lastName': 1 }
-        ).lean();
-
-        if (!user) {
-            return res.status(404).json({
-                success: false,
-                error: "Not Found",
-                message: "User not found"
-            });
-        }
+new Route("POST:/api/admin/listings/user").auth({ type: "JWT" }).requirePermission("listings.read").expectBody(getListingsByUserSchema).onCall(async (req, res) => {
+    const { userId } = req.body as z.infer<typeof getListingsByUserSchema>;
+
+    // Check if user exists
+    const user = await userModel.findOne(
+        { userId },
+        { userId: 1, username: 1, primaryEmail: 1, 'profile.firstName': 1, 'profile.lastName': 1 }
+    ).lean();
+
+    if (!user) throw new NotFoundError("User not found");
+
+    // Get user's listings
+    const listings = await listingModel.find({ ownerUserId: userId }).lean();
 
-        // Get user's listings
-        const listings = await listingModel.find({ ownerUserId: userId }).lean();
-
-        res.json({
-            success: true,
-            user,
-            listings
-        });
-    } catch (error) {
-        logger.error("Error fetching user listings:", error);
-        res.status(500).json({
-            success: false,
-            error: "Internal Server Error",
-            message: "Failed to fetch user listings"
-        });
-    }
+    res.json({
+        success: true,
+        user,
+        listings
+    });
 });
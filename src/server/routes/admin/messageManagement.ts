@@ -1,9 +1,11 @@
 import { z } from "zod";
 import { Route } from "../../package";
+import { NotFoundError } from "../../errors";
 import { userModel } from "../../../mongoose";
 import channelModel from "../../../mongoose/models/channel";
 import messageModel from "../../../mongoose/models/message";
 import { getLogger } from "../../../util/logger";
+import { deleteEntity } from "../../deletion";
 
 const logger = getLogger("ADMIN.MESSAGE_MANAGEMENT");
 
@@ -14,70 +16,61 @@ const getChannelsSchema = z.object({
     sort: z.enum(["asc", "desc"]).default("desc"),
 });
 
-new Route("GET:/api/admin/channels").auth({ type: "JWT" }).requireAdmin().expectQuery(getChannelsSchema).onCall(async (req, res) => {
-    try {
-        const { page, limit, sort } = req.body as z.infer<typeof getChannelsSchema>;
-
-        const skip = (page - 1) * limit;
-
-        // Fetch channels and total count
-        const [channels, totalCount] = await Promise.all([
-            channelModel.find({})
-                .sort({ createdAt: sort === "asc" ? 1 : -1 })
-                .skip(skip)
-                .limit(limit)
-                .lean(),
-            channelModel.countDocuments({})
-        ]);
-
-        // Get user data for channel participants
-        const allUserIds = [...new Set(channels.flatMap(channel => channel.ownerUserIds))];
-        const users = await userModel.find(
-            { userId: { $in: allUserIds } },
-            { userId: 1, username: 1, 'profile.firstName': 1, 'profile.lastName': 1 }
-        ).lean();
-
-        const userMap = new Map(users.map(user => [user.userId, user]));
-
-        // Get message counts for each channel
-        const channelIds = channels.map(channel => channel.channelId);
-        const messageCounts = await Promise.all(
-            channelIds.map(channelId =>
-                messageModel.countDocuments({ channelId }).then(count => ({ channelId, count }))
-            )
-        );
-
-        const messageCountMap = new Map(messageCounts.map(item => [item.channelId, item.count]));
-
-        // Combine channels with user and message data
-        const channelsWithData = channels.map(channel => ({
-            ...channel,
-            participants: channel.ownerUserIds.map(userId => userMap.get(userId)).filter(Boolean),
-            messageCount: messageCountMap.get(channel.channelId) || 0
-        }));
-
-        const totalPages = Math.ceil(totalCount / limit);
-
-        res.json({
-            success: true,
-            channels: channelsWithData,
-            pagination: {
-                page,
-                limit,
-                totalCount,
-                totalPages,
-                hasNextPage: page < totalPages,
-                hasPrevPage: page > 1
-            }
-        });
-    } catch (error) {
-        logger.error("Error fetching channels:", error);
-        res.status(500).json({
-            success: false,
-            error: "Internal Server Error",
-            message: "Failed to fetch channels"
-        });
-    }
+new Route("GET:/api/admin/channels").auth({ type: "JWT" }).requirePermission("messages.read").expectQuery(getChannelsSchema).onCall(async (req, res) => {
+    const { page, limit, sort } = req.body as z.infer<typeof getChannelsSchema>;
+
+    const skip = (page - 1) * limit;
+
+    // Fetch channels and total count
+    const [channels, totalCount] = await Promise.all([
+        channelModel.find({})
+            .sort({ createdAt: sort === "asc" ? 1 : -1 })
+            .skip(skip)
+            .limit(limit)
+            .lean(),
+        channelModel.countDocuments({})
+    ]);
+
+    // Get user data for channel participants
+    const allUserIds = [...new Set(channels.flatMap(channel => channel.ownerUserIds))];
+    const users = await userModel.find(
+        { userId: { $in: allUserIds } },
+        { userId: 1, username: 1, 'profile.firstName': 1, 'profile.lastName': 1 }
+    ).lean();
+
+    const userMap = new Map(users.map(user => [user.userId, user]));
+
+    // Get message counts for each channel
+    const channelIds = channels.map(channel => channel.channelId);
+    const messageCounts = await Promise.all(
+        channelIds.map(channelId =>
+            messageModel.countDocuments({ channelId }).then(count => ({ channelId, count }))
+        )
+    );
+
+    const messageCountMap = new Map(messageCounts.map(item => [item.channelId, item.count]));
+
+    // Combine channels with user and message data
+    const channelsWithData = channels.map(channel => ({
+        ...channel,
+        participants: channel.ownerUserIds.map(userId => userMap.get(userId)).filter(Boolean),
+        messageCount: messageCountMap.get(channel.channelId) || 0
+    }));
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+        success: true,
+        channels: channelsWithData,
+        pagination: {
+            page,
+            limit,
+            totalCount,
+            totalPages,
+            hasNextPage: page < totalPages,
+            hasPrevPage: page > 1
+        }
+    });
 });
 
 // Get messages from a specific channel
@@ -88,79 +81,64 @@ const getChannelMessagesSchema = z.object({
     sort: z.enum(["asc", "desc"]).default("desc"),
 });
 
-new Route("POST:/api/admin/channels/messages").auth({ type: "JWT" }).requireAdmin().expectBody(getChannelMessagesSchema).onCall(async (req, res) => {
-    try {
-        const { channelId, page, limit, sort } = req.body as z.infer<typeof getChannelMessagesSchema>;
-
-        // Check if channel exists
-        const channel = await channelModel.findOne({ channelId }).lean();
-        if (!channel) {
-            return res.status(404).json({
-                success: false,
-                error: "Not Found",
-                message: "Channel not found"
-            });
+new Route("POST:/api/admin/channels/messages").auth({ type: "JWT" }).requirePermission("messages.read").expectBody(getChannelMessagesSchema).onCall(async (req, res) => {
+    const { channelId, page, limit, sort } = req.body as z.infer<typeof getChannelMessagesSchema>;
+
+    // Check if channel exists
+    const channel = await channelModel.findOne({ channelId }).lean();
+    if (!channel) throw new NotFoundError("Channel not found");
+
+    const skip = (page - 1) * limit;
+
+    // Fetch messages and total count
+    const [messages, totalCount] = await Promise.all([
+        messageModel.find({ channelId })
+            .sort({ createdAt: sort === "asc" ? 1 : -1 })
+            .skip(skip)
+            .limit(limit)
+            .lean(),
+        messageModel.countDocuments({ channelId })
+    ]);
+
+    // Get user data for message senders
+    const senderIds = [...new Set(messages.map(message => message.senderUserId))];
+    const users = await userModel.find(
+        { userId: { $in: senderIds } },
+        { userId: 1, username: 1, 'profile.firstName': 1, 'profile.lastName': 1 }
+    ).lean();
+
+    const userMap = new Map(users.map(user => [user.userId, user]));
+
+    // Get channel participants
+    const participants = await userModel.find(
+        { userId: { $in: channel.ownerUserIds } },
+        { userId: 1, username: 1, 'profile.firstName': 1, 'profile.lastName': 1 }
+    ).lean();
+
+    // Combine messages with user data
+    const messagesWithUsers = messages.map(message => ({
+        ...message,
+        sender: userMap.get(message.senderUserId) || null
+    }));
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+        success: true,
+        channel: {
+            ...channel,
+            participants
+        },
+        messages: messagesWithUsers,
+        pagination: {
+            page,
+            limit,
+            totalCount,
+            totalPages,
+            hasNextPage: page < totalPages,
+            hasPrevPage: page > 1
         }
-
-        const skip = (page - 1) * limit;
-
-        // Fetch messages and total count
-        const [messages, totalCount] = await Promise.all([
-            messageModel.find({ channelId })
-                .sort({ createdAt: sort === "asc" ? 1 : -1 })
-                .skip(skip)
-                .limit(limit)
-                .lean(),
-            messageModel.countDocuments({ channelId })
-        ]);
-
-        // Get user data for message senders
-        const senderIds = [...new Set(messages.map(message => message.senderUserId))];
-        const users = await userModel.find(
-            { userId: { $in: senderIds } },
-            { userId: 1, username: 1, 'profile.firstName': 1, 'profile.lastName': 1 }
-        ).lean();
-
-        const userMap = new Map(users.map(user => [user.userId, user]));
-
-        // Get channel participants
-        const participants = await userModel.find(
-            { userId: { $in: channel.ownerUserIds } },
-            { userId: 1, username: 1, 'profile.firstName': 1, 'profile.lastName': 1 }
-        ).lean();
-
-        // Combine messages with user data
-        const messagesWithUsers = messages.map(message => ({
-            ...message,
-            sender: userMap.get(message.senderUserId) || null
-        }));
-
-        const totalPages = Math.ceil(totalCount / limit);
-
-        res.json({
-            success: true,
-            channel: {
-                ...channel,
-                participants
-            },
-            messages: messagesWithUsers,
-            pagination: {
-                page,
-                limit,
-                totalCount,
-                totalPages,
-                hasNextPage: page < totalPages,
-                hasPrevPage: page > 1
-            }
-        });
-    } catch (error) {
-        logger.error("Error fetching channel messages:", error);
-        res.status(500).json({
-            success: false,
-            error: "Internal Server Error",
-            message: "Failed to fetch channel messages"
-        });
-    }
+    });
 });
 
 // Delete a specific message
@@ -168,32 +146,18 @@ const deleteMessageSchema = z.object({
     messageId: z.string().min(1),
 });
 
-new Route("DELETE:/api/admin/messages/delete").auth({ type: "JWT" }).requireAdmin().expectBody(deleteMessageSchema).onCall(async (req, res) => {
-    try {
-        const { messageId } = req.body as z.infer<typeof deleteMessageSchema>;
-
-        const message = await messageModel.findOneAndDelete({ messageId });
-        if (!message) {
-            return res.status(404).json({
-                success: false,
-                error: "Not Found",
-                message: "Message not found"
-            });
-        }
+new Route("DELETE:/api/admin/messages/delete").auth({ type: "JWT" }).requirePermission("messages.delete").expectBody(deleteMessageSchema).onCall(async (req, res) => {
+    const { messageId } = req.body as z.infer<typeof deleteMessageSchema>;
 
-        logger.info(`Admin deleted message ${messageId}`);
-        res.json({
-            success: true,
-            message: "Message deleted successfully"
-        });
-    } catch (error) {
-        logger.error("Error deleting message:", error);
-        res.status(500).json({
-            success: false,
-            error: "Internal Server Error",
-            message: "Failed to delete message"
-        });
-    }
+    const deleted = await deleteEntity("message", messageId);
+    if (!deleted) throw new NotFoundError("Message not found");
+
+    logger.info(`Admin deleted message ${messageId}`);
+    res.json({
+        success: true,
+        message: "Message deleted successfully",
+        deleted
+    });
 });
 
 // Search messages across all channels
@@ -204,70 +168,61 @@ const searchMessagesSchema = z.object({
     sort: z.enum(["asc", "desc"]).default("desc"),
 });
 
-new Route("POST:/api/admin/messages/search").auth({ type: "JWT" }).requireAdmin().expectBody(searchMessagesSchema).onCall(async (req, res) => {
-    try {
-        const { query, page, limit, sort } = req.body as z.infer<typeof searchMessagesSchema>;
-
-        const skip = (page - 1) * limit;
-        const searchQuery = { content: { $regex: query, $options: 'i' } };
-
-        const [messages, totalCount] = await Promise.all([
-            messageModel.find(searchQuery)
-                .sort({ createdAt: sort === "asc" ? 1 : -1 })
-                .skip(skip)
-                .limit(limit)
-                .lean(),
-            messageModel.countDocuments(searchQuery)
-        ]);
-
-        // Get user data for message senders
-        const senderIds = [...new Set(messages.map(message => message.senderUserId))];
-        const users = await userModel.find(
-            { userId: { $in: senderIds } },
-            { userId: 1, username: 1, 'profile.firstName': 1, 'profile.lastName': 1 }
-        ).lean();
-
-        const userMap = new Map(users.map(user => [user.userId, user]));
-
-        // Get channel data
-        const channelIds = [...new Set(messages.map(message => message.channelId))];
-        const channels = await channelModel.find(
-            { channelId: { $in: channelIds } },
-            { channelId: 1, ownerUserIds: 1 }
-        ).lean();
-
-        const channelMap = new Map(channels.map(channel => [channel.channelId, channel]));
-
-        // Combine messages with user and channel data
-        const messagesWithData = messages.map(message => ({
-            ...message,
-            sender: userMap.get(message.senderUserId) || null,
-            channel: channelMap.get(message.channelId) || null
-        }));
-
-        const totalPages = Math.ceil(totalCount / limit);
-
-        res.json({
-            success: true,
-            messages: messagesWithData,
-            searchQuery: query,
-            pagination: {
-                page,
-                limit,
-                totalCount,
-                totalPages,
-                hasNextPage: page < totalPages,
-                hasPrevPage: page > 1
-            }
-        });
-    } catch (error) {
-        logger.error("Error searching messages:", error);
-        res.status(500).json({
-            success: false,
-            error: "Internal Server Error",
-            message: "Failed to search messages"
-        });
-    }
+new Route("POST:/api/admin/messages/search").auth({ type: "JWT" }).requirePermission("messages.read").expectBody(searchMessagesSchema).onCall(async (req, res) => {
+    const { query, page, limit, sort } = req.body as z.infer<typeof searchMessagesSchema>;
+
+    const skip = (page - 1) * limit;
+    const searchQuery = { content: { $regex: query, $options: 'i' } };
+
+    const [messages, totalCount] = await Promise.all([
+        messageModel.find(searchQuery)
+            .sort({ createdAt: sort === "asc" ? 1 : -1 })
+            .skip(skip)
+            .limit(limit)
+            .lean(),
+        messageModel.countDocuments(searchQuery)
+    ]);
+
+    // Get user data for message senders
+    const senderIds = [...new Set(messages.map(message => message.senderUserId))];
+    const users = await userModel.find(
+        { userId: { $in: senderIds } },
+        { userId: 1, username: 1, 'profile.firstName': 1, 'profile.lastName': 1 }
+    ).lean();
+
+    const userMap = new Map(users.map(user => [user.userId, user]));
+
+    // Get channel data
+    const channelIds = [...new Set(messages.map(message => message.channelId))];
+    const channels = await channelModel.find(
+        { channelId: { $in: channelIds } },
+        { channelId: 1, ownerUserIds: 1 }
+    ).lean();
+
+    const channelMap = new Map(channels.map(channel => [channel.channelId, channel]));
+
+    // Combine messages with user and channel data
+    const messagesWithData = messages.map(message => ({
+        ...message,
+        sender: userMap.get(message.senderUserId) || null,
+        channel: channelMap.get(message.channelId) || null
+    }));
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+        success: true,
+        messages: messagesWithData,
+        searchQuery: query,
+        pagination: {
+            page,
+            limit,
+            totalCount,
+            totalPages,
+            hasNextPage: page < totalPages,
+            hasPrevPage: page > 1
+        }
+    });
 });
 
 // Search messages across all channels (GET version as documented)
@@ -278,70 +233,61 @@ const searchMessagesQuerySchema = z.object({
     sort: z.enum(["asc", "desc"]).default("desc"),
 });
 
-new Route("GET:/api/admin/messages/search").auth({ type: "JWT" }).requireAdmin().expectQuery(searchMessagesQuerySchema).onCall(async (req, res) => {
-    try {
-        const { query, page, limit, sort } = req.body as z.infer<typeof searchMessagesQuerySchema>;
-
-        const skip = (page - 1) * limit;
-        const searchQuery = { content: { $regex: query, $options: 'i' } };
-
-        const [messages, totalCount] = await Promise.all([
-            messageModel.find(searchQuery)
-                .sort({ createdAt: sort === "asc" ? 1 : -1 })
-                .skip(skip)
-                .limit(limit)
-                .lean(),
-            messageModel.countDocuments(searchQuery)
-        ]);
-
-        // Get user data for message senders
-        const senderIds = [...new Set(messages.map(message => message.senderUserId))];
-        const users = await userModel.find(
-            { userId: { $in: senderIds } },
-            { userId: 1, username: 1, 'profile.firstName': 1, 'profile.lastName': 1 }
-        ).lean();
-
-        const userMap = new Map(users.map(user => [user.userId, user]));
-
-        // Get channel data
-        const channelIds = [...new Set(messages.map(message => message.channelId))];
-        const channels = await channelModel.find(
-            { channelId: { $in: channelIds } },
-            { channelId: 1, ownerUserIds: 1 }
-        ).lean();
-
-        const channelMap = new Map(channels.map(channel => [channel.channelId, channel]));
-
-        // Combine messages with user and channel data
-        const messagesWithData = messages.map(message => ({
-            ...message,
-            sender: userMap.get(message.senderUserId) || null,
-            channel: channelMap.get(message.channelId) || null
-        }));
-
-        const totalPages = Math.ceil(totalCount / limit);
-
-        res.json({
-            success: true,
-            messages: messagesWithData,
-            searchQuery: query,
-            pagination: {
-                page,
-                limit,
-                totalCount,
-                totalPages,
-                hasNextPage: page < totalPages,
-                hasPrevPage: page > 1
-            }
-        });
-    } catch (error) {
-        logger.error("Error searching messages:", error);
-        res.status(500).json({
-            success: false,
-            error: "Internal Server Error",
-            message: "Failed to search messages"
-        });
-    }
+new Route("GET:/api/admin/messages/search").auth({ type: "JWT" }).requirePermission("messages.read").expectQuery(searchMessagesQuerySchema).onCall(async (req, res) => {
+    const { query, page, limit, sort } = req.body as z.infer<typeof searchMessagesQuerySchema>;
+
+    const skip = (page - 1) * limit;
+    const searchQuery = { content: { $regex: query, $options: 'i' } };
+
+    const [messages, totalCount] = await Promise.all([
+        messageModel.find(searchQuery)
+            .sort({ createdAt: sort === "asc" ? 1 : -1 })
+            .skip(skip)
+            .limit(limit)
+            .lean(),
+        messageModel.countDocuments(searchQuery)
+    ]);
+
+    // Get user data for message senders
+    const senderIds = [...new Set(messages.map(message => message.senderUserId))];
+    const users = await userModel.find(
+        { userId: { $in: senderIds } },
+        { userId: 1, username: 1, 'profile.firstName': 1, 'profile.lastName': 1 }
+    ).lean();
+
+    const userMap = new Map(users.map(user => [user.userId, user]));
+
+    // Get channel data
+    const channelIds = [...new Set(messages.map(message => message.channelId))];
+    const channels = await channelModel.find(
+        { channelId: { $in: channelIds } },
+        { channelId: 1, ownerUserIds: 1 }
+    ).lean();
+
+    const channelMap = new Map(channels.map(channel => [channel.channelId, channel]));
+
+    // Combine messages with user and channel data
+    const messagesWithData = messages.map(message => ({
+        ...message,
+        sender: userMap.get(message.senderUserId) || null,
+        channel: channelMap.get(message.channelId) || null
+    }));
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+        success: true,
+        messages: messagesWithData,
+        searchQuery: query,
+        pagination: {
+            page,
+            limit,
+            totalCount,
+            totalPages,
+            hasNextPage: page < totalPages,
+            hasPrevPage: page > 1
+        }
+    });
 });
 
 // Get messages by user across all channels
@@ -352,74 +298,59 @@ const getUserMessagesSchema = z.object({
     sort: z.enum(["asc", "desc"]).default("desc"),
 });
 
-new Route("POST:/api/admin/messages/user").auth({ type: "JWT" }).requireAdmin().expectBody(getUserMessagesSchema).onCall(async (req, res) => {
-    try {
-        const { userId, page, limit, sort } = req.body as z.infer<typeof getUserMessagesSchema>;
-
-        // Check if user exists
-        const user = await userModel.findOne(
-            { userId },
-            { userId: 1, username: 1, 'profile.firstName': 1, 'profile.lastName': 1 }
-        ).lean();
-
-        if (!user) {
-            return res.status(404).json({
-                success: false,
-                error: "Not Found",
-                message: "User not found"
-            });
+new Route("POST:/api/admin/messages/user").auth({ type: "JWT" }).requirePermission("messages.read").expectBody(getUserMessagesSchema).onCall(async (req, res) => {
+    const { userId, page, limit, sort } = req.body as z.infer<typeof getUserMessagesSchema>;
+
+    // Check if user exists
+    const user = await userModel.findOne(
+        { userId },
+        { userId: 1, username: 1, 'profile.firstName': 1, 'profile.lastName': 1 }
+    ).lean();
+
+    if (!user) throw new NotFoundError("User not found");
+
+    const skip = (page - 1) * limit;
+
+    // Fetch user's messages and total count
+    const [messages, totalCount] = await Promise.all([
+        messageModel.find({ senderUserId: userId })
+            .sort({ createdAt: sort === "asc" ? 1 : -1 })
+            .skip(skip)
+            .limit(limit)
+            .lean(),
+        messageModel.countDocuments({ senderUserId: userId })
+    ]);
+
+    // Get channel data
+    const channelIds = [...new Set(messages.map(message => message.channelId))];
+    const channels = await channelModel.find(
+        { channelId: { $in: channelIds } },
+        { channelId: 1, ownerUserIds: 1 }
+    ).lean();
+
+    const channelMap = new Map(channels.map(channel => [channel.channelId, channel]));
+
+    // Combine messages with channel data
+    const messagesWithChannels = messages.map(message => ({
+        ...message,
+        channel: channelMap.get(message.channelId) || null
+    }));
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+        success: true,
+        user,
+        messages: messagesWithChannels,
+        pagination: {
+            page,
+            limit,
+            totalCount,
+            totalPages,
+            hasNextPage: page < totalPages,
+            hasPrevPage: page > 1
         }
-
-        const skip = (page - 1) * limit;
-
-        // Fetch user's messages and total count
-        const [messages, totalCount] = await Promise.all([
-            messageModel.find({ senderUserId: userId })
-                .sort({ createdAt: sort === "asc" ? 1 : -1 })
-                .skip(skip)
-                .limit(limit)
-                .lean(),
-            messageModel.countDocuments({ senderUserId: userId })
-        ]);
-
-        // Get channel data
-        const channelIds = [...new Set(messages.map(message => message.channelId))];
-        const channels = await channelModel.find(
-            { channelId: { $in: channelIds } },
-            { channelId: 1, ownerUserIds: 1 }
-        ).lean();
-
-        const channelMap = new Map(channels.map(channel => [channel.channelId, channel]));
-
-        // Combine messages with channel data
-        const messagesWithChannels = messages.map(message => ({
-            ...message,
-            channel: channelMap.get(message.channelId) || null
-        }));
-
-        const totalPages = Math.ceil(totalCount / limit);
-
-        res.json({
-            success: true,
-            user,
-            messages: messagesWithChannels,
-            pagination: {
-                page,
-                limit,
-                totalCount,
-                totalPages,
-                hasNextPage: page < totalPages,
-                hasPrevPage: page > 1
-            }
-        });
-    } catch (error) {
-        logger.error("Error fetching user messages:", error);
-        res.status(500).json({
-            success: false,
-            error: "Internal Server Error",
-            message: "Failed to fetch user messages"
-        });
-    }
+    });
 });
 
 // Get all messages by all users across all channels
@@ -429,67 +360,58 @@ const getAllMessagesSchema = z.object({
     sort: z.enum(["asc", "desc"]).default("desc"),
 });
 
-new Route("GET:/api/admin/messages").auth({ type: "JWT" }).requireAdmin().expectQuery(getAllMessagesSchema).onCall(async (req, res) => {
-    try {
-        const { page, limit, sort } = req.body as z.infer<typeof getAllMessagesSchema>;
-
-        const skip = (page - 1) * limit;
-
-        // Fetch all messages and total count
-        const [messages, totalCount] = await Promise.all([
-            messageModel.find({})
-                .sort({ createdAt: sort === "asc" ? 1 : -1 })
-                .skip(skip)
-                .limit(limit)
-                .lean(),
-            messageModel.countDocuments({})
-        ]);
-
-        // Get user data for message senders
-        const senderIds = [...new Set(messages.map(message => message.senderUserId))];
-        const users = await userModel.find(
-            { userId: { $in: senderIds } },
-            { userId: 1, username: 1, 'profile.firstName': 1, 'profile.lastName': 1 }
-        ).lean();
-
-        const userMap = new Map(users.map(user => [user.userId, user]));
-
-        // Get channel data
-        const channelIds = [...new Set(messages.map(message => message.channelId))];
-        const channels = await channelModel.find(
-            { channelId: { $in: channelIds } },
-            { channelId: 1, ownerUserIds: 1 }
-        ).lean();
-
-        const channelMap = new Map(channels.map(channel => [channel.channelId, channel]));
-
-        // Combine messages with user and channel data
-        const messagesWithData = messages.map(message => ({
-            ...message,
-            sender: userMap.get(message.senderUserId) || null,
-            channel: channelMap.get(message.channelId) || null
-        }));
-
-        const totalPages = Math.ceil(totalCount / limit);
-
-        res.json({
-            success: true,
-            messages: messagesWithData,
-            pagination: {
-                page,
-                limit,
-                totalCount,
-                totalPages,
-                hasNextPage: page < totalPages,
-                hasPrevPage: page > 1
-            }
-        });
-    } catch (error) {
-        logger.error("Error fetching all messages:", error);
-        res.status(500).json({
-            success: false,
-            error: "Internal Server Error",
-            message: "Failed to fetch all messages"
-        });
-    }
+new Route("GET:/api/admin/messages").auth({ type: "JWT" }).requirePermission("messages.read").expectQuery(getAllMessagesSchema).onCall(async (req, res) => {
+    const { page, limit, sort } = req.body as z.infer<typeof getAllMessagesSchema>;
+
+    const skip = (page - 1) * limit;
+
+    // Fetch all messages and total count
+    const [messages, totalCount] = await Promise.all([
+        messageModel.find({})
+            .sort({ createdAt: sort === "asc" ? 1 : -1 })
+            .skip(skip)
+            .limit(limit)
+            .lean(),
+        messageModel.countDocuments({})
+    ]);
+
+    // Get user data for message senders
+    const senderIds = [...new Set(messages.map(message => message.senderUserId))];
+    const users = await userModel.find(
+        { userId: { $in: senderIds } },
+        { userId: 1, username: 1, 'profile.firstName': 1, 'profile.lastName': 1 }
+    ).lean();
+
+    const userMap = new Map(users.map(user => [user.userId, user]));
+
+    // Get channel data
+    const channelIds = [...new Set(messages.map(message => message.channelId))];
+    const channels = await channelModel.find(
+        { channelId: { $in: channelIds } },
+        { channelId: 1, ownerUserIds: 1 }
+    ).lean();
+
+    const channelMap = new Map(channels.map(channel => [channel.channelId, channel]));
+
+    // Combine messages with user and channel data
+    const messagesWithData = messages.map(message => ({
+        ...message,
+        sender: userMap.get(message.senderUserId) || null,
+        channel: channelMap.get(message.channelId) || null
+    }));
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+        success: true,
+        messages: messagesWithData,
+        pagination: {
+            page,
+            limit,
+            totalCount,
+            totalPages,
+            hasNextPage: page < totalPages,
+            hasPrevPage: page > 1
+        }
+    });
 });
\ No newline at end of file
@@ -0,0 +1,204 @@
+import { z } from "zod";
+import { Route } from "../../package";
+import { BadRequestError, ForbiddenError, NotFoundError } from "../../errors";
+import { userModel } from "../../../mongoose";
+import listingModel from "../../../mongoose/models/listing";
+import messageModel from "../../../mongoose/models/message";
+import reportModel, { REPORT_CATEGORIES, REPORT_STATUSES, REPORT_TARGET_TYPES, ReportInterface } from "../../../mongoose/models/report";
+import { getLogger } from "../../../util/logger";
+import { moderationService } from "../../auth/moderation";
+import { hasPermissionById, Permission } from "../../auth/permissions";
+import { deleteEntity } from "../../deletion";
+
+const logger = getLogger("ADMIN.REPORTS");
+
+// Get the report queue, oldest first so nothing is left waiting
+const getReportsSchema = z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    status: z.enum(REPORT_STATUSES).optional(),
+    targetType: z.enum(REPORT_TARGET_TYPES).optional(),
+    category: z.enum(REPORT_CATEGORIES).optional(),
+    assignedTo: z.string().optional(),
+    targetUserId: z.string().optional(),
+    sort: z.enum(["asc", "desc"]).default("asc"),
+});
+
+new Route("GET:/api/admin/reports").describe({ summary: "Get the report queue" }).auth({ type: "JWT" }).requirePermission("reports.read").expectQuery(getReportsSchema).onCall(async (req, res) => {
+    const { page, limit, status, targetType, category, assignedTo, targetUserId, sort } = req.body as z.infer<typeof getReportsSchema>;
+
+    // Build filter query, unresolved reports by default
+    const query: any = { status: status || { $in: ["open", "triaged"] } };
+    if (targetType) query.targetType = targetType;
+    if (category) query.category = category;
+    if (assignedTo) query.assignedTo = assignedTo;
+    if (targetUserId) query.targetUserId = targetUserId;
+
+    const skip = (page - 1) * limit;
+
+    const [reports, totalCount] = await Promise.all([
+        reportModel.find(query, { _id: 0, __v: 0 })
+            .sort({ createdAt: sort === "asc" ? 1 : -1 })
+            .skip(skip)
+            .limit(limit)
+            .lean(),
+        reportModel.countDocuments(query)
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+        success: true,
+        reports,
+        pagination: {
+            page,
+            limit,
+            totalCount,
+            totalPages,
+            hasNextPage: page < totalPages,
+            hasPrevPage: page > 1
+        }
+    });
+});
+
+// Get a report together with the reported entity
+const reportParamsSchema = z.object({
+    reportId: z.string().min(1),
+});
+
+/** Find the entity a report is about, null if it has been deleted since */
+async function findReportTarget(report: Pick<ReportInterface, "targetType" | "targetId">) {
+    switch (report.targetType) {
+        case "user": return await userModel.findOne({ userId: report.targetId }, { passwordHash: 0, emailVerification: 0 }).lean();
+        case "listing": return await listingModel.findOne({ listingId: report.targetId }).lean();
+        case "message": return await messageModel.findOne({ messageId: report.targetId }).lean();
+    }
+}
+
+new Route("GET:/api/admin/reports/:reportId").describe({ summary: "Get a report and the reported entity" }).auth({ type: "JWT" }).requirePermission("reports.read").expectParams(reportParamsSchema).onCall(async (req, res) => {
+    const { reportId } = req.params as z.infer<typeof reportParamsSchema>;
+
+    const report = await reportModel.findOne({ reportId }, { _id: 0, __v: 0 }).lean();
+    if (!report) throw new NotFoundError("Report not found");
+
+    const [target, relatedReports] = await Promise.all([
+        findReportTarget(report),
+        reportModel.countDocuments({ targetUserId: report.targetUserId, reportId: { $ne: reportId } }),
+    ]);
+
+    res.json({
+        success: true,
+        report,
+        target,
+        relatedReports, // Other reports against the same user, so repeat offenders stand out
+    });
+});
+
+// Assign a report to a staff member
+const assignReportSchema = z.object({
+    assigneeUserId: z.string().min(1).optional(), // Defaults to the current user
+});
+
+new Route("POST:/api/admin/reports/:reportId/assign").describe({ summary: "Assign a report to a staff member, marking it as triaged" }).auth({ type: "JWT" }).requirePermission("reports.manage").expectParams(reportParamsSchema).expectBody(assignReportSchema).onCall(async (req, res) => {
+    const { reportId } = req.params as z.infer<typeof reportParamsSchema>;
+    const { assigneeUserId = req.user.userId } = req.body as z.infer<typeof assignReportSchema>;
+
+    if (!await hasPermissionById(assigneeUserId, "reports.manage")) throw new BadRequestError("Reports can only be assigned to staff who can handle them");
+
+    const report = await reportModel.findOneAndUpdate(
+        { reportId, status: { $in: ["open", "triaged"] } },
+        { $set: { assignedTo: assigneeUserId, status: "triaged" } },
+        { new: true, projection: { _id: 0, __v: 0 } },
+    ).lean();
+    if (!report) throw new NotFoundError("Report not found or already resolved");
+
+    logger.info(`User ${req.user.userId} assigned report ${reportId} to ${assigneeUserId}`);
+    res.json({
+        success: true,
+        message: "Report assigned successfully",
+        report
+    });
+});
+
+// Resolve a report without taking action through the queue (e.g. dismissed, or actioned by other means)
+const resolveReportSchema = z.object({
+    status: z.enum(["actioned", "dismissed"]),
+    note: z.string().max(1000).optional(),
+});
+
+new Route("POST:/api/admin/reports/:reportId/resolve").describe({ summary: "Resolve a report with a note" }).auth({ type: "JWT" }).requirePermission("reports.manage").expectParams(reportParamsSchema).expectBody(resolveReportSchema).onCall(async (req, res) => {
+    const { reportId } = req.params as z.infer<typeof reportParamsSchema>;
+    const { status, note } = req.body as z.infer<typeof resolveReportSchema>;
+
+    const report = await reportModel.findOneAndUpdate(
+        { reportId, status: { $in: ["open", "triaged"] } },
+        { $set: { status, resolution: { resolvedBy: req.user.userId, resolvedAt: new Date(), note } } },
+        { new: true, projection: { _id: 0, __v: 0 } },
+    ).lean();
+    if (!report) throw new NotFoundError("Report not found or already resolved");
+
+    logger.info(`User ${req.user.userId} resolved report ${reportId} as ${status}`);
+    res.json({
+        success: true,
+        message: "Report resolved successfully",
+        report
+    });
+});
+
+// Take a moderation action directly from a report
+const reportActionSchema = z.object({
+    action: z.enum(["ban", "mute", "jobListingBan", "delete"]),
+    reason: z.string().min(1).max(500),
+    duration: z.number().positive().optional(), // Duration in hours, if not provided it's permanent. Ignored for deletions
+    note: z.string().max(1000).optional(),
+});
+
+/** Permission needed for each action, deletions depend on what was reported */
+const REPORT_ACTION_PERMISSIONS: Record<Exclude<z.infer<typeof reportActionSchema>["action"], "delete">, Permission> = {
+    ban: "moderation.ban",
+    mute: "moderation.mute",
+    jobListingBan: "moderation.listingBan",
+};
+
+const REPORT_DELETE_PERMISSIONS: Record<ReportInterface["targetType"], Permission> = {
+    user: "users.delete",
+    listing: "listings.delete",
+    message: "messages.delete",
+};
+
+new Route("POST:/api/admin/reports/:reportId/action").describe({ summary: "Ban, mute or delete the reported entity and resolve all open reports about it" }).auth({ type: "JWT" }).requirePermission("reports.manage").expectParams(reportParamsSchema).expectBody(reportActionSchema).onCall(async (req, res) => {
+    const { reportId } = req.params as z.infer<typeof reportParamsSchema>;
+    const { action, reason, duration, note } = req.body as z.infer<typeof reportActionSchema>;
+
+    const report = await reportModel.findOne({ reportId }).lean();
+    if (!report) throw new NotFoundError("Report not found");
+    if (report.status === "actioned" || report.status === "dismissed") throw new BadRequestError("Report has already been resolved");
+
+    // The action itself needs its own permission, handling reports alone isn't enough
+    const permission = action === "delete" ? REPORT_DELETE_PERMISSIONS[report.targetType] : REPORT_ACTION_PERMISSIONS[action];
+    if (!await hasPermissionById(req.user.userId, permission)) {
+        throw new ForbiddenError("You don't have permission to do this.", { requiredPermissions: [permission] });
+    }
+
+    // Every unresolved report about the same entity is handled by this action
+    const openReports = await reportModel.find({ targetType: report.targetType, targetId: report.targetId, status: { $in: ["open", "triaged"] } }, { reportId: 1 }).lean();
+    const reportIds = openReports.map(openReport => openReport.reportId);
+
+    if (action === "delete") {
+        const deleted = await deleteEntity(report.targetType, report.targetId);
+        if (!deleted) throw new NotFoundError(`Reported ${report.targetType} no longer exists`);
+    } else {
+        await moderationService.restrict(report.targetUserId, action, { issuedBy: req.user.userId, reason, duration, reportIds });
+    }
+
+    await reportModel.updateMany({ reportId: { $in: reportIds } }, {
+        $set: { status: "actioned", resolution: { resolvedBy: req.user.userId, resolvedAt: new Date(), note: note || reason, action } },
+    });
+
+    logger.info(`User ${req.user.userId} took action ${action} on ${report.targetType} ${report.targetId} from report ${reportId}, resolving ${reportIds.length} reports`);
+    res.json({
+        success: true,
+        message: `Action ${action} taken successfully`,
+        resolvedReportIds: reportIds
+    });
+});
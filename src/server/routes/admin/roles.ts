@@ -0,0 +1,89 @@
+import { z } from "zod";
+import { Route } from "../../package";
+import { BadRequestError, NotFoundError } from "../../errors";
+import { userModel } from "../../../mongoose";
+import { getLogger } from "../../../util/logger";
+import { getPermissions, isSuperAdmin, ROLE_NAMES, ROLES } from "../../auth/permissions";
+
+const logger = getLogger("ADMIN.ROLES");
+
+// List all roles and what they're allowed to do
+new Route("GET:/api/admin/roles").auth({ type: "JWT" }).requirePermission("users.read").onCall(async (req, res) => {
+    res.json({
+        success: true,
+        roles: ROLE_NAMES.map(name => ({ name, permissions: ROLES[name] })),
+    });
+});
+
+// List all users with a staff role
+new Route("GET:/api/admin/staff").auth({ type: "JWT" }).requirePermission("users.read").onCall(async (req, res) => {
+    const users = await userModel.find({ "roles.0": { $exists: true } }, { userId: 1, username: 1, roles: 1, profile: 1 }).lean();
+
+    res.json({
+        success: true,
+        users,
+        superAdminUserIds: users.filter(user => isSuperAdmin(user.userId)).map(user => user.userId),
+    });
+});
+
+// Get the roles of a user
+const userRolesParamsSchema = z.object({
+    userId: z.string().min(1),
+});
+
+new Route("GET:/api/admin/users/:userId/roles").auth({ type: "JWT" }).requirePermission("users.read").expectParams(userRolesParamsSchema).onCall(async (req, res) => {
+    const { userId } = req.params as z.infer<typeof userRolesParamsSchema>;
+
+    const user = await userModel.findOne({ userId }, { userId: 1, roles: 1 }).lean();
+    if (!user) throw new NotFoundError("User not found");
+
+    res.json({
+        success: true,
+        userId,
+        roles: user.roles || [],
+        permissions: getPermissions(user),
+        isSuperAdmin: isSuperAdmin(userId),
+    });
+});
+
+// Grant a role
+const grantRoleSchema = z.object({
+    role: z.enum(ROLE_NAMES as [string, ...string[]]),
+});
+
+new Route("POST:/api/admin/users/:userId/roles").auth({ type: "JWT" }).requirePermission("roles.manage").audit({ action: "roles.grant" }).expectParams(userRolesParamsSchema).expectBody(grantRoleSchema).onCall(async (req, res) => {
+    const { userId } = req.params as z.infer<typeof userRolesParamsSchema>;
+    const { role } = req.body as z.infer<typeof grantRoleSchema>;
+
+    const user = await userModel.findOneAndUpdate({ userId }, { $addToSet: { roles: role } }, { new: true, projection: { userId: 1, roles: 1 } }).lean();
+    if (!user) throw new NotFoundError("User not found");
+
+    logger.info(`User ${req.user.userId} granted role ${role} to user ${userId}`);
+    res.json({
+        success: true,
+        message: `Role ${role} granted successfully`,
+        roles: user.roles || [],
+    });
+});
+
+// Revoke a role
+const revokeRoleParamsSchema = userRolesParamsSchema.extend({
+    role: z.enum(ROLE_NAMES as [string, ...string[]]),
+});
+
+new Route("DELETE:/api/admin/users/:userId/roles/:role").auth({ type: "JWT" }).requirePermission("roles.manage").audit({ action: "roles.revoke" }).expectParams(revokeRoleParamsSchema).onCall(async (req, res) => {
+    const { userId, role } = req.params as z.infer<typeof revokeRoleParamsSchema>;
+
+    // Stop admins from accidentally locking themselves out, another admin has to do it
+    if (userId === req.user.userId && role === "admin" && !isSuperAdmin(userId)) throw new BadRequestError("You can't revoke your own admin role");
+
+    const user = await userModel.findOneAndUpdate({ userId }, { $pull: { roles: role } }, { new: true, projection: { userId: 1, roles: 1 } }).lean();
+    if (!user) throw new NotFoundError("User not found");
+
+    logger.info(`User ${req.user.userId} revoked role ${role} from user ${userId}`);
+    res.json({
+        success: true,
+        message: `Role ${role} revoked successfully`,
+        roles: user.roles || [],
+    });
+});
@@ -1,7 +1,14 @@
+import { Response } from "express";
 import { z } from "zod";
 import { Route } from "../../package";
+import { ConflictError, NotFoundError } from "../../errors";
 import { userModel, UserInterface } from "../../../mongoose";
 import { getLogger } from "../../../util/logger";
+import { getLockoutStates, unlockAccount } from "../../auth/login_protection";
+import { revokeOneTimeTokens } from "../../auth/one_time_token";
+import { issueEmailVerification } from "../../auth/email_verification";
+import { deleteEntity } from "../../deletion";
+import CONFIG from "../../../util/config";
 
 const logger = getLogger("ADMIN.USER_MANAGEMENT");
 
@@ -14,56 +21,48 @@ const getUsersSchema = z.object({
     sortBy: z.enum(["createdAt", "updatedAt", "username", "primaryEmail"]).default("createdAt"),
 });
 
-new Route("GET:/api/admin/users").auth({ type: "JWT" }).requireAdmin().expectQuery(getUsersSchema).onCall(async (req, res) => {
-    try {
-        const { page, limit, search, sort, sortBy } = req.body as z.infer<typeof getUsersSchema>;
-
-        // Build search query
-        const query: any = {};
-        if (search) {
-            query.$or = [
-                { username: { $regex: search, $options: 'i' } },
-                { primaryEmail: { $regex: search, $options: 'i' } },
-                { 'profile.firstName': { $regex: search, $options: 'i' } },
-                { 'profile.lastName': { $regex: search, $options: 'i' } }
-            ];
-        }
-        const skip = (page - 1) * limit;
-        const sortObj: any = {};
-        sortObj[sortBy] = sort === "asc" ? 1 : -1;
-
-        // Fetch users and total count
-        const [users, totalCount] = await Promise.all([
-            userModel.find(query, { passwordHash: 0 })
-                .sort(sortObj)
-                .skip(skip)
-                .limit(limit)
-                .lean(),
-            userModel.countDocuments(query)
-        ]);
-
-        const totalPages = Math.ceil(totalCount / limit);
-
-        res.json({
-            success: true,
-            users,
-            pagination: {
-                page,
-                limit,
-                totalCount,
-                totalPages,
-                hasNextPage: page < totalPages,
-                hasPrevPage: page > 1
-            }
-        });
-    } catch (error) {
-        logger.error("Error fetching users:", error);
-        res.status(500).json({
-            success: false,
-            error: "Internal Server Error",
-            message: "Failed to fetch users"
-        });
+new Route("GET:/api/admin/users").auth({ type: "JWT" }).requirePermission("users.read").expectQuery(getUsersSchema).onCall(async (req, res) => {
+    const { page, limit, search, sort, sortBy } = req.body as z.infer<typeof getUsersSchema>;
+
+    // Build search query
+    const query: any = {};
+    if (search) {
+        query.$or = [
+            { username: { $regex: search, $options: 'i' } },
+            { primaryEmail: { $regex: search, $options: 'i' } },
+            { 'profile.firstName': { $regex: search, $options: 'i' } },
+            { 'profile.lastName': { $regex: search, $options: 'i' } }
+        ];
     }
+    const skip = (page - 1) * limit;
+    const sortObj: any = {};
+    sortObj[sortBy] = sort === "asc" ? 1 : -1;
+
+    // Fetch users and total count
+    const [users, totalCount] = await Promise.all([
+        userModel.find(query, { passwordHash: 0 })
+            .sort(sortObj)
+            .skip(skip)
+            .limit(limit)
+            .lean(),
+        userModel.countDocuments(query)
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limit);
+    const lockouts = await getLockoutStates(users.map(user => user.userId));
+
+    res.json({
+        success: true,
+        users: users.map(user => ({ ...user, lockout: lockouts.get(user.userId) || null })),
+        pagination: {
+            page,
+            limit,
+            totalCount,
+            totalPages,
+            hasNextPage: page < totalPages,
+            hasPrevPage: page > 1
+        }
+    });
 });
 
 // Get specific user details
@@ -71,31 +70,41 @@ const getUserByIdSchema = z.object({
     userId: z.string().min(1),
 });
 
-new Route("POST:/api/admin/users/get").auth({ type: "JWT" }).requireAdmin().expectBody(getUserByIdSchema).onCall(async (req, res) => {
-    try {
-        const { userId } = req.body as z.infer<typeof getUserByIdSchema>;
-
-        const user = await userModel.findOne({ userId }, { passwordHash: 0 }).lean();
-        if (!user) {
-            return res.status(404).json({
-                success: false,
-                error: "Not Found",
-                message: "User not found"
-            });
-        }
+async function sendUserById(userId: string, res: Response) {
+    const user = await userModel.findOne({ userId }, { passwordHash: 0 }).lean();
+    if (!user) throw new NotFoundError("User not found");
 
-        res.json({
-            success: true,
-            user
-        });
-    } catch (error) {
-        logger.error("Error fetching user:", error);
-        res.status(500).json({
-            success: false,
-            error: "Internal Server Error",
-            message: "Failed to fetch user"
-        });
-    }
+    const lockouts = await getLockoutStates([userId]);
+    res.json({
+        success: true,
+        user: { ...user, lockout: lockouts.get(userId) || null }
+    });
+}
+
+new Route("GET:/api/admin/users/:userId").auth({ type: "JWT" }).requirePermission("users.read").expectParams(getUserByIdSchema).onCall(async (req, res) => {
+    const { userId } = req.params as z.infer<typeof getUserByIdSchema>;
+    await sendUserById(userId, res);
+});
+
+new Route("POST:/api/admin/users/get").describe({ deprecated: true, description: "Use `GET /api/admin/users/{userId}` instead." }).auth({ type: "JWT" }).requirePermission("users.read").expectBody(getUserByIdSchema).onCall(async (req, res) => {
+    const { userId } = req.body as z.infer<typeof getUserByIdSchema>;
+    await sendUserById(userId, res);
+});
+
+// Unlock a user locked out after too many failed logins
+new Route("POST:/api/admin/users/:userId/unlock").describe({ summary: "Lift the login lockout of a user and forget their failed login attempts" }).auth({ type: "JWT" }).requirePermission("users.update").expectParams(getUserByIdSchema).onCall(async (req, res) => {
+    const { userId } = req.params as z.infer<typeof getUserByIdSchema>;
+
+    const user = await userModel.exists({ userId });
+    if (!user) throw new NotFoundError("User not found");
+
+    const unlocked = await unlockAccount(userId);
+
+    logger.info(`User ${req.user.userId} unlocked logins of user ${userId}`);
+    res.json({
+        success: true,
+        message: unlocked ? "User unlocked successfully" : "User had no failed login attempts",
+    });
 });
 
 // Update user details
@@ -112,49 +121,51 @@ const updateUserSchema = z.object({
     }).optional(),
 });
 
-new Route("PUT:/api/admin/users/update").auth({ type: "JWT" }).requireAdmin().expectBody(updateUserSchema).onCall(async (req, res) => {
-    try {
-        const { userId, ...updateData } = req.body as z.infer<typeof updateUserSchema>;
-
-        // Check if user exists
-        const user = await userModel.findOne({ userId });
-        if (!user) {
-            return res.status(404).json({
-                success: false,
-                error: "Not Found",
-                message: "User not found"
-            });
-        }
+new Route("PUT:/api/admin/users/update").auth({ type: "JWT" }).requirePermission("users.update").expectBody(updateUserSchema).onCall(async (req, res) => {
+    const { userId, ...updateData } = req.body as z.infer<typeof updateUserSchema>;
 
-        // Update user fields
-        if (updateData.username !== undefined) user.username = updateData.username;
-        if (updateData.primaryEmail !== undefined) user.primaryEmail = updateData.primaryEmail;
-        if (updateData.emailVerified !== undefined) user.emailVerified = updateData.emailVerified;
-
-        if (updateData.profile) {
-            if (updateData.profile.bio !== undefined) user.profile.bio = updateData.profile.bio;
-            if (updateData.profile.firstName !== undefined) user.profile.firstName = updateData.profile.firstName;
-            if (updateData.profile.lastName !== undefined) user.profile.lastName = updateData.profile.lastName;
-            if (updateData.profile.profilePicture !== undefined) user.profile.profilePicture = updateData.profile.profilePicture || undefined;
-            user.markModified('profile');
-        }
+    // Check if user exists
+    const user = await userModel.findOne({ userId });
+    if (!user) throw new NotFoundError("User not found");
+
+    // A new email has to be verified again, unless the admin explicitly marks it as verified
+    const emailChanged = updateData.primaryEmail !== undefined && updateData.primaryEmail !== user.primaryEmail;
+    if (emailChanged && await userModel.exists({ primaryEmail: updateData.primaryEmail, userId: { $ne: userId } })) {
+        throw new ConflictError("An account with this email already exists.", { fields: ["primaryEmail"] }, "Email Already Exists");
+    }
+
+    // Update user fields
+    if (updateData.username !== undefined) user.username = updateData.username;
+    if (emailChanged) {
+        user.primaryEmail = updateData.primaryEmail;
+        user.emailVerified = false;
+        user.pendingEmailChange = undefined;
+    }
+    if (updateData.emailVerified !== undefined) user.emailVerified = updateData.emailVerified;
+
+    if (updateData.profile) {
+        if (updateData.profile.bio !== undefined) user.profile.bio = updateData.profile.bio;
+        if (updateData.profile.firstName !== undefined) user.profile.firstName = updateData.profile.firstName;
+        if (updateData.profile.lastName !== undefined) user.profile.lastName = updateData.profile.lastName;
+        if (updateData.profile.profilePicture !== undefined) user.profile.profilePicture = updateData.profile.profilePicture || undefined;
+        user.markModified('profile');
+    }
 
-        await user.save();
-
-        logger.info(`Admin updated user ${userId}`);
-        res.json({
-            success: true,
-            message: "User updated successfully",
-            user: user.toObject()
-        });
-    } catch (error) {
-        logger.error("Error updating user:", error);
-        res.status(500).json({
-            success: false,
-            error: "Internal Server Error",
-            message: "Failed to update user"
-        });
+    await user.save();
+
+    if (emailChanged) {
+        await revokeOneTimeTokens(userId, "emailChange");
+        if (CONFIG.signUp.requireEmailVerification && !user.emailVerified) {
+            issueEmailVerification(user).catch(error => logger.error(`Failed to send email verification to user ${userId}:`, error));
+        }
     }
+
+    logger.info(`Admin updated user ${userId}`);
+    res.json({
+        success: true,
+        message: "User updated successfully",
+        user: user.toObject()
+    });
 });
 
 // Delete user
@@ -162,30 +173,17 @@ const deleteUserSchema = z.object({
     userId: z.string().min(1),
 });
 
-new Route("DELETE:/api/admin/users/delete").auth({ type: "JWT" }).requireAdmin().expectBody(deleteUserSchema).onCall(async (req, res) => {
-    try {
-        const { userId } = req.body as z.infer<typeof deleteUserSchema>;
-
-        const user = await userModel.findOneAndDelete({ userId });
-        if (!user) {
-            return res.status(404).json({
-                success: false,
-                error: "Not Found",
-                message: "User not found"
-            });
-        }
+new Route("DELETE:/api/admin/users/delete").auth({ type: "JWT" }).requirePermission("users.delete").expectBody(deleteUserSchema).onCall(async (req, res) => {
+    const { userId } = req.body as z.infer<typeof deleteUserSchema>;
 
-        logger.info(`Admin deleted user ${userId}`);
-        res.json({
-            success: true,
-            message: "User deleted successfully"
-        });
-    } catch (error) {
-        logger.error("Error deleting user:", error);
-        res.status(500).json({
-            success: false,
-            error: "Internal Server Error",
-            message: "Failed to delete user"
-        });
-    }
+    // Deletes right away, the grace period only applies to users deleting their own account
+    const deleted = await deleteEntity("user", userId);
+    if (!deleted) throw new NotFoundError("User not found");
+
+    logger.info(`Admin deleted user ${userId}`);
+    res.json({
+        success: true,
+        message: "User deleted successfully",
+        deleted
+    });
 });
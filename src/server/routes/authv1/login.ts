@@ -1,92 +1,79 @@
-import { userModel } from "../../../mongoose";
-import CONFIG from "../../../util/config";
 import { getLogger } from "../../../util/logger";
 import { Route } from "../../package";
-import bcrypt from "bcrypt";
-import { jwtService } from "../../auth/jwt";
+import { stime } from "../../../util/static";
+import { getSessionMetadata, jwtService } from "../../auth/jwt";
+import { authenticateCredentials } from "../../auth/credentials";
+import { completeTwoFactorChallenge, isTwoFactorEnabled, issueTwoFactorChallenge } from "../../auth/two_factor";
+import CONFIG from "../../../util/config";
 import { z } from "zod";
 
 const logger = getLogger("ROUTE.LOGIN");
 
-// HELPER FUNCTIONS
-
-async function verifyPassword(password: string, hash: string): Promise<boolean> {
-    return await bcrypt.compare(password, hash);
-}
-
-function isEmail(input: string): boolean {
-    return input.includes('@');
-}
-
 // LOGIN ROUTE
 
 const loginBodySchema = z.object({
     identifier: z.string()
-        .min(1, "Username or email is required"), // Can be either username or email
+        .min(1, "Username, email or phone number is required"), // Can be a username, email or phone number
     password: z.string()
         .min(1, "Password is required"),
 });
 
-new Route("POST:/api/authv1/login").expectBody(loginBodySchema).onCall(async (req, res) => {
+new Route("POST:/api/authv1/login").describe({ summary: "Log in with a username, email or phone number, sets the auth cookies or asks for a two-factor code" }).rateLimit({ window: stime.minute * 15, max: 10 }).expectBody(loginBodySchema).onCall(async (req, res) => {
     const { identifier, password } = req.body as z.infer<typeof loginBodySchema>;
 
-    // Quick checks
-    if (!CONFIG.login?.enabled) return res.status(403).json({ success: false, error: "Login Disabled", message: "Login is currently disabled on this server." });
-    if (!identifier) return res.status(400).json({ success: false, error: "Missing Credentials", message: "Username or email must be provided." });
+    const { user, identifierType } = await authenticateCredentials(identifier, password, req.ip);
 
-    try {
-        // Automatically detect if identifier is email or username
-        const isEmailIdentifier = isEmail(identifier);
-        const query = isEmailIdentifier
-            ? { primaryEmail: identifier }
-            : { username: identifier };
-
-        const user = await userModel.findOne(query);
-        if (!user) return res.status(401).json({ success: false, error: "Invalid Credentials", message: "Invalid username/email or password." });
+    // With two-factor authentication the password only gets the user to the second step
+    if (await isTwoFactorEnabled(user.userId)) {
+        const challengeToken = await issueTwoFactorChallenge(user.userId);
+        logger.info(`User ${user.userId} passed the first login step, waiting for two-factor code`);
+        res.status(200).json({
+            success: true,
+            message: "Enter the code from your authenticator app to finish logging in.",
+            twoFactorRequired: true,
+            challengeToken,
+            expiresIn: CONFIG.twoFactor.challengeExpiry / 1000,
+        });
+        return;
+    }
 
-        // Verify password
-        const isValidPassword = await verifyPassword(password, user.passwordHash); if (!isValidPassword) return res.status(401).json({ success: false, error: "Invalid Credentials", message: "Invalid username/email or password." });
+    // Generate JWT tokens
+    const tokens = await jwtService.generateTokens({ userId: user.userId }, getSessionMetadata(req));
+    await jwtService.setCookies(res, tokens.accessToken, tokens.refreshToken);
+
+    // Logging
+    logger.success(`User logged in: ${user.userId} (${user.primaryEmail})`, {
+        identifier,
+        identifierType
+    });
+
+    // Respond with success
+    res.status(200).json({
+        success: true,
+        message: "Login successful.",
+        userId: user.userId,
+    });
+});
 
-        // Check if banned (and not expired)
-        if (user.moderation?.ban?.isBanned && (!user.moderation.ban.unbannedAt || new Date(user.moderation.ban.unbannedAt) > new Date())) {
-            return res.status(403).json({
-                success: false,
-                error: "Forbidden",
-                message: "Login failed because your account was banned for: "
-                    + `\n\n${(user.moderation.ban.banReason || "An unspecified reason.")}`
-                    + `\n\n${user.moderation.ban.unbannedAt ? `You'll be unbanned at ${new Date(user.moderation.ban.unbannedAt).toLocaleString()}` : "This ban is permanent."}`,
-            });
-        }
+// TWO-FACTOR ROUTE
 
-        // Check if verified
-        if (CONFIG.signUp?.requireEmailVerification && !user.emailVerified) {
-            return res.status(403).json({
-                success: false,
-                error: "Email Not Verified",
-                message: "Please verify your email before logging in.",
-                emailVerificationRequired: true
-            });
-        }
+const twoFactorLoginSchema = z.object({
+    challengeToken: z.string().min(1, "Challenge token is required"),
+    code: z.string().min(1, "Code is required").max(20), // Code from the authenticator app or a recovery code
+});
 
-        // Generate JWT tokens
-        const tokens = await jwtService.generateTokens({ userId: user.userId });
-        await jwtService.setCookies(res, tokens.accessToken, tokens.refreshToken);
+new Route("POST:/api/authv1/login/2fa").describe({ summary: "Finish logging in with a code from the authenticator app or a recovery code, sets the auth cookies" }).rateLimit({ window: stime.minute * 15, max: 10 }).expectBody(twoFactorLoginSchema).onCall(async (req, res) => {
+    const { challengeToken, code } = req.body as z.infer<typeof twoFactorLoginSchema>;
 
-        // Logging
-        logger.success(`User logged in: ${user.userId} (${user.primaryEmail})`, {
-            identifier,
-            identifierType: isEmailIdentifier ? 'email' : 'username'
-        });
+    const { userId, method } = await completeTwoFactorChallenge(challengeToken, code, getSessionMetadata(req));
 
-        // Respond with success
-        res.status(200).json({
-            success: true,
-            message: "Login successful.",
-            userId: user.userId,
-        });
+    const tokens = await jwtService.generateTokens({ userId }, getSessionMetadata(req));
+    await jwtService.setCookies(res, tokens.accessToken, tokens.refreshToken);
 
-    } catch (error) {
-        logger.error(`Error during login: ${(error as Error).message || "Unknown Error"}`, { error });
-        res.status(500).json({ success: false, error: "Internal Server Error", message: "An error occurred during login." });
-    }
-});
\ No newline at end of file
+    logger.success(`User logged in with two-factor authentication: ${userId}`, { method });
+    res.status(200).json({
+        success: true,
+        message: "Login successful.",
+        userId,
+    });
+});
@@ -0,0 +1,100 @@
+import { userModel } from "../../../mongoose";
+import CONFIG from "../../../util/config";
+import { getLogger } from "../../../util/logger";
+import { Route } from "../../package";
+import { stime } from "../../../util/static";
+import { z } from "zod";
+import { queueEmail } from "../../../email/outbox";
+import { getSessionMetadata, jwtService } from "../../auth/jwt";
+import { assertCanLogIn } from "../../auth/credentials";
+import { consumeOneTimeToken, issueOneTimeToken } from "../../auth/one_time_token";
+import { isTwoFactorEnabled, issueTwoFactorChallenge } from "../../auth/two_factor";
+import { ApiError, ForbiddenError } from "../../errors";
+
+const logger = getLogger("ROUTE.MAGIC_LINK");
+
+// HELPER FUNCTIONS
+
+function assertMagicLinkEnabled() {
+    if (!CONFIG.login?.enabled) throw new ForbiddenError("Login is currently disabled on this server.", {}, "Login Disabled");
+    if (!CONFIG.login.magicLinkEnabled) throw new ForbiddenError("Logging in with an email link is disabled on this server.", {}, "Magic Link Disabled");
+}
+
+/** Send the browser back to the login page of the frontend with an error it can show */
+function loginErrorUri(error: string): string {
+    return `${CONFIG.domain.frontendUri}/login?error=${encodeURIComponent(error)}`;
+}
+
+// REQUEST ROUTE
+
+const magicLinkRequestSchema = z.object({
+    email: z.string().email("Invalid email format"),
+});
+
+new Route("POST:/api/authv1/magic-link").describe({ summary: "Request a login link by email, always succeeds so it can't be used to find out which emails are registered" }).rateLimit({ window: stime.hour, max: 5 }).expectBody(magicLinkRequestSchema).onCall(async (req, res) => {
+    const { email } = req.body as z.infer<typeof magicLinkRequestSchema>;
+    assertMagicLinkEnabled();
+
+    // Respond the same way whether the account exists or not, the email is sent in the background so timing doesn't give it away either
+    res.status(200).json({
+        success: true,
+        message: "If an account with this email exists, a login link has been sent to it.",
+    });
+
+    const user = await userModel.findOne({ primaryEmail: email }, { userId: 1, primaryEmail: 1, language: 1, profile: 1 }).lean();
+    if (!user) {
+        logger.debug(`Magic link requested for unknown email from IP: ${req.ip}`);
+        return;
+    }
+
+    try {
+        const token = await issueOneTimeToken(user.userId, "magicLink", CONFIG.login.magicLinkExpiry);
+        await queueEmail("magicLink", {
+            firstName: user.profile?.firstName || "there",
+            link: `${CONFIG.domain.backendUri}/api/authv1/magic-link/verify?token=${token}`,
+            expiresInMinutes: Math.round(CONFIG.login.magicLinkExpiry / stime.minute),
+        }, { to: email, userId: user.userId, language: user.language });
+        logger.info(`Magic link queued for user ${user.userId}`);
+    } catch (error) {
+        logger.error(`Failed to queue magic link to user ${user.userId}: ${(error as Error).message || "Unknown Error"}`);
+    }
+});
+
+// VERIFY ROUTE
+
+const magicLinkVerifySchema = z.object({
+    token: z.string().min(1, "Login token is required"),
+});
+
+new Route("GET:/api/authv1/magic-link/verify").describe({ summary: "Log in with the link from the email, sets the auth cookies and redirects to the frontend" }).rateLimit({ window: stime.minute * 15, max: 20 }).expectQuery(magicLinkVerifySchema).onCall(async (req, res) => {
+    const { token } = req.body as z.infer<typeof magicLinkVerifySchema>;
+
+    // The link is opened in a browser, so errors are shown by the frontend instead of as JSON
+    try {
+        assertMagicLinkEnabled();
+
+        const userId = await consumeOneTimeToken(token, "magicLink");
+        if (!userId) return res.redirect(loginErrorUri("This login link is invalid, has expired or was already used."));
+
+        const user = await userModel.findOne({ userId }, { userId: 1, primaryEmail: 1, moderation: 1, emailVerified: 1 }).lean();
+        if (!user) return res.redirect(loginErrorUri("This account no longer exists."));
+
+        assertCanLogIn(user);
+
+        // The link replaces the password, not the second factor
+        if (await isTwoFactorEnabled(user.userId)) {
+            const challengeToken = await issueTwoFactorChallenge(user.userId);
+            logger.info(`User ${user.userId} used a magic link, waiting for two-factor code`);
+            return res.redirect(`${CONFIG.domain.frontendUri}/login/2fa?challengeToken=${challengeToken}`);
+        }
+
+        const tokens = await jwtService.generateTokens({ userId: user.userId }, getSessionMetadata(req));
+        await jwtService.setCookies(res, tokens.accessToken, tokens.refreshToken);
+
+        logger.success(`User logged in with a magic link: ${user.userId} (${user.primaryEmail})`);
+        res.redirect(CONFIG.domain.frontendUri);
+    } catch (error) {
+        if (error instanceof ApiError) return res.redirect(loginErrorUri(error.message));
+        throw error;
+    }
+});
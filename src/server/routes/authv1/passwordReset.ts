@@ -0,0 +1,81 @@
+import { userModel } from "../../../mongoose";
+import CONFIG from "../../../util/config";
+import { getLogger } from "../../../util/logger";
+import { Route } from "../../package";
+import { stime } from "../../../util/static";
+import { z } from "zod";
+import { queueEmail } from "../../../email/outbox";
+import { jwtService } from "../../auth/jwt";
+import { hashPassword, passwordSchema } from "../../auth/password";
+import { consumeOneTimeToken, findOneTimeToken, issueOneTimeToken } from "../../auth/one_time_token";
+import { assertPasswordPolicy } from "../../auth/password_policy";
+import { BadRequestError } from "../../errors";
+
+const logger = getLogger("ROUTE.PASSWORD_RESET");
+
+// FORGOT PASSWORD ROUTE
+
+const forgotPasswordBodySchema = z.object({
+    email: z.string().email("Invalid email format"),
+});
+
+new Route("POST:/api/authv1/password/forgot").describe({ summary: "Request a password reset email, always succeeds so it can't be used to find out which emails are registered" }).rateLimit({ window: stime.hour, max: 5 }).expectBody(forgotPasswordBodySchema).onCall(async (req, res) => {
+    const { email } = req.body as z.infer<typeof forgotPasswordBodySchema>;
+
+    // Respond the same way whether the account exists or not, the email is sent in the background so timing doesn't give it away either
+    res.status(200).json({
+        success: true,
+        message: "If an account with this email exists, a password reset link has been sent to it.",
+    });
+
+    const user = await userModel.findOne({ primaryEmail: email }, { userId: 1, primaryEmail: 1, language: 1, profile: 1 }).lean();
+    if (!user) {
+        logger.debug(`Password reset requested for unknown email from IP: ${req.ip}`);
+        return;
+    }
+
+    try {
+        const token = await issueOneTimeToken(user.userId, "passwordReset", CONFIG.passwordReset.tokenExpiry);
+        await queueEmail("passwordReset", {
+            firstName: user.profile?.firstName || "there",
+            link: `${CONFIG.domain.frontendUri}/reset-password?token=${token}`,
+            expiresInMinutes: Math.round(CONFIG.passwordReset.tokenExpiry / stime.minute),
+        }, { to: email, userId: user.userId, language: user.language });
+        logger.info(`Password reset email queued for user ${user.userId}`);
+    } catch (error) {
+        logger.error(`Failed to queue password reset email to user ${user.userId}: ${(error as Error).message || "Unknown Error"}`);
+    }
+});
+
+// RESET PASSWORD ROUTE
+
+const resetPasswordBodySchema = z.object({
+    token: z.string().min(1, "Reset token is required"),
+    password: passwordSchema,
+});
+
+new Route("POST:/api/authv1/password/reset").describe({ summary: "Set a new password using a reset token, logs the user out everywhere" }).rateLimit({ window: stime.minute * 15, max: 10 }).expectBody(resetPasswordBodySchema).onCall(async (req, res) => {
+    const { token, password } = req.body as z.infer<typeof resetPasswordBodySchema>;
+
+    // Check the password before using up the token, so the user can try another one
+    const resetToken = await findOneTimeToken(token, "passwordReset");
+    if (!resetToken) throw new BadRequestError("This password reset link is invalid or has expired.", {}, "Invalid Reset Token");
+
+    const user = await userModel.findOne({ userId: resetToken.userId }, { username: 1, primaryEmail: 1, profile: 1 }).lean();
+    assertPasswordPolicy(password, { username: user?.username, email: user?.primaryEmail, firstName: user?.profile?.firstName, lastName: user?.profile?.lastName });
+
+    const userId = await consumeOneTimeToken(token, "passwordReset");
+    if (!userId) throw new BadRequestError("This password reset link is invalid or has expired.", {}, "Invalid Reset Token");
+
+    const passwordHash = await hashPassword(password);
+    await userModel.updateOne({ userId }, { $set: { passwordHash } });
+
+    // Whoever had access to the account before shouldn't keep it
+    const revokedSessions = await jwtService.revokeAllRefreshTokens(userId);
+
+    logger.success(`Password reset for user ${userId}, revoked ${revokedSessions} sessions`);
+    res.status(200).json({
+        success: true,
+        message: "Your password has been reset, please log in with your new password.",
+    });
+});
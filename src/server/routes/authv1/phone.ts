@@ -0,0 +1,146 @@
+import { userModel } from "../../../mongoose";
+import CONFIG from "../../../util/config";
+import { getLogger } from "../../../util/logger";
+import { Route } from "../../package";
+import { stime } from "../../../util/static";
+import { z } from "zod";
+import { getSessionMetadata, jwtService } from "../../auth/jwt";
+import { assertCanLogIn } from "../../auth/credentials";
+import { phoneNumberSchema, sendPhoneCode, verifyPhoneCode, verifyPhoneNumber } from "../../auth/phone";
+import { assertLoginAllowed, LoginSubject, recordLoginFailure, recordLoginSuccess } from "../../auth/login_protection";
+import { isTwoFactorEnabled, issueTwoFactorChallenge } from "../../auth/two_factor";
+import { BadRequestError, ForbiddenError, UnauthorizedError } from "../../errors";
+
+const logger = getLogger("ROUTE.PHONE");
+
+// HELPER FUNCTIONS
+
+function assertPhoneLoginEnabled() {
+    if (!CONFIG.login?.enabled) throw new ForbiddenError("Login is currently disabled on this server.", {}, "Login Disabled");
+    if (!CONFIG.login.phoneOtpEnabled) throw new ForbiddenError("Logging in with a code by SMS is disabled on this server.", {}, "Phone Login Disabled");
+}
+
+const phoneCodeRequestSchema = z.object({
+    phoneNumber: phoneNumberSchema,
+});
+
+const phoneCodeSchema = z.object({
+    phoneNumber: phoneNumberSchema,
+    code: z.string().regex(/^\d{6}$/, "Code must be 6 digits"),
+});
+
+// Several accounts can hold the same unverified number, so verifying it also names the account
+const phoneVerificationRequestSchema = phoneCodeRequestSchema.extend({
+    username: z.string().min(1, "Username is required"),
+});
+
+const phoneVerificationSchema = phoneCodeSchema.extend({
+    username: z.string().min(1, "Username is required"),
+});
+
+// VERIFICATION ROUTES
+
+new Route("POST:/api/authv1/phone/verify/send").describe({ summary: "Send a verification code to the unverified phone number of an account, always succeeds so it can't be used to find out which numbers are registered" }).rateLimit({ window: stime.hour, max: 5 }).expectBody(phoneVerificationRequestSchema).onCall(async (req, res) => {
+    const { username, phoneNumber } = req.body as z.infer<typeof phoneVerificationRequestSchema>;
+
+    res.status(200).json({
+        success: true,
+        message: "If this account is waiting for this phone number to be verified, a code has been sent to it.",
+    });
+
+    const user = await userModel.findOne({ username, phoneNumber, phoneVerified: { $ne: true } }, { userId: 1 }).lean();
+    if (!user) {
+        logger.debug(`Phone verification requested for unknown account or number from IP: ${req.ip}`);
+        return;
+    }
+
+    try {
+        await sendPhoneCode(user.userId, phoneNumber, "phoneVerification");
+    } catch (error) {
+        logger.error(`Failed to send phone verification code to user ${user.userId}: ${(error as Error).message || "Unknown Error"}`);
+    }
+});
+
+new Route("POST:/api/authv1/phone/verify").describe({ summary: "Verify the phone number of an account with the code sent to it" }).rateLimit({ window: stime.minute * 15, max: 10 }).expectBody(phoneVerificationSchema).onCall(async (req, res) => {
+    const { username, phoneNumber, code } = req.body as z.infer<typeof phoneVerificationSchema>;
+
+    const user = await userModel.findOne({ username, phoneNumber, phoneVerified: { $ne: true } }, { userId: 1 }).lean();
+    if (!user || !await verifyPhoneNumber(user.userId, phoneNumber, code)) {
+        throw new BadRequestError("This code is invalid or has expired.", {}, "Invalid Code");
+    }
+
+    logger.success(`Phone number verified for user ${user.userId}`);
+    res.status(200).json({
+        success: true,
+        message: "Your phone number has been verified.",
+    });
+});
+
+// LOGIN ROUTES
+
+new Route("POST:/api/authv1/phone/otp").describe({ summary: "Request a login code by SMS, always succeeds so it can't be used to find out which numbers are registered" }).rateLimit({ window: stime.hour, max: 5 }).expectBody(phoneCodeRequestSchema).onCall(async (req, res) => {
+    const { phoneNumber } = req.body as z.infer<typeof phoneCodeRequestSchema>;
+    assertPhoneLoginEnabled();
+
+    res.status(200).json({
+        success: true,
+        message: "If an account with this phone number exists, a login code has been sent to it.",
+        expiresIn: CONFIG.sms.codeExpiry / 1000,
+    });
+
+    // Only verified numbers can log in, otherwise anyone could add someone else's number to their account
+    const user = await userModel.findOne({ phoneNumber, phoneVerified: true }, { userId: 1 }).lean();
+    if (!user) {
+        logger.debug(`Phone login requested for unknown number from IP: ${req.ip}`);
+        return;
+    }
+
+    try {
+        await sendPhoneCode(user.userId, phoneNumber, "phoneLogin");
+    } catch (error) {
+        logger.error(`Failed to send phone login code to user ${user.userId}: ${(error as Error).message || "Unknown Error"}`);
+    }
+});
+
+new Route("POST:/api/authv1/phone/login").describe({ summary: "Log in with the code sent by SMS, sets the auth cookies or asks for a two-factor code" }).rateLimit({ window: stime.minute * 15, max: 10 }).expectBody(phoneCodeSchema).onCall(async (req, res) => {
+    const { phoneNumber, code } = req.body as z.infer<typeof phoneCodeSchema>;
+    assertPhoneLoginEnabled();
+
+    const user = await userModel.findOne({ phoneNumber, phoneVerified: true });
+    const subject: LoginSubject = { identifier: phoneNumber, userId: user?.userId, ip: req.ip };
+    await assertLoginAllowed(subject);
+
+    if (!user || !await verifyPhoneCode(user.userId, code, "phoneLogin")) {
+        await recordLoginFailure(subject, user || undefined);
+        throw new UnauthorizedError("This code is invalid or has expired.", {}, "Invalid Code");
+    }
+
+    // The code replaces the password, not the second factor, failures are forgotten once that passed too
+    const twoFactorEnabled = await isTwoFactorEnabled(user.userId);
+    if (!twoFactorEnabled) await recordLoginSuccess(subject);
+
+    assertCanLogIn(user);
+
+    if (twoFactorEnabled) {
+        const challengeToken = await issueTwoFactorChallenge(user.userId);
+        logger.info(`User ${user.userId} passed the first login step by SMS, waiting for two-factor code`);
+        res.status(200).json({
+            success: true,
+            message: "Enter the code from your authenticator app to finish logging in.",
+            twoFactorRequired: true,
+            challengeToken,
+            expiresIn: CONFIG.twoFactor.challengeExpiry / 1000,
+        });
+        return;
+    }
+
+    const tokens = await jwtService.generateTokens({ userId: user.userId }, getSessionMetadata(req));
+    await jwtService.setCookies(res, tokens.accessToken, tokens.refreshToken);
+
+    logger.success(`User logged in by SMS: ${user.userId}`);
+    res.status(200).json({
+        success: true,
+        message: "Login successful.",
+        userId: user.userId,
+    });
+});
@@ -0,0 +1,78 @@
+import jwt from "jsonwebtoken";
+import { z } from "zod";
+import { getLogger } from "../../../util/logger";
+import { Route } from "../../package";
+import { jwtService, TokenPayload } from "../../auth/jwt";
+import { NotFoundError } from "../../errors";
+
+const logger = getLogger("ROUTE.SESSIONS");
+
+// LOGOUT ROUTES
+
+// Doesn't require authentication, logging out has to work even when the access token has already expired
+new Route("POST:/api/authv1/logout").describe({ summary: "Log out of the current session, revoking its refresh token and clearing the auth cookies" }).onCall(async (req, res) => {
+    const refreshToken = req.cookies?.refreshToken as string | undefined;
+
+    if (refreshToken) {
+        const payload = jwt.decode(refreshToken) as TokenPayload | null;
+        if (payload?.userId) {
+            await jwtService.revokeRefreshToken(payload.userId, refreshToken);
+            logger.info(`User ${payload.userId} logged out${payload.sessionId ? ` of session ${payload.sessionId}` : ""}`);
+        }
+    }
+
+    jwtService.clearCookies(res);
+    res.json({
+        success: true,
+        message: "Logged out successfully.",
+    });
+});
+
+new Route("POST:/api/authv1/logout-all").describe({ summary: "Log out of every session, including the current one" }).auth({ type: "JWT" }).onCall(async (req, res) => {
+    const revokedSessions = await jwtService.revokeAllRefreshTokens(req.user.userId);
+
+    logger.info(`User ${req.user.userId} logged out everywhere, revoked ${revokedSessions} sessions`);
+    jwtService.clearCookies(res);
+    res.json({
+        success: true,
+        message: "Logged out of all sessions successfully.",
+        revokedSessions,
+    });
+});
+
+// SESSION ROUTES
+
+new Route("GET:/api/authv1/sessions").describe({ summary: "List the active sessions of the current user" }).auth({ type: "JWT" }).onCall(async (req, res) => {
+    const sessions = await jwtService.getActiveSessions(req.user.userId);
+
+    res.json({
+        success: true,
+        sessions: sessions.map(session => ({
+            ...session,
+            current: session.sessionId === req.user.sessionId,
+        })),
+    });
+});
+
+const sessionParamsSchema = z.object({
+    sessionId: z.string().min(1).max(100),
+});
+
+new Route("DELETE:/api/authv1/sessions/:sessionId").describe({
+    summary: "Revoke one of the current user's sessions",
+    description: "The session can't be refreshed anymore, its current access token stays valid until it expires.",
+}).auth({ type: "JWT" }).expectParams(sessionParamsSchema).onCall(async (req, res) => {
+    const { sessionId } = req.params as z.infer<typeof sessionParamsSchema>;
+
+    const revoked = await jwtService.revokeSession(req.user.userId, sessionId);
+    if (revoked === 0) throw new NotFoundError("Session not found or already revoked.");
+
+    // Revoking the current session is the same as logging out
+    if (sessionId === req.user.sessionId) jwtService.clearCookies(res);
+
+    logger.info(`User ${req.user.userId} revoked session ${sessionId}`);
+    res.json({
+        success: true,
+        message: "Session revoked successfully.",
+    });
+});
@@ -1,37 +1,17 @@
-import { UserInterface, userModel } from "../../../mongoose";
+import { userModel } from "../../../mongoose";
 import CONFIG from "../../../util/config";
 import { getLogger } from "../../../util/logger";
 import { Route } from "../../package";
-import crypto from "crypto";
-import bcrypt from "bcrypt";
 import { stime } from "../../../util/static";
-import { jwtService } from "../../auth/jwt";
+import { hashPassword, passwordSchema } from "../../auth/password";
+import { assertPasswordPolicy } from "../../auth/password_policy";
+import { assertPhoneNumberAvailable, phoneNumberSchema, sendPhoneCode } from "../../auth/phone";
+import { issueEmailVerification } from "../../auth/email_verification";
 import { z } from "zod";
-import { sendEmail } from "../../../util/mailer";
+import { BadRequestError, ConflictError, ForbiddenError } from "../../errors";
 
 const logger = getLogger("ROUTE.SIGNUP");
 
-// HELPER FUNCTIONS
-
-function generateEmailVerificationCode() {
-    // Create composition data
-    const randomBytes = crypto.randomBytes(32);
-    const timestamp = Date.now().toString();
-    const combinedData = randomBytes.toString('hex') + timestamp;
-
-    // Create hash of above composition
-    const code = crypto.createHash('sha256').update(combinedData).digest('hex');
-    const expiresAt = new Date(Date.now() + stime.hour * 24);
-
-    return { code, expiresAt };
-}
-
-async function generatePasswordHash(password: string) {
-    const saltRounds = 12;
-    const hash = await bcrypt.hash(password, saltRounds);
-    return hash;
-}
-
 // SIGNUP ROUTE
 
 const signupBodySchema = z.object({
@@ -47,102 +27,81 @@ const signupBodySchema = z.object({
         .min(1, "Last name is required")
         .max(50, "Last name must be at most 50 characters long")
         .regex(/^[a-zA-Z0-9_]+$/, "Last name can only contain alphanumeric characters and underscores"),
-    password: z.string()
-        .min(5, "Password must be at least 5 characters long")
-        .max(50, "Password must be at most 50 characters long"),
+    password: passwordSchema,
     email: z.string()
         .email("Invalid email format")
-        .optional()
+        .optional(),
+    phoneNumber: phoneNumberSchema.optional(),
 });
 
-new Route("POST:/api/authv1/signup").expectBody(signupBodySchema).onCall(async (req, res) => {
-    const { username, firstName, lastName, password, email } = req.body as z.infer<typeof signupBodySchema>;
+new Route("POST:/api/authv1/signup").describe({ summary: "Create a new account" }).rateLimit({ window: stime.hour, max: 5 }).expectBody(signupBodySchema).onCall(async (req, res) => {
+    const { username, firstName, lastName, password, email, phoneNumber } = req.body as z.infer<typeof signupBodySchema>;
 
     // Check if sign-up is enabled
-    if (!CONFIG.signUp.enabled) {
-        return res.status(403).json({ success: false, error: "Sign-Up Disabled", message: "Sign-up is currently disabled on this server." });
-    }
+    if (!CONFIG.signUp.enabled) throw new ForbiddenError("Sign-up is currently disabled on this server.", {}, "Sign-Up Disabled");
 
-    // Check if email is required
-    if (CONFIG.signUp.requireEmail && !email) {
-        return res.status(400).json({ success: false, error: "Email Required", message: "Email is required for sign-up." });
-    }
+    // Check if email is required, a phone number will do for people without one
+    if (CONFIG.signUp.requireEmail && !email && !phoneNumber) throw new BadRequestError("Email or phone number is required for sign-up.", {}, "Email Required");
+
+    // Check the rest of the password policy, now that the user's details are known
+    const passwordStrength = assertPasswordPolicy(password, { username, email, firstName, lastName });
 
     // Check if username already exists
     if (username) {
         const existingUser = await userModel.findOne({ username });
-        if (existingUser) return res.status(400).json({ success: false, error: "Username Already Exists", message: "An account with this username already exists." });
+        if (existingUser) throw new ConflictError("An account with this username already exists.", { fields: ["username"] }, "Username Already Exists");
     }
 
     // Check if email already exists
     if (email) {
         const existingUser = await userModel.findOne({ primaryEmail: email });
-        if (existingUser) return res.status(400).json({ success: false, error: "Email Already Exists", message: "An account with this email already exists." });
+        if (existingUser) throw new ConflictError("An account with this email already exists.", { fields: ["primaryEmail"] }, "Email Already Exists");
     }
 
+    // Check if phone number is already taken, unverified numbers can be shared until someone verifies them
+    if (phoneNumber) await assertPhoneNumberAvailable(phoneNumber);
+
+    // Create secure password-hash
+    const passwordHash = await hashPassword(password);
+
     // Create user
-    try {
-        // Generate email verification data
-        const emailVerification = CONFIG.signUp.requireEmailVerification ? (() => {
-            const { code, expiresAt } = generateEmailVerificationCode();
-            return { isPending: true, verificationCode: code, sendDate: new Date(), expiresAt } as UserInterface["emailVerification"];
-        })() : undefined;
-
-        // Create secure password-hash
-        const passwordHash = await generatePasswordHash(password);
-
-        // Create user
-        const user = await userModel.create({
-            username, passwordHash, emailVerification,
-            primaryEmail: email, emailVerified: false,
-            profile: { firstName, lastName }
-        });
-
-        // Send Email Verification
-        if (CONFIG.signUp.requireEmailVerification && emailVerification && email) {
-            const verificationLink = `${CONFIG.domain.backendUri}/verify/email?code=${emailVerification.verificationCode}`;
-            const emailContent = `
-                <h1>GigTree Email Verification Required</h1>
-                <p>Hi ${firstName},</p>
-                <br/>
-                <p>Thank you for signing up for <a href="https://gigtree.isdev.co">GigTree</a>! Please verify your email address by clicking the link below:</p>
-                <a href="${verificationLink}">Verify Email</a>
-                <p>This link will expire in 24 hours.</p>
-            `;
-
-            // Send the email
-            try {
-                await sendEmail(email,
-                    "GigTree - Verify Your Email Address",
-                    "Please verify your email address by clicking the link below.",
-                    emailContent
-                );
-            } catch (error) {
-                logger.error(`Failed to send email verification to ${email}: ${(error as Error).message || "Unknown Error"}`, { error });
-
-                // If email sending fails, we still create the user but mark email verification as failed
-                user.emailVerification = {
-                    ...emailVerification,
-                    isPending: false,
-                    sendDate: new Date(),
-                    expiresAt: new Date(Date.now() - 1000) // Set to past date to indicate failure
-                };
-                await user.save();
-            }
+    const user = await userModel.create({
+        username, passwordHash,
+        primaryEmail: email, emailVerified: false,
+        phoneNumber, phoneVerified: false,
+        profile: { firstName, lastName }
+    });
+
+    // Send Email Verification
+    if (CONFIG.signUp.requireEmailVerification && email) {
+        try {
+            await issueEmailVerification(user);
+        } catch (error) {
+            // The user can ask for a new link through /api/verification/email/resend
+            logger.error(`Failed to send email verification to ${email}: ${(error as Error).message || "Unknown Error"}`, { error });
         }
+    }
 
-        // Logging
-        logger.success(`New user created: ${user.userId} (${user.primaryEmail})`, { firstName, lastName, email, emailVerification });
-
-        // Respond with success
-        res.status(201).json({
-            success: true,
-            message: "User created successfully.",
-            userId: user.userId,
-            emailVerificationRequired: CONFIG.signUp.requireEmailVerification,
-        });
-    } catch (error) {
-        logger.error(`Error creating user: ${(error as Error).message || "Unknown Error"}`, { error });
-        res.status(500).json({ success: false, error: "Internal Server Error", message: "An error occurred while storing data in database." });
+    // Send Phone Verification
+    if (phoneNumber) {
+        try {
+            await sendPhoneCode(user.userId, phoneNumber, "phoneVerification");
+        } catch (error) {
+            // The user can ask for a new code through /api/authv1/phone/verify/send
+            logger.error(`Failed to send phone verification to user ${user.userId}: ${(error as Error).message || "Unknown Error"}`);
+        }
     }
-})
\ No newline at end of file
+
+    // Logging
+    logger.success(`New user created: ${user.userId} (${user.primaryEmail})`, { firstName, lastName, email });
+
+    // Respond with success
+    res.status(201).json({
+        success: true,
+        message: "User created successfully.",
+        userId: user.userId,
+        emailVerificationRequired: CONFIG.signUp.requireEmailVerification,
+        phoneVerificationRequired: !!phoneNumber,
+        passwordStrength,
+    });
+});
\ No newline at end of file
@@ -0,0 +1,111 @@
+import { z } from "zod";
+import CONFIG from "../../../util/config";
+import { getLogger } from "../../../util/logger";
+import { stime } from "../../../util/static";
+import { Route } from "../../package";
+import { UnauthorizedError } from "../../errors";
+import { getSessionMetadata, jwtService } from "../../auth/jwt";
+import { authenticateCredentials } from "../../auth/credentials";
+import { completeTwoFactorChallenge, isTwoFactorEnabled, issueTwoFactorChallenge } from "../../auth/two_factor";
+
+const logger = getLogger("ROUTE.TOKEN");
+
+/*
+ * Token routes for clients that can't use cookies (mobile apps, scripts), tokens are returned in the body
+ * and the access token is sent back as `Authorization: Bearer <accessToken>`.
+ */
+
+const tokenResponseSchema = z.object({
+    success: z.literal(true),
+    tokenType: z.literal("Bearer"),
+    accessToken: z.string(),
+    refreshToken: z.string(),
+    /** Lifetime of the access token in seconds */
+    expiresIn: z.number(),
+    /** Lifetime of the refresh token in seconds */
+    refreshExpiresIn: z.number(),
+    userId: z.string(),
+});
+
+const challengeResponseSchema = z.object({
+    success: z.literal(true),
+    twoFactorRequired: z.literal(true),
+    /** Token to send to `POST /api/authv1/token/2fa` along with the code */
+    challengeToken: z.string(),
+    /** Lifetime of the challenge token in seconds */
+    expiresIn: z.number(),
+});
+
+function tokenResponse(tokens: { accessToken: string; refreshToken: string }, userId: string): z.infer<typeof tokenResponseSchema> {
+    return {
+        success: true,
+        tokenType: "Bearer",
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+        expiresIn: CONFIG.jwt.accessTokenExpiry / 1000,
+        refreshExpiresIn: CONFIG.jwt.refreshTokenExpiry / 1000,
+        userId,
+    };
+}
+
+// TOKEN ROUTE
+
+const tokenBodySchema = z.object({
+    identifier: z.string()
+        .min(1, "Username, email or phone number is required"), // Can be a username, email or phone number
+    password: z.string()
+        .min(1, "Password is required"),
+});
+
+new Route("POST:/api/authv1/token").describe({ summary: "Log in with a username, email or phone number, returns the tokens (or a two-factor challenge) in the response instead of setting cookies" }).rateLimit({ window: stime.minute * 15, max: 10 }).expectBody(tokenBodySchema).expectResponse(200, z.union([tokenResponseSchema, challengeResponseSchema])).onCall(async (req, res) => {
+    const { identifier, password } = req.body as z.infer<typeof tokenBodySchema>;
+
+    const { user, identifierType } = await authenticateCredentials(identifier, password, req.ip);
+
+    if (await isTwoFactorEnabled(user.userId)) {
+        const challengeToken = await issueTwoFactorChallenge(user.userId);
+        res.json({ success: true, twoFactorRequired: true, challengeToken, expiresIn: CONFIG.twoFactor.challengeExpiry / 1000 });
+        return;
+    }
+    const tokens = await jwtService.generateTokens({ userId: user.userId }, getSessionMetadata(req));
+
+    logger.success(`User logged in for tokens: ${user.userId} (${user.primaryEmail})`, {
+        identifier,
+        identifierType
+    });
+
+    res.json(tokenResponse(tokens, user.userId));
+});
+
+// TWO-FACTOR ROUTE
+
+const twoFactorTokenSchema = z.object({
+    challengeToken: z.string().min(1, "Challenge token is required"),
+    code: z.string().min(1, "Code is required").max(20), // Code from the authenticator app or a recovery code
+});
+
+new Route("POST:/api/authv1/token/2fa").describe({ summary: "Finish logging in with a two-factor code, returns the tokens in the response" }).rateLimit({ window: stime.minute * 15, max: 10 }).expectBody(twoFactorTokenSchema).expectResponse(200, tokenResponseSchema).onCall(async (req, res) => {
+    const { challengeToken, code } = req.body as z.infer<typeof twoFactorTokenSchema>;
+
+    const { userId, method } = await completeTwoFactorChallenge(challengeToken, code, getSessionMetadata(req));
+    const tokens = await jwtService.generateTokens({ userId }, getSessionMetadata(req));
+
+    logger.success(`User logged in for tokens with two-factor authentication: ${userId}`, { method });
+    res.json(tokenResponse(tokens, userId));
+});
+
+// REFRESH ROUTE
+
+const refreshBodySchema = z.object({
+    refreshToken: z.string().min(1, "Refresh token is required"),
+});
+
+new Route("POST:/api/authv1/token/refresh").describe({ summary: "Exchange a refresh token for a new token pair, the old refresh token can't be used again" }).rateLimit({ window: stime.minute * 15, max: 60 }).expectBody(refreshBodySchema).expectResponse(200, tokenResponseSchema).onCall(async (req, res) => {
+    const { refreshToken } = req.body as z.infer<typeof refreshBodySchema>;
+
+    const rotated = await jwtService.rotateTokens(refreshToken, getSessionMetadata(req));
+    if (!rotated) throw new UnauthorizedError("Invalid or expired refresh token.");
+
+    logger.debug(`Tokens refreshed for user ${rotated.payload.userId}`);
+    res.json(tokenResponse(rotated, rotated.payload.userId));
+});
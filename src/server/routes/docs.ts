@@ -0,0 +1,39 @@
+import express from "express";
+import { getAbsoluteFSPath } from "swagger-ui-dist";
+import { app } from "../server";
+import { Route } from "../package";
+import { generateOpenAPIDocument, OpenAPIDocument } from "../openapi";
+
+// Swagger UI assets are bundled with the server, so the docs page works without any external CDN
+app.use("/api/docs/assets", express.static(getAbsoluteFSPath(), { index: false }));
+
+let cachedDocument: OpenAPIDocument | null = null;
+
+new Route("GET:/api/openapi.json").describe({ summary: "OpenAPI 3.1 document describing this API", tags: ["docs"] }).onCall((req, res) => {
+    // Routes are all registered on boot, so the document only has to be generated once
+    if (!cachedDocument) cachedDocument = generateOpenAPIDocument();
+    res.json(cachedDocument);
+});
+
+new Route("GET:/api/docs").describe({ summary: "Interactive API documentation page", tags: ["docs"] }).onCall((req, res) => {
+    res.type("html").send(`
+        <!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>GigTree API Docs</title>
+            <link rel="stylesheet" href="/api/docs/assets/swagger-ui.css">
+        </head>
+        <body>
+            <div id="swagger-ui"></div>
+            <script src="/api/docs/assets/swagger-ui-bundle.js"></script>
+            <script>
+                window.onload = () => {
+                    window.ui = SwaggerUIBundle({ url: "/api/openapi.json", dom_id: "#swagger-ui", withCredentials: true });
+                };
+            </script>
+        </body>
+        </html>
+    `);
+});
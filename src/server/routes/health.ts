@@ -1,6 +1,6 @@
 import { Route } from "../package";
 
-new Route("GET:/api/health").onCall((req, res) => {
+new Route("GET:/api/health").describe({ summary: "Health check of the API" }).onCall((req, res) => {
     res.status(200).json({
         status: "ok",
         message: "GigTree API is running smoothly!",
@@ -0,0 +1,11 @@
+import { Route } from "../package";
+import { keyring } from "../auth/keyring";
+
+// Public keys access tokens are signed with, so other services can verify them without sharing a secret
+new Route("GET:/.well-known/jwks.json").describe({ summary: "JSON Web Key Set with the public keys access tokens are signed with", tags: ["authv1"] }).onCall(async (req, res) => {
+    const keys = keyring.enabled ? await keyring.getPublicKeys() : [];
+
+    // New keys are published a while before they're used, so caching for a few minutes is safe
+    res.set("Cache-Control", "public, max-age=300");
+    res.json({ keys });
+});
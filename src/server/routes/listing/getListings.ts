@@ -4,6 +4,7 @@ import listingModel from "../../../mongoose/models/listing";
 import { getLogger } from "../../../util/logger";
 import { TokenPayload } from "../../auth/jwt";
 import { Route } from "../../package";
+import { NotFoundError } from "../../errors";
 
 const logger = getLogger("ROUTE.GET_LISTINGS");
 
@@ -25,83 +26,98 @@ const querySchema = z.object({
     category: z.string({ invalid_type_error: "Category must be a string" }).optional(),
 });
 
-new Route("GET:/api/listings/get").expectQuery(querySchema).onCall(async (req, res) => {
-    try {
-        const { page, limit, sort, sortBy, search, category } = req.body as z.infer<typeof querySchema>;
-
-        logger.debug(`Fetching listings according to: ${JSON.stringify({ page, limit, sort, sortBy, search, category })}`);
-
-        const query: any = {};
-        if (search) query.$or = [{ shortDescription: { $regex: search, $options: 'i' } }];
-
-        // if (category) {
-        //     // TODO: Implement the category field later
-        //     // Update: I never got time to implement this lmao
-        //     query.category = category;
-        // }
-
-        const skip = (page - 1) * limit;
-
-        // Build sort object
-        const sortObj: any = {};
-        sortObj[sortBy] = sort === "asc" ? 1 : -1;
-
-        // Fetch listings and total count
-        const [listings, totalCount] = await Promise.all([
-            listingModel.find(query).sort(sortObj).skip(skip).limit(limit).lean(),
-            listingModel.countDocuments(query)
-        ]); const userIds = [...new Set(listings.map(listing => listing.ownerUserId))];
-        const users = await userModel.find(
-            { userId: { $in: userIds } },
-            { passwordHash: 0, emailVerification: 0, primaryEmail: 0 } // Exclude sensitive fields
-        ).lean();
-        const userMap = new Map(users.map(user => [user.userId, user]));
-
-        // Remove listings where owner is listing-banned or banned (and not expired)
-        const now = new Date();
-        const listingsWithUsers = listings
-            .map(listing => ({ ...listing, owner: userMap.get(listing.ownerUserId) || null }))
-            .filter(listing => {
-                if (!listing.owner) return true;
-                const mod = listing.owner.moderation;
-
-                // Check for banned and not expired
-                const isBanned = mod?.ban?.isBanned && (!mod.ban.unbannedAt || new Date(mod.ban.unbannedAt) > now);
-                const isJobListingBanned = mod?.jobListingBan?.isBanned && (!mod.jobListingBan.unbannedAt || new Date(mod.jobListingBan.unbannedAt) > now);
-
-                return !(isBanned || isJobListingBanned);
-            });
-
-        // Pagination meta
-        const filteredTotalCount = listingsWithUsers.length;
-        const totalPages = Math.ceil(filteredTotalCount / limit);
-        const hasNextPage = page < totalPages;
-        const hasPrevPage = page > 1;
-
-        logger.debug(`Retrieved ${listingsWithUsers.length} listings with user data`);
-
-        // Return the response
-        res.json({
-            success: true,
-            data: {
-                listings: listingsWithUsers,
-                pagination: {
-                    currentPage: page,
-                    totalPages,
-                    totalCount: filteredTotalCount,
-                    hasNextPage,
-                    hasPrevPage,
-                    limit
-                }
-            }
+new Route("GET:/api/listings/get").describe({ summary: "Browse listings of users that are not banned" }).expectQuery(querySchema).onCall(async (req, res) => {
+    const { page, limit, sort, sortBy, search, category } = req.body as z.infer<typeof querySchema>;
+
+    logger.debug(`Fetching listings according to: ${JSON.stringify({ page, limit, sort, sortBy, search, category })}`);
+
+    const query: any = {};
+    if (search) query.$or = [{ shortDescription: { $regex: search, $options: 'i' } }];
+
+    // if (category) {
+    //     // TODO: Implement the category field later
+    //     // Update: I never got time to implement this lmao
+    //     query.category = category;
+    // }
+
+    const skip = (page - 1) * limit;
+
+    // Build sort object
+    const sortObj: any = {};
+    sortObj[sortBy] = sort === "asc" ? 1 : -1;
+
+    // Fetch listings and total count
+    const [listings, totalCount] = await Promise.all([
+        listingModel.find(query).sort(sortObj).skip(skip).limit(limit).lean(),
+        listingModel.countDocuments(query)
+    ]); const userIds = [...new Set(listings.map(listing => listing.ownerUserId))];
+    const users = await userModel.find(
+        { userId: { $in: userIds } },
+        { passwordHash: 0, emailVerification: 0, primaryEmail: 0, phoneNumber: 0, pendingEmailChange: 0 } // Exclude sensitive fields
+    ).lean();
+    const userMap = new Map(users.map(user => [user.userId, user]));
+
+    // Remove listings where owner is listing-banned or banned (and not expired)
+    const now = new Date();
+    const listingsWithUsers = listings
+        .map(listing => ({ ...listing, owner: userMap.get(listing.ownerUserId) || null }))
+        .filter(listing => {
+            if (!listing.owner) return true;
+            const mod = listing.owner.moderation;
+
+            // Check for banned and not expired
+            const isBanned = mod?.ban?.isBanned && (!mod.ban.unbannedAt || new Date(mod.ban.unbannedAt) > now);
+            const isJobListingBanned = mod?.jobListingBan?.isBanned && (!mod.jobListingBan.unbannedAt || new Date(mod.jobListingBan.unbannedAt) > now);
+
+            return !(isBanned || isJobListingBanned);
         });
 
-    } catch (error) {
-        logger.error(`Error fetching listings for user:`, error);
-        res.status(500).json({
-            success: false,
-            error: "Internal Server Error",
-            message: "Failed to fetch listings"
-        });
-    }
-});
\ No newline at end of file
+    // Pagination meta
+    const filteredTotalCount = listingsWithUsers.length;
+    const totalPages = Math.ceil(filteredTotalCount / limit);
+    const hasNextPage = page < totalPages;
+    const hasPrevPage = page > 1;
+
+    logger.debug(`Retrieved ${listingsWithUsers.length} listings with user data`);
+
+    // Return the response
+    res.json({
+        success: true,
+        data: {
+            listings: listingsWithUsers,
+            pagination: {
+                currentPage: page,
+                totalPages,
+                totalCount: filteredTotalCount,
+                hasNextPage,
+                hasPrevPage,
+                limit
+            }
+        }
+    });
+});
+
+const listingParamsSchema = z.object({
+    listingId: z.string().min(1, "Listing ID is required").max(50, "Listing ID cannot exceed 50 characters"),
+});
+
+new Route("GET:/api/listings/:listingId").describe({ summary: "Get a single listing along with its owner" }).expectParams(listingParamsSchema).onCall(async (req, res) => {
+    const { listingId } = req.params as z.infer<typeof listingParamsSchema>;
+
+    const listing = await listingModel.findOne({ listingId }).lean();
+    if (!listing) throw new NotFoundError("Listing not found");
+
+    const owner = await userModel.findOne(
+        { userId: listing.ownerUserId },
+        { passwordHash: 0, emailVerification: 0, primaryEmail: 0, phoneNumber: 0, pendingEmailChange: 0 } // Exclude sensitive fields
+    ).lean();
+
+    // Hide listings where owner is listing-banned or banned (and not expired), same as browsing
+    const now = new Date();
+    const mod = owner?.moderation;
+    const isBanned = mod?.ban?.isBanned && (!mod.ban.unbannedAt || new Date(mod.ban.unbannedAt) > now);
+    const isJobListingBanned = mod?.jobListingBan?.isBanned && (!mod.jobListingBan.unbannedAt || new Date(mod.jobListingBan.unbannedAt) > now);
+    if (isBanned || isJobListingBanned) throw new NotFoundError("Listing not found");
+
+    res.json({ success: true, listing: { ...listing, owner: owner || null } });
+});
@@ -2,6 +2,7 @@ import { z } from "zod";
 import { UserInterface } from "../../../mongoose";
 import messageModel from "../../../mongoose/models/message";
 import { Route } from "../../package";
+import { BadRequestError } from "../../errors";
 import { findChannelByEitherChannelIdOrTargetId } from "./messageUtility";
 import channelModel from "../../../mongoose/models/channel";
 
@@ -12,28 +13,22 @@ const createChannelBodySchema = z.object({
         .optional(),
 });
 
-new Route("POST:/api/message/channel/create").auth({ type: "JWT", config: { getFullUser: true } }).expectBody(createChannelBodySchema).onCall(async (req, res) => {
+new Route("POST:/api/message/channel/create").auth({ type: "APIKey", scopes: ["messages:write"], config: { getFullUser: true, allowJWT: true } }).expectBody(createChannelBodySchema).onCall(async (req, res) => {
     const user = req.user as UserInterface;
 
     const { targetUserId } = req.body as z.infer<typeof createChannelBodySchema>;
-    if (!targetUserId) return res.status(400).json({ success: false, error: "Invalid Request", message: "Either channelId or targetUserId must be provided." });
+    if (!targetUserId) throw new BadRequestError("Either channelId or targetUserId must be provided.", {}, "Invalid Request");
 
     // Validation
-    if (targetUserId === user.userId) {
-        return res.status(400).json({ success: false, error: "Invalid Request", message: "You cannot create a channel with yourself." });
-    }
+    if (targetUserId === user.userId) throw new BadRequestError("You cannot create a channel with yourself.", {}, "Invalid Request");
 
     // Find Channel
     const existingChannel = await channelModel.findOne({ ownerUserIds: { $all: [user.userId, targetUserId] } }).lean();
     if (existingChannel) return res.status(200).json({ success: true, message: "Channel already exists.", channel: existingChannel });
 
     // Create channel 
-    try {
-        const newChannel = await channelModel.create({
-            ownerUserIds: [user.userId, targetUserId],
-        });
-        return res.status(201).json({ success: true, message: "Message sent successfully.", channel: newChannel.toObject() });
-    } catch (error) {
-        return res.status(500).json({ success: false, error: "Internal Server Error", message: "Failed to send message." });
-    }
+    const newChannel = await channelModel.create({
+        ownerUserIds: [user.userId, targetUserId],
+    });
+    return res.status(201).json({ success: true, message: "Message sent successfully.", channel: newChannel.toObject() });
 })
@@ -4,6 +4,7 @@ import channelModel from "../../../mongoose/models/channel";
 import messageModel from "../../../mongoose/models/message";
 import userModel from "../../../mongoose/models/user";
 import { Route } from "../../package";
+import { NotFoundError } from "../../errors";
 
 const messageQuerySchema = z.object({
     limit: z.coerce.number()
@@ -15,19 +16,15 @@ const messageQuerySchema = z.object({
         .max(50, "Channel ID cannot exceed 50 characters"),
 });
 
-new Route("GET:/api/message/messages").auth({ type: "JWT", config: { getFullUser: true } }).expectQuery(messageQuerySchema).onCall(async (req, res) => {
+new Route("GET:/api/message/messages").auth({ type: "APIKey", scopes: ["messages:read"], config: { getFullUser: true, allowJWT: true } }).expectQuery(messageQuerySchema).onCall(async (req, res) => {
     const user = req.user as UserInterface;
     const { limit, channelId } = req.body as z.infer<typeof messageQuerySchema>;
 
     // Find Channel
     const channel = await channelModel.findOne({ channelId, ownerUserIds: user.userId });
-    if (!channel) return res.status(404).json({ success: false, error: "Channel Not Found", message: "The specified channel does not exist or you are not a member." });
+    if (!channel) throw new NotFoundError("The specified channel does not exist or you are not a member.", {}, "Channel Not Found");
 
     // Fetch messages
-    try {
-        const messages = await messageModel.find({ channelId }).sort({ createdAt: -1 }).limit(limit).lean();
-        return res.status(200).json({ success: true, data: messages });
-    } catch (error) {
-        return res.status(500).json({ success: false, error: "Internal Server Error", message: "Failed to fetch messages." });
-    }
+    const messages = await messageModel.find({ channelId }).sort({ createdAt: -1 }).limit(limit).lean();
+    return res.status(200).json({ success: true, data: messages });
 });
\ No newline at end of file
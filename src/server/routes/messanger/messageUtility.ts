@@ -1,34 +1,22 @@
 import { UserInterface } from "../../../mongoose";
 import channelModel from "../../../mongoose/models/channel";
+import { NotFoundError } from "../../errors";
 
 type ChannelFindByEitherChannelIdOrTargetIdParams = { user: UserInterface; channelId?: string; targetUserId?: string };
-type ChannelFindByEitherChannelIdOrTargetIdResponse = {
-    success: true,
-    channelId: string;
-} | {
-    success: false,
-    error: string;
-    message?: string;
-}
 
-export async function findChannelByEitherChannelIdOrTargetId({ user, channelId, targetUserId }: ChannelFindByEitherChannelIdOrTargetIdParams): Promise<ChannelFindByEitherChannelIdOrTargetIdResponse> {
+/** Find a channel by its ID or by its participants, creates a new channel when looking for participants that don't share one yet. Returns the channel ID. */
+export async function findChannelByEitherChannelIdOrTargetId({ user, channelId, targetUserId }: ChannelFindByEitherChannelIdOrTargetIdParams): Promise<string> {
     const query = channelId ? { channelId } : { ownerUserIds: { $all: [user.userId, targetUserId] } };
     const channel = await channelModel.findOne(query);
 
     if (!channel) {
-        if (!channelId) {
-            // Wasn't looking for a specific channel, so we can just create one 
-            try {
-                const newChannel = await channelModel.create({ ownerUserIds: [user.userId, targetUserId] });
-                return { success: true, channelId: newChannel.channelId };
-            } catch (error) {
-                return { success: false, error: "Internal Server Error", message: "Failed to create channel." };
-            }
-        } else {
-            // Was looking for a specific channel but it doesn't exist
-            return { success: false, error: "Channel Not Found", message: "The specified channel does not exist." };
-        }
+        // Was looking for a specific channel but it doesn't exist
+        if (channelId) throw new NotFoundError("The specified channel does not exist.", {}, "Channel Not Found");
+
+        // Wasn't looking for a specific channel, so we can just create one
+        const newChannel = await channelModel.create({ ownerUserIds: [user.userId, targetUserId] });
+        return newChannel.channelId;
     }
 
-    return { success: true, channelId: channel.channelId };
-}
\ No newline at end of file
+    return channel.channelId;
+}
@@ -1,6 +1,8 @@
 import { z } from "zod";
 import { UserInterface } from "../../../mongoose";
 import { Route } from "../../package";
+import { stime } from "../../../util/static";
+import { BadRequestError, ForbiddenError } from "../../errors";
 import channelModel from "../../../mongoose/models/channel";
 import messageModel from "../../../mongoose/models/message";
 import { findChannelByEitherChannelIdOrTargetId } from "./messageUtility";
@@ -20,39 +22,34 @@ const messageBodySchema = z.object({
         .optional(),
 });
 
-new Route("POST:/api/message/send").auth({ type: "JWT", config: { getFullUser: true } }).expectBody(messageBodySchema).onCall(async (req, res) => {
+new Route("POST:/api/message/send").auth({ type: "APIKey", scopes: ["messages:write"], config: { getFullUser: true, allowJWT: true } }).rateLimit({ window: stime.minute, max: 30, key: "user" }).expectBody(messageBodySchema).onCall(async (req, res) => {
     const user = req.user as UserInterface;
 
     const { content, channelId, targetUserId } = req.body as z.infer<typeof messageBodySchema>;
-    if (!channelId && !targetUserId) return res.status(400).json({ success: false, error: "Invalid Request", message: "Either channelId or targetUserId must be provided." });
+    if (!channelId && !targetUserId) throw new BadRequestError("Either channelId or targetUserId must be provided.", {}, "Invalid Request");
 
     // Can't send mesage if muted
-    if (user.moderation?.muted?.isMuted) {
-        return res.status(403).json({ success: false, error: "Forbidden", message: "You are currently muted and cannot send messages." });
-    }
+    if (user.moderation?.muted?.isMuted) throw new ForbiddenError("You are currently muted and cannot send messages.");
 
     // Find Channel
-    const channelSearchResult = await findChannelByEitherChannelIdOrTargetId({ user, channelId, targetUserId });
-    if (!channelSearchResult.success) return res.json(channelSearchResult);    // Create message 
-    try {
-        const newMessage = await messageModel.create({
-            channelId: channelSearchResult.channelId,
-            senderUserId: user.userId,
-            content: content.trim(),
-        });
-
-        // Update subscriptions
-        broadcastMessageToChannel(channelSearchResult.channelId, {
-            messageId: newMessage.messageId,
-            channelId: newMessage.channelId,
-            senderUserId: newMessage.senderUserId,
-            content: newMessage.content,
-            createdAt: (newMessage as any).createdAt,
-            updatedAt: (newMessage as any).updatedAt
-        });
-
-        return res.status(201).json({ success: true, message: "Message sent successfully.", data: newMessage });
-    } catch (error) {
-        return res.status(500).json({ success: false, error: "Internal Server Error", message: "Failed to send message." });
-    }
+    const foundChannelId = await findChannelByEitherChannelIdOrTargetId({ user, channelId, targetUserId });
+
+    // Create message
+    const newMessage = await messageModel.create({
+        channelId: foundChannelId,
+        senderUserId: user.userId,
+        content: content.trim(),
+    });
+
+    // Update subscriptions
+    broadcastMessageToChannel(foundChannelId, {
+        messageId: newMessage.messageId,
+        channelId: newMessage.channelId,
+        senderUserId: newMessage.senderUserId,
+        content: newMessage.content,
+        createdAt: (newMessage as any).createdAt,
+        updatedAt: (newMessage as any).updatedAt
+    });
+
+    return res.status(201).json({ success: true, message: "Message sent successfully.", data: newMessage });
 })
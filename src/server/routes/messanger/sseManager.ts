@@ -9,7 +9,7 @@ export interface SSEConnection {
 }
 
 export interface SSEMessage {
-    type: 'message' | 'connected' | 'heartbeat' | 'user_joined' | 'user_left' | 'error';
+    type: 'message' | 'connected' | 'heartbeat' | 'user_joined' | 'user_left' | 'closed' | 'error';
     data?: any;
     channelId?: string;
     message?: string;
@@ -36,6 +36,17 @@ export function sendSSEMessage(connection: SSEConnection, message: SSEMessage):
     }
 }
 
+/** Send a last message to a connection and end it */
+export function closeSSEConnection(connection: SSEConnection, message: SSEMessage): void {
+    sendSSEMessage(connection, message);
+
+    try {
+        if (!connection.res.writableEnded) connection.res.end();
+    } catch (error) {
+        logger.error(`Failed to close SSE connection of user ${connection.userId}:`, error);
+    }
+}
+
 /** Get connection count for a specific channel */
 export function getChannelConnectionCount(channelSubscriptions: Map<string, Set<SSEConnection>>, channelId: string): number {
     const connections = channelSubscriptions.get(channelId);
@@ -1,9 +1,10 @@
 import { z } from "zod";
 import { UserInterface } from "../../../mongoose";
 import { Route } from "../../package";
+import { NotFoundError } from "../../errors";
 import channelModel from "../../../mongoose/models/channel";
 import { getLogger } from "../../../util/logger";
-import { SSEConnection, SSEMessage, sendSSEMessage, cleanupDeadConnections } from "./sseManager";
+import { SSEConnection, SSEMessage, sendSSEMessage, cleanupDeadConnections, closeSSEConnection } from "./sseManager";
 import { stime } from "../../../util/static";
 
 const logger = getLogger("SSE.CHANNEL");
@@ -24,13 +25,7 @@ new Route("GET:/api/message/channel/subscribe").auth({ type: "JWT", config: { ge
 
     // Verify user has access to this channel
     const channel = await channelModel.findOne({ channelId, ownerUserIds: user.userId });
-    if (!channel) {
-        return res.status(404).json({
-            success: false,
-            error: "Channel Not Found",
-            message: "The specified channel does not exist or you are not a member."
-        });
-    }   
+    if (!channel) throw new NotFoundError("The specified channel does not exist or you are not a member.", {}, "Channel Not Found");
     
     res.writeHead(200, {
         'Content-Type': 'text/event-stream',
@@ -88,13 +83,7 @@ new Route("GET:/api/message/subscribe").auth({ type: "JWT", config: { getFullUse
     const user = req.user as UserInterface;
 
     const userChannels = await channelModel.find({ ownerUserIds: user.userId });
-    if (userChannels.length === 0) {
-        return res.status(404).json({
-            success: false,
-            error: "No Channels Found",
-            message: "You are not a member of any channels."
-        });
-    }
+    if (userChannels.length === 0) throw new NotFoundError("You are not a member of any channels.", {}, "No Channels Found");
     res.writeHead(200, {
         'Content-Type': 'text/event-stream',
         'Cache-Control': 'no-cache',
@@ -188,6 +177,43 @@ export function broadcastMessageToChannel(channelId: string, message: any) {
     if (channelSubs.size === 0) channelSubscriptions.delete(channelId);
 }
 
+/** Close every connection of a user, returns the amount of connections closed */
+export function closeUserSubscriptions(userId: string): number {
+    const connections = new Set<SSEConnection>();
+    channelSubscriptions.forEach(channelSubs => channelSubs.forEach(connection => {
+        if (connection.userId === userId) connections.add(connection);
+    }));
+
+    const allChannelsSubscription = allChannelsSubscriptions.get(userId);
+    if (allChannelsSubscription) connections.add(allChannelsSubscription);
+
+    connections.forEach(connection => closeSSEConnection(connection, { type: 'closed', message: 'This account has been deleted' }));
+    return connections.size;
+}
+
+/** Close every connection subscribed to a channel, returns the amount of connections closed */
+export function closeChannelSubscriptions(channelId: string): number {
+    const channelSubs = channelSubscriptions.get(channelId);
+    if (!channelSubs) return 0;
+
+    let closedCount = 0;
+    const closedMessage: SSEMessage = { type: 'closed', channelId, message: 'This channel has been deleted' };
+
+    channelSubs.forEach(connection => {
+        // Subscriptions to all channels stay open for the user's other channels
+        if (allChannelsSubscriptions.get(connection.userId) === connection) {
+            sendSSEMessage(connection, closedMessage);
+            return;
+        }
+
+        closeSSEConnection(connection, closedMessage);
+        closedCount++;
+    });
+
+    channelSubscriptions.delete(channelId);
+    return closedCount;
+}
+
 /** get all users subscribed to all channels  */
 export function getAllChannelsSubscribers(): Map<string, SSEConnection> {
     return allChannelsSubscriptions;
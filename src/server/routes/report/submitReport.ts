@@ -0,0 +1,102 @@
+import { Response } from "express";
+import { z } from "zod";
+import { Route } from "../../package";
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from "../../errors";
+import { userModel } from "../../../mongoose";
+import { getLogger } from "../../../util/logger";
+import { stime } from "../../../util/static";
+import listingModel from "../../../mongoose/models/listing";
+import messageModel from "../../../mongoose/models/message";
+import channelModel from "../../../mongoose/models/channel";
+import reportModel, { REPORT_CATEGORIES, ReportTargetType } from "../../../mongoose/models/report";
+
+const logger = getLogger("ROUTE.REPORT");
+
+const reportBodySchema = z.object({
+    category: z.enum(REPORT_CATEGORIES),
+    description: z.string().max(1000, "Description cannot exceed 1000 characters").optional(),
+});
+
+type ReportBody = z.infer<typeof reportBodySchema>;
+
+/** Store a report, making sure the same user can't flood the queue with reports on the same entity */
+async function submitReport(reporterUserId: string, targetType: ReportTargetType, targetId: string, targetUserId: string, body: ReportBody, res: Response) {
+    if (targetUserId === reporterUserId) throw new BadRequestError("You can't report yourself.");
+
+    const existing = await reportModel.exists({ reporterUserId, targetType, targetId, status: { $in: ["open", "triaged"] } });
+    if (existing) throw new ConflictError("You have already reported this, our moderators will look into it.");
+
+    const report = await reportModel.create({ reporterUserId, targetType, targetId, targetUserId, category: body.category, description: body.description });
+
+    logger.info(`User ${reporterUserId} reported ${targetType} ${targetId} for ${body.category}`);
+    res.status(201).json({
+        success: true,
+        message: "Report submitted, thank you for helping keep GigTree safe.",
+        reportId: report.reportId,
+    });
+}
+
+// Report a user
+const reportUserParamsSchema = z.object({
+    userId: z.string().min(1).max(50),
+});
+
+new Route("POST:/api/users/:userId/report").describe({ summary: "Report a user to the moderators" }).auth({ type: "JWT" }).rateLimit({ window: stime.hour, max: 10, key: "user" }).expectParams(reportUserParamsSchema).expectBody(reportBodySchema).onCall(async (req, res) => {
+    const { userId } = req.params as z.infer<typeof reportUserParamsSchema>;
+
+    const user = await userModel.exists({ userId });
+    if (!user) throw new NotFoundError("User not found.");
+
+    await submitReport(req.user.userId, "user", userId, userId, req.body as ReportBody, res);
+});
+
+// Report a listing
+const reportListingParamsSchema = z.object({
+    listingId: z.string().min(1).max(50),
+});
+
+new Route("POST:/api/listings/:listingId/report").describe({ summary: "Report a listing to the moderators" }).auth({ type: "JWT" }).rateLimit({ window: stime.hour, max: 10, key: "user" }).expectParams(reportListingParamsSchema).expectBody(reportBodySchema).onCall(async (req, res) => {
+    const { listingId } = req.params as z.infer<typeof reportListingParamsSchema>;
+
+    const listing = await listingModel.findOne({ listingId }, { ownerUserId: 1 }).lean();
+    if (!listing) throw new NotFoundError("Listing not found.");
+
+    await submitReport(req.user.userId, "listing", listingId, listing.ownerUserId, req.body as ReportBody, res);
+});
+
+// Report a message
+const reportMessageParamsSchema = z.object({
+    messageId: z.string().min(1).max(50),
+});
+
+new Route("POST:/api/messages/:messageId/report").describe({ summary: "Report a message to the moderators" }).auth({ type: "JWT" }).rateLimit({ window: stime.hour, max: 10, key: "user" }).expectParams(reportMessageParamsSchema).expectBody(reportBodySchema).onCall(async (req, res) => {
+    const { messageId } = req.params as z.infer<typeof reportMessageParamsSchema>;
+
+    const message = await messageModel.findOne({ messageId }, { channelId: 1, senderUserId: 1 }).lean();
+    if (!message) throw new NotFoundError("Message not found.");
+
+    // Only participants of the conversation can see, and therefore report, a message
+    const isParticipant = await channelModel.exists({ channelId: message.channelId, ownerUserIds: req.user.userId });
+    if (!isParticipant) throw new ForbiddenError("You can only report messages in your own conversations.");
+
+    await submitReport(req.user.userId, "message", messageId, message.senderUserId, req.body as ReportBody, res);
+});
+
+// Get own reports
+new Route("GET:/api/reports").describe({ summary: "Get the reports you have submitted" }).auth({ type: "JWT" }).onCall(async (req, res) => {
+    const reports = await reportModel.find({ reporterUserId: req.user.userId }, {
+        _id: 0,
+        reportId: 1,
+        targetType: 1,
+        targetId: 1,
+        category: 1,
+        description: 1,
+        status: 1,
+        createdAt: 1,
+    }).sort({ createdAt: -1 }).limit(100).lean();
+
+    res.json({
+        success: true,
+        reports,
+    });
+});
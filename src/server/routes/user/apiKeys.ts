@@ -0,0 +1,101 @@
+import { z } from "zod";
+import CONFIG from "../../../util/config";
+import { getLogger } from "../../../util/logger";
+import { stime } from "../../../util/static";
+import { Route } from "../../package";
+import { BadRequestError, NotFoundError } from "../../errors";
+import { generateApiKey } from "../../auth/api_keys";
+import apiKeyModel, { API_KEY_SCOPES } from "../../../mongoose/models/api_key";
+
+const logger = getLogger("ROUTE.API_KEYS");
+
+/*
+ * API keys are managed with a logged in session only, a key can never be used to create or revoke keys.
+ */
+
+// Create an API key
+const createApiKeySchema = z.object({
+    name: z.string().trim().min(1, "Name is required").max(50, "Name cannot exceed 50 characters"),
+    scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, "At least one scope is required"),
+    expiresInDays: z.number().int().min(1).max(365).optional(), // Never expires if not provided
+    rateLimit: z.number().int().min(1).max(CONFIG.apiKeys.rateLimit).optional(), // Requests per hour, defaults to the maximum
+});
+
+new Route("POST:/api/user/api-keys").describe({
+    summary: "Create a personal API key",
+    description: "The key is only returned once, afterwards only its prefix can be seen. Send it as `X-API-Key: <key>`.",
+}).auth({ type: "JWT" }).rateLimit({ window: stime.hour, max: 20, key: "user" }).expectBody(createApiKeySchema).onCall(async (req, res) => {
+    const { name, scopes, expiresInDays, rateLimit = CONFIG.apiKeys.rateLimit } = req.body as z.infer<typeof createApiKeySchema>;
+    const userId = req.user.userId;
+
+    const activeKeys = await apiKeyModel.countDocuments({
+        userId,
+        revokedAt: { $exists: false },
+        $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: new Date() } }],
+    });
+    if (activeKeys >= CONFIG.apiKeys.maxPerUser) throw new BadRequestError(`You can't have more than ${CONFIG.apiKeys.maxPerUser} active API keys, revoke one first.`);
+
+    const { key, prefix, keyHash } = generateApiKey();
+    const apiKey = await apiKeyModel.create({
+        userId, name, prefix, keyHash, rateLimit,
+        scopes: Array.from(new Set(scopes)),
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * stime.day) : undefined,
+    });
+
+    logger.info(`User ${userId} created API key ${apiKey.keyId} with scopes ${apiKey.scopes.join(", ")}`);
+    res.status(201).json({
+        success: true,
+        message: "API key created, copy it now as it won't be shown again.",
+        key,
+        apiKey: {
+            keyId: apiKey.keyId,
+            name: apiKey.name,
+            prefix: apiKey.prefix,
+            scopes: apiKey.scopes,
+            rateLimit: apiKey.rateLimit,
+            expiresAt: apiKey.expiresAt,
+            createdAt: apiKey.createdAt,
+        },
+    });
+});
+
+// List API keys
+new Route("GET:/api/user/api-keys").describe({ summary: "List your API keys, including revoked and expired ones" }).auth({ type: "JWT" }).onCall(async (req, res) => {
+    const apiKeys = await apiKeyModel.find({ userId: req.user.userId }, {
+        _id: 0,
+        keyId: 1,
+        name: 1,
+        prefix: 1,
+        scopes: 1,
+        rateLimit: 1,
+        expiresAt: 1,
+        revokedAt: 1,
+        lastUsedAt: 1,
+        lastUsedIp: 1,
+        createdAt: 1,
+    }).sort({ createdAt: -1 }).lean();
+
+    res.json({
+        success: true,
+        apiKeys,
+        availableScopes: API_KEY_SCOPES,
+    });
+});
+
+// Revoke an API key
+const apiKeyParamsSchema = z.object({
+    keyId: z.string().min(1).max(50),
+});
+
+new Route("DELETE:/api/user/api-keys/:keyId").describe({ summary: "Revoke one of your API keys, it stops working immediately" }).auth({ type: "JWT" }).expectParams(apiKeyParamsSchema).onCall(async (req, res) => {
+    const { keyId } = req.params as z.infer<typeof apiKeyParamsSchema>;
+
+    const result = await apiKeyModel.updateOne({ keyId, userId: req.user.userId, revokedAt: { $exists: false } }, { $set: { revokedAt: new Date() } });
+    if (result.matchedCount === 0) throw new NotFoundError("API key not found or already revoked.");
+
+    logger.info(`User ${req.user.userId} revoked API key ${keyId}`);
+    res.json({
+        success: true,
+        message: "API key revoked successfully.",
+    });
+});
@@ -0,0 +1,61 @@
+import { z } from "zod";
+import { stime } from "../../../util/static";
+import { Route } from "../../package";
+import { BadRequestError, NotFoundError, UnauthorizedError } from "../../errors";
+import { userModel } from "../../../mongoose";
+import { getSessionMetadata } from "../../auth/jwt";
+import { verifyPassword } from "../../auth/password";
+import { cancelEmailChange, confirmEmailChange, requestEmailChange } from "../../auth/email_change";
+
+// Request an email change, confirmed through a link sent to the new address
+const changeEmailSchema = z.object({
+    newEmail: z.string().email("Invalid email format"),
+    currentPassword: z.string().min(1, "Current password is required"),
+});
+
+new Route("POST:/api/user/email").describe({ summary: "Request to change the email of the current user, sends a confirmation link to the new address" }).auth({ type: "JWT" }).rateLimit({ window: stime.hour, max: 5, key: "user" }).expectBody(changeEmailSchema).onCall(async (req, res) => {
+    const { newEmail, currentPassword } = req.body as z.infer<typeof changeEmailSchema>;
+
+    const user = await userModel.findOne({ userId: req.user.userId }, { userId: 1, primaryEmail: 1, language: 1, profile: 1, passwordHash: 1 }).lean();
+    if (!user) throw new NotFoundError("User not found.");
+
+    if (!await verifyPassword(currentPassword, user.passwordHash)) throw new UnauthorizedError("Current password is incorrect.", {}, "Invalid Credentials");
+    if (user.primaryEmail?.toLowerCase() === newEmail.toLowerCase()) throw new BadRequestError("This is already the email of your account.");
+
+    await requestEmailChange(user, newEmail);
+
+    res.json({
+        success: true,
+        message: "We sent a confirmation link to your new email, your email will change once you open it.",
+        pendingEmail: newEmail,
+    });
+});
+
+// Confirm and cancel work without logging in, the links can be opened on any device
+const emailChangeTokenSchema = z.object({
+    token: z.string().min(1, "Token is required"),
+});
+
+new Route("POST:/api/user/email/confirm").describe({ summary: "Confirm an email change with the token from the link sent to the new address" }).rateLimit({ window: stime.minute * 15, max: 10 }).expectBody(emailChangeTokenSchema).onCall(async (req, res) => {
+    const { token } = req.body as z.infer<typeof emailChangeTokenSchema>;
+
+    const { newEmail } = await confirmEmailChange(token, getSessionMetadata(req));
+
+    res.json({
+        success: true,
+        message: "Your email has been changed.",
+        primaryEmail: newEmail,
+    });
+});
+
+new Route("POST:/api/user/email/cancel").describe({ summary: "Cancel an email change with the token from the notice sent to the old address, logs the user out everywhere" }).rateLimit({ window: stime.minute * 15, max: 10 }).expectBody(emailChangeTokenSchema).onCall(async (req, res) => {
+    const { token } = req.body as z.infer<typeof emailChangeTokenSchema>;
+
+    const revokedSessions = await cancelEmailChange(token, getSessionMetadata(req));
+
+    res.json({
+        success: true,
+        message: "The email change has been cancelled and every session has been logged out, please change your password.",
+        revokedSessions,
+    });
+});
@@ -0,0 +1,43 @@
+import { z } from "zod";
+import { getLogger } from "../../../util/logger";
+import { stime } from "../../../util/static";
+import { Route } from "../../package";
+import { BadRequestError, NotFoundError, UnauthorizedError } from "../../errors";
+import { userModel } from "../../../mongoose";
+import { jwtService } from "../../auth/jwt";
+import { hashPassword, passwordSchema, verifyPassword } from "../../auth/password";
+import { assertPasswordPolicy } from "../../auth/password_policy";
+
+const logger = getLogger("ROUTE.CHANGE_PASSWORD");
+
+const changePasswordSchema = z.object({
+    currentPassword: z.string().min(1, "Current password is required"),
+    newPassword: passwordSchema,
+});
+
+new Route("POST:/api/user/password").describe({ summary: "Change the password of the current user, logs out every other session" }).auth({ type: "JWT" }).rateLimit({ window: stime.minute * 15, max: 10, key: "user" }).expectBody(changePasswordSchema).onCall(async (req, res) => {
+    const { currentPassword, newPassword } = req.body as z.infer<typeof changePasswordSchema>;
+    const userId = req.user.userId;
+
+    const user = await userModel.findOne({ userId }, { userId: 1, username: 1, primaryEmail: 1, profile: 1, passwordHash: 1 }).lean();
+    if (!user) throw new NotFoundError("User not found.");
+
+    if (!await verifyPassword(currentPassword, user.passwordHash)) throw new UnauthorizedError("Current password is incorrect.", {}, "Invalid Credentials");
+    if (await verifyPassword(newPassword, user.passwordHash)) throw new BadRequestError("New password must be different from the current one.");
+
+    const passwordStrength = assertPasswordPolicy(newPassword, { username: user.username, email: user.primaryEmail, firstName: user.profile?.firstName, lastName: user.profile?.lastName }, "newPassword");
+
+    const passwordHash = await hashPassword(newPassword);
+    await userModel.updateOne({ userId }, { $set: { passwordHash } });
+
+    // Anyone else who knew the old password shouldn't stay logged in, the current session is kept
+    const revokedSessions = await jwtService.revokeOtherSessions(userId, req.user.sessionId);
+
+    logger.success(`User ${userId} changed their password, revoked ${revokedSessions} other sessions`);
+    res.json({
+        success: true,
+        message: "Password changed successfully, all other sessions have been logged out.",
+        revokedSessions,
+        passwordStrength,
+    });
+});
@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { stime } from "../../../util/static";
+import { Route } from "../../package";
+import { NotFoundError, UnauthorizedError } from "../../errors";
+import { userModel } from "../../../mongoose";
+import { getSessionMetadata } from "../../auth/jwt";
+import { verifyPassword } from "../../auth/password";
+import { cancelAccountDeletion, confirmAccountDeletion, requestAccountDeletion } from "../../auth/account_deletion";
+
+// Request deleting the account, confirmed through a link sent to the user's email
+const deleteAccountSchema = z.object({
+    currentPassword: z.string().min(1, "Current password is required"),
+});
+
+new Route("POST:/api/user/delete").describe({ summary: "Request to delete the account of the current user, sends a confirmation link to their email" }).auth({ type: "JWT" }).rateLimit({ window: stime.hour, max: 5, key: "user" }).expectBody(deleteAccountSchema).onCall(async (req, res) => {
+    const { currentPassword } = req.body as z.infer<typeof deleteAccountSchema>;
+
+    const user = await userModel.findOne({ userId: req.user.userId }, { userId: 1, primaryEmail: 1, language: 1, profile: 1, passwordHash: 1, deletion: 1 }).lean();
+    if (!user) throw new NotFoundError("User not found.");
+
+    if (!await verifyPassword(currentPassword, user.passwordHash)) throw new UnauthorizedError("Current password is incorrect.", {}, "Invalid Credentials");
+
+    const result = await requestAccountDeletion(user, getSessionMetadata(req));
+    if (result.status === "scheduled") {
+        return res.json({
+            success: true,
+            message: "Your account will be deleted at the end of the grace period, log in before then to cancel.",
+            scheduledFor: result.scheduledFor,
+        });
+    }
+
+    res.json({
+        success: true,
+        message: "We sent a confirmation link to your email, your account will be scheduled for deletion once you open it.",
+    });
+});
+
+// Confirming works without logging in, the link can be opened on any device
+const confirmDeletionSchema = z.object({
+    token: z.string().min(1, "Token is required"),
+});
+
+new Route("POST:/api/user/delete/confirm").describe({ summary: "Confirm deleting an account with the token from the emailed link, logs the user out everywhere" }).rateLimit({ window: stime.minute * 15, max: 10 }).expectBody(confirmDeletionSchema).onCall(async (req, res) => {
+    const { token } = req.body as z.infer<typeof confirmDeletionSchema>;
+
+    const scheduledFor = await confirmAccountDeletion(token, getSessionMetadata(req));
+
+    res.json({
+        success: true,
+        message: "Your account will be deleted at the end of the grace period, log in before then to cancel.",
+        scheduledFor,
+    });
+});
+
+new Route("POST:/api/user/delete/cancel").describe({ summary: "Cancel the deletion of the current user's account" }).auth({ type: "JWT" }).rateLimit({ window: stime.minute * 15, max: 10, key: "user" }).onCall(async (req, res) => {
+    const cancelled = await cancelAccountDeletion(req.user.userId, getSessionMetadata(req));
+    if (!cancelled) throw new NotFoundError("Your account isn't scheduled for deletion.", {}, "No Pending Deletion");
+
+    res.json({
+        success: true,
+        message: "The deletion of your account has been cancelled.",
+    });
+});
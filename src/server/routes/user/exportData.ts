@@ -0,0 +1,18 @@
+import { getLogger } from "../../../util/logger";
+import { stime } from "../../../util/static";
+import { Route } from "../../package";
+import { NotFoundError } from "../../errors";
+import { exportUserData } from "../../auth/data_export";
+
+const logger = getLogger("ROUTE.EXPORT_DATA");
+
+new Route("GET:/api/user/export").describe({ summary: "Download a JSON archive of everything stored about the current user, their profile, listings, channels and messages" }).auth({ type: "JWT" }).rateLimit({ window: stime.hour, max: 5, key: "user" }).onCall(async (req, res) => {
+    const userId = req.user.userId;
+
+    const data = await exportUserData(userId);
+    if (!data) throw new NotFoundError("User not found.");
+
+    logger.info(`User ${userId} exported their data`);
+    res.setHeader("Content-Disposition", `attachment; filename="gigtree-data-${userId}.json"`);
+    res.json(data);
+});
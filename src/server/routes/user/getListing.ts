@@ -4,21 +4,26 @@ import listingModel from "../../../mongoose/models/listing";
 import { getLogger } from "../../../util/logger";
 import { TokenPayload } from "../../auth/jwt";
 import { Route } from "../../package";
+import { NotFoundError, UnauthorizedError } from "../../errors";
+import { listingSchema } from "../../schemas/listing";
 
 const logger = getLogger("ROUTE.GET_USER_LISTING");
 
-new Route("GET:/api/user/listing").auth({ type: "JWT" }).onCall(async (req, res) => {
+new Route("GET:/api/user/listing").auth({ type: "APIKey", scopes: ["listings:read"], config: { allowJWT: true } }).expectResponse(200, z.object({
+    success: z.literal(true),
+    listing: listingSchema,
+})).onCall(async (req, res) => {
     const userPayload = req.user as TokenPayload;
     if (!userPayload) {
         logger.error("User payload not found in request");
-        return res.status(401).json({ success: false, error: "Unauthorized", message: "User not authenticated" });
+        throw new UnauthorizedError("User not authenticated");
     }
 
     // Find listing
     const userListing = await listingModel.findOne({ ownerUserId: userPayload.userId });
     if (!userListing) {
-        logger.error("User listing not found for userId:", userPayload.userId);
-        return res.status(404).json({ success: false, error: "Not Found", message: "User listing not found" });
+        logger.debug(`User listing not found for userId: ${userPayload.userId}`);
+        throw new NotFoundError("User listing not found");
     }
 
     // Return listing
@@ -1,29 +1,27 @@
 import { z } from "zod";
 import { getLogger } from "../../../util/logger";
 import { Route } from "../../package";
+import { BadRequestError, ForbiddenError, NotFoundError, UnauthorizedError } from "../../errors";
 import { validateJWT } from "../../auth/util";
 import { UserInterface, userModel } from "../../../mongoose";
-import CONFIG from "../../../util/config";
+import { getPermissions, isAdmin } from "../../auth/permissions";
+import { publicUserSchema, selfUserSchema, tokenPayloadSchema } from "../../schemas/user";
 
 const logger = getLogger("ROUTE.GET_USER");
 
-new Route("GET:/api/user/from/jwt").auth({ type: "JWT", config: { getFullUser: true } }).onCall(async (req, res) => {    const user = req.user as UserInterface;
+new Route("GET:/api/user/from/jwt").auth({ type: "APIKey", scopes: ["profile:read"], config: { getFullUser: true, allowJWT: true } }).expectResponse(200, selfUserSchema).onCall(async (req, res) => {
+    const user = req.user as unknown as UserInterface;
 
     // Check if banned (and not expired)
     if (user.moderation?.ban?.isBanned && 
         (!user.moderation.ban.unbannedAt || new Date(user.moderation.ban.unbannedAt) > new Date())) {
-        return res.status(403).json({
-            success: false,
-            error: "Forbidden",
-            message: "You are banned from using this service. Reason:"
-                + `\n\n${(user.moderation.ban.banReason || "An unspecified reason.")}`
-                + `\n\n${user.moderation.ban.unbannedAt ? `You'll be unbanned at ${new Date(user.moderation.ban.unbannedAt).toLocaleString()}` : "This ban is permanent."}`,
-        });
+        throw new ForbiddenError("You are banned from using this service. Reason:"
+            + `\n\n${(user.moderation.ban.banReason || "An unspecified reason.")}`
+            + `\n\n${user.moderation.ban.unbannedAt ? `You'll be unbanned at ${new Date(user.moderation.ban.unbannedAt).toLocaleString()}` : "This ban is permanent."}`);
     }
 
     // Return user
-    if (CONFIG.moderation.adminUserIds.includes(user.userId)) user.isAdmin = true;
-    res.json(user);
+    res.json({ ...user, isAdmin: isAdmin(user), permissions: getPermissions(user) });
 });
 
 const userFromJwtRawSchema = z.object({
@@ -31,46 +29,71 @@ const userFromJwtRawSchema = z.object({
     refreshToken: z.string().min(1, "Refresh token is required").optional(),
 });
 
-new Route("GET:/api/user/from/jwt/raw").expectQuery(userFromJwtRawSchema).onCall(async (req, res) => {
+new Route("GET:/api/user/from/jwt/raw").describe({ deprecated: true, description: "Tokens in the query string end up in logs, send `Authorization: Bearer <accessToken>` to `GET /api/user/from/jwt` instead." }).expectQuery(userFromJwtRawSchema).expectResponse(200, z.object({
+    success: z.literal(true),
+    tokenPayload: tokenPayloadSchema,
+    user: selfUserSchema,
+})).onCall(async (req, res) => {
     const { accessToken, refreshToken } = req.query as z.infer<typeof userFromJwtRawSchema>;
 
     const payload = await validateJWT(accessToken, refreshToken);
     if (!payload) {
         logger.warn("Invalid access token or refresh token");
-        return res.status(401).json({ success: false, error: "Unauthorized", message: "Invalid or expired tokens." });
+        throw new UnauthorizedError("Invalid or expired tokens.");
     }
 
     const user = await userModel.findOne({ userId: payload.userId });
     if (!user) {
         logger.warn(`User not found for userId: ${payload.userId}`);
-        return res.status(404).json({ success: false, error: "Not Found", message: "User not found." });
+        throw new NotFoundError("User not found.");
     }
 
-    // inject isAdmin based on CONFIG
-    if (CONFIG.moderation.adminUserIds.includes(user.userId)) user.isAdmin = true;
-
-    res.json({ success: true, tokenPayload: payload, user: user.toObject() });
+    res.json({ success: true, tokenPayload: payload, user: { ...user.toObject(), isAdmin: isAdmin(user), permissions: getPermissions(user) } });
 });
 
 const userFromIdSchema = z.object({
     userId: z.string().min(1, "User ID is required").max(50, "User ID cannot exceed 50 characters"),
 });
 
-new Route("GET:/api/public/user").expectQuery(userFromIdSchema).onCall(async (req, res) => {
-    const { userId } = req.query as z.infer<typeof userFromIdSchema>;
-    if (!userId) return res.status(400).json({ success: false, error: "Bad Request", message: "User ID is required." });
+const publicUserResponseSchema = z.object({
+    success: z.literal(true),
+    user: publicUserSchema,
+});
 
-    // Find user
+/** Find a user by ID, excluding all private fields */
+async function findPublicUser(userId: string) {
     const user = await userModel.findOne({ userId }, {
         "passwordHash": 0,
         "primaryEmail": 0,
+        "phoneNumber": 0,
+        "pendingEmailChange": 0,
         "emailVerification": 0,
+        "deletion": 0,
     }).lean();
-    if (!user) return res.status(404).json({ success: false, error: "Not Found", message: "User not found." });
+    if (!user) return null;
+
+    return { ...user, isAdmin: isAdmin(user) };
+}
+
+new Route("GET:/api/public/user").describe({ deprecated: true, description: "Use `GET /api/users/{userId}` instead." }).expectQuery(userFromIdSchema).expectResponse(200, publicUserResponseSchema).onCall(async (req, res) => {
+    const { userId } = req.query as z.infer<typeof userFromIdSchema>;
+    if (!userId) throw new BadRequestError("User ID is required.");
+
+    // Find user
+    const user = await findPublicUser(userId);
+    if (!user) throw new NotFoundError("User not found.");
+
+    // Return user data
+    res.json({ success: true, user });
+});
+
+new Route("GET:/api/users/:userId").describe({ summary: "Get the public profile of a user" }).expectParams(userFromIdSchema).expectResponse(200, publicUserResponseSchema).onCall(async (req, res) => {
+    const { userId } = req.params as z.infer<typeof userFromIdSchema>;
 
-    // inject isAdmin based on CONFIG
-    if (CONFIG.moderation.adminUserIds.includes(user.userId)) user.isAdmin = true;
+    // Find user
+    const user = await findPublicUser(userId);
+    if (!user) throw new NotFoundError("User not found.");
 
     // Return user data
     res.json({ success: true, user });
-});
\ No newline at end of file
+});
@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { getLogger } from "../../../util/logger";
+import { stime } from "../../../util/static";
+import { Route } from "../../package";
+import { BadRequestError } from "../../errors";
+import { userModel } from "../../../mongoose";
+import { assertPhoneNumberAvailable, phoneNumberSchema, sendPhoneCode } from "../../auth/phone";
+
+const logger = getLogger("ROUTE.USER_PHONE");
+
+// Set or change the phone number of the current user, it has to be verified again
+const setPhoneSchema = z.object({
+    phoneNumber: phoneNumberSchema,
+});
+
+new Route("PUT:/api/user/phone").describe({ summary: "Set the phone number of the current user and text it a verification code" }).auth({ type: "JWT" }).rateLimit({ window: stime.hour, max: 5, key: "user" }).expectBody(setPhoneSchema).onCall(async (req, res) => {
+    const { phoneNumber } = req.body as z.infer<typeof setPhoneSchema>;
+    const userId = req.user.userId;
+
+    const user = await userModel.findOne({ userId }, { phoneNumber: 1, phoneVerified: 1 }).lean();
+    if (user?.phoneNumber === phoneNumber && user.phoneVerified) throw new BadRequestError("This phone number is already verified on your account.");
+
+    await assertPhoneNumberAvailable(phoneNumber, userId);
+    await userModel.updateOne({ userId }, { $set: { phoneNumber, phoneVerified: false } });
+
+    // The number is saved either way, a new code can be requested if the gateway fails
+    let codeSent = false;
+    try {
+        codeSent = await sendPhoneCode(userId, phoneNumber, "phoneVerification");
+    } catch (error) {
+        logger.error(`Failed to send phone verification code to user ${userId}: ${(error as Error).message || "Unknown Error"}`);
+    }
+
+    logger.info(`User ${userId} set a new phone number`);
+    res.json({
+        success: true,
+        message: codeSent
+            ? "Phone number saved, enter the code we sent to it to verify it."
+            : "Phone number saved, request a verification code to verify it.",
+        phoneNumber,
+        codeSent,
+    });
+});
+
+// Remove the phone number of the current user
+new Route("DELETE:/api/user/phone").describe({ summary: "Remove the phone number of the current user" }).auth({ type: "JWT" }).onCall(async (req, res) => {
+    const userId = req.user.userId;
+
+    // The phone number is the only way to reach users who signed up without an email
+    const user = await userModel.findOne({ userId }, { primaryEmail: 1 }).lean();
+    if (!user?.primaryEmail) throw new BadRequestError("Add an email address to your account before removing your phone number.", {}, "Email Required");
+
+    await userModel.updateOne({ userId }, { $unset: { phoneNumber: 1 }, $set: { phoneVerified: false } });
+
+    logger.info(`User ${userId} removed their phone number`);
+    res.json({
+        success: true,
+        message: "Phone number removed.",
+    });
+});
@@ -4,6 +4,8 @@ import listingModel from "../../../mongoose/models/listing";
 import { getLogger } from "../../../util/logger";
 import { TokenPayload } from "../../auth/jwt";
 import { Route } from "../../package";
+import { InternalServerError, NotFoundError } from "../../errors";
+import { listingSchema } from "../../schemas/listing";
 
 const logger = getLogger("ROUTE.UPDATE_USER_LISTING");
 
@@ -18,13 +20,16 @@ const setListingSchema = z.object({
         .max(200, { message: "Short description cannot exceed 200 characters" })
 });
 
-new Route("POST:/api/user/listing/update").expectBody(setListingSchema).auth({ type: "JWT" }).onCall(async (req, res) => {
+new Route("POST:/api/user/listing/update").expectBody(setListingSchema).auth({ type: "APIKey", scopes: ["listings:write"], config: { allowJWT: true } }).expectResponse(200, z.object({
+    success: z.literal(true),
+    listing: listingSchema,
+})).onCall(async (req, res) => {
     const userPayload = req.user as TokenPayload;
 
     const user = await userModel.findOne({ userId: userPayload.userId });
     if (!user) {
-        logger.error("User not found for userId:", userPayload.userId);
-        return res.status(404).json({ error: "User not found" });
+        logger.error(`User not found for userId: ${userPayload.userId}`);
+        throw new NotFoundError("User not found");
     }
 
     const { thumbnailUrl, shortDescription } = req.body as z.infer<typeof setListingSchema>;
@@ -42,8 +47,8 @@ new Route("POST:/api/user/listing/update").expectBody(setListingSchema).auth({ t
     }
 
     if (!userListing) {
-        logger.error("Failed to create or find listing for userId:", user.userId);
-        return res.status(500).json({ error: "Failed to create or find listing" });
+        logger.error(`Failed to create or find listing for userId: ${user.userId}`);
+        throw new InternalServerError("Failed to create or find listing");
     }
 
     // Update the existing listing
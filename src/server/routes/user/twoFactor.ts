@@ -0,0 +1,116 @@
+import { z } from "zod";
+import CONFIG from "../../../util/config";
+import { getLogger } from "../../../util/logger";
+import { stime } from "../../../util/static";
+import { Route } from "../../package";
+import { BadRequestError, NotFoundError, UnauthorizedError } from "../../errors";
+import { userModel } from "../../../mongoose";
+import { getSessionMetadata } from "../../auth/jwt";
+import { verifyPassword } from "../../auth/password";
+import { getPermissions } from "../../auth/permissions";
+import { beginTwoFactorSetup, confirmTwoFactorSetup, disableTwoFactor, getTwoFactorStatus, regenerateRecoveryCodes, verifyTwoFactorCode } from "../../auth/two_factor";
+
+const logger = getLogger("ROUTE.2FA");
+
+const codeSchema = z.string().min(1, "Code is required").max(20);
+
+// Get the two-factor state
+new Route("GET:/api/user/2fa").describe({ summary: "Get whether two-factor authentication is enabled for the current user" }).auth({ type: "JWT" }).onCall(async (req, res) => {
+    const user = await userModel.findOne({ userId: req.user.userId }, { userId: 1, roles: 1 }).lean();
+    if (!user) throw new NotFoundError("User not found.");
+
+    const status = await getTwoFactorStatus(user.userId);
+    res.json({
+        success: true,
+        ...status,
+        // Staff can only use their permissions with two-factor authentication
+        required: CONFIG.twoFactor.requiredForStaff && getPermissions(user).length > 0,
+    });
+});
+
+// Start setting up two-factor authentication
+new Route("POST:/api/user/2fa/setup").describe({
+    summary: "Start setting up two-factor authentication",
+    description: "Returns a secret and an `otpauth://` URI to show as QR code, two-factor authentication is enabled once a code is confirmed through `POST /api/user/2fa/confirm`.",
+}).auth({ type: "JWT" }).rateLimit({ window: stime.hour, max: 10, key: "user" }).onCall(async (req, res) => {
+    const user = await userModel.findOne({ userId: req.user.userId }, { userId: 1, username: 1, primaryEmail: 1 }).lean();
+    if (!user) throw new NotFoundError("User not found.");
+
+    const setup = await beginTwoFactorSetup(user.userId, user.primaryEmail || user.username || user.userId);
+    if (!setup) throw new BadRequestError("Two-factor authentication is already enabled, disable it first to set it up again.");
+
+    logger.info(`User ${user.userId} started setting up two-factor authentication`);
+    res.json({
+        success: true,
+        message: "Scan the QR code with your authenticator app and confirm with the code it shows.",
+        ...setup,
+    });
+});
+
+// Confirm the setup
+const confirmSchema = z.object({
+    code: codeSchema,
+});
+
+new Route("POST:/api/user/2fa/confirm").describe({ summary: "Enable two-factor authentication with a code from the authenticator app, returns the recovery codes once" }).auth({ type: "JWT" }).rateLimit({ window: stime.minute * 15, max: 10, key: "user" }).expectBody(confirmSchema).onCall(async (req, res) => {
+    const { code } = req.body as z.infer<typeof confirmSchema>;
+
+    const recoveryCodes = await confirmTwoFactorSetup(req.user.userId, code.replace(/\s/g, ""), getSessionMetadata(req));
+    if (!recoveryCodes) throw new BadRequestError("Invalid code, or two-factor authentication hasn't been set up.");
+
+    logger.info(`User ${req.user.userId} enabled two-factor authentication`);
+    res.json({
+        success: true,
+        message: "Two-factor authentication enabled. Store your recovery codes somewhere safe, they won't be shown again.",
+        recoveryCodes,
+    });
+});
+
+// Disable two-factor authentication
+const disableSchema = z.object({
+    password: z.string().min(1, "Password is required"),
+    code: codeSchema,
+});
+
+new Route("POST:/api/user/2fa/disable").describe({ summary: "Disable two-factor authentication, requires the password and a code" }).auth({ type: "JWT" }).rateLimit({ window: stime.minute * 15, max: 10, key: "user" }).expectBody(disableSchema).onCall(async (req, res) => {
+    const { password, code } = req.body as z.infer<typeof disableSchema>;
+
+    const user = await userModel.findOne({ userId: req.user.userId }, { userId: 1, roles: 1, passwordHash: 1 }).lean();
+    if (!user) throw new NotFoundError("User not found.");
+
+    if (CONFIG.twoFactor.requiredForStaff && getPermissions(user).length > 0) {
+        throw new BadRequestError("Two-factor authentication is required for staff accounts and can't be disabled.");
+    }
+
+    if (!await verifyPassword(password, user.passwordHash)) throw new UnauthorizedError("Invalid password.", {}, "Invalid Credentials");
+    if (!await verifyTwoFactorCode(user.userId, code, getSessionMetadata(req))) throw new UnauthorizedError("Invalid two-factor code.", {}, "Invalid Code");
+
+    await disableTwoFactor(user.userId, getSessionMetadata(req));
+
+    logger.info(`User ${user.userId} disabled two-factor authentication`);
+    res.json({
+        success: true,
+        message: "Two-factor authentication disabled.",
+    });
+});
+
+// Regenerate recovery codes
+const recoveryCodesSchema = z.object({
+    code: codeSchema,
+});
+
+new Route("POST:/api/user/2fa/recovery-codes").describe({ summary: "Replace the recovery codes with a new set, the old ones stop working" }).auth({ type: "JWT" }).rateLimit({ window: stime.minute * 15, max: 10, key: "user" }).expectBody(recoveryCodesSchema).onCall(async (req, res) => {
+    const { code } = req.body as z.infer<typeof recoveryCodesSchema>;
+
+    if (!await verifyTwoFactorCode(req.user.userId, code, getSessionMetadata(req))) throw new UnauthorizedError("Invalid two-factor code.", {}, "Invalid Code");
+
+    const recoveryCodes = await regenerateRecoveryCodes(req.user.userId);
+    if (!recoveryCodes) throw new BadRequestError("Two-factor authentication isn't enabled.");
+
+    logger.info(`User ${req.user.userId} regenerated their recovery codes`);
+    res.json({
+        success: true,
+        message: "New recovery codes generated, the old ones no longer work.",
+        recoveryCodes,
+    });
+});
@@ -1,8 +1,11 @@
 import { z } from "zod";
 import { getLogger } from "../../../util/logger";
 import { Route } from "../../package";
+import { NotFoundError, UnauthorizedError } from "../../errors";
 import { UserInterface, userModel } from "../../../mongoose";
 import { TokenPayload } from "../../auth/jwt";
+import { selfUserSchema } from "../../schemas/user";
+import { EMAIL_LANGUAGES } from "../../../email/layout";
 
 const logger = getLogger("ROUTE.UPDATE_USER");
 
@@ -19,22 +22,26 @@ const updateUserSchema = z.object({
             .optional(),
         profilePicture: z.string().url().nullable().optional(),
     }).optional(),
+    language: z.enum(EMAIL_LANGUAGES).optional(), // Language emails are sent in
 });
 
-new Route("POST:/api/user/update").auth({ type: "JWT", config: { getFullUser: false } }).expectBody(updateUserSchema).onCall(async (req, res) => {
+new Route("POST:/api/user/update").auth({ type: "JWT", config: { getFullUser: false } }).expectBody(updateUserSchema).expectResponse(200, z.object({
+    success: z.literal(true),
+    user: selfUserSchema,
+})).onCall(async (req, res) => {
     const userPayload = req.user as TokenPayload;
     if (!userPayload) {
         logger.warn("User not found in request");
-        return res.status(401).json({ success: false, error: "Unauthorized", message: "User not authenticated." });
+        throw new UnauthorizedError("User not authenticated.");
     }
 
     const user = await userModel.findOne({ userId: userPayload.userId });
     if (!user) {
         logger.warn(`User not found for userId: ${userPayload.userId}`);
-        return res.status(404).json({ success: false, error: "Not Found", message: "User not found." });
+        throw new NotFoundError("User not found.");
     }
 
-    const { profile } = req.body as z.infer<typeof updateUserSchema>;
+    const { profile, language } = req.body as z.infer<typeof updateUserSchema>;
 
     // Update user fields
     if (profile) {
@@ -48,13 +55,10 @@ new Route("POST:/api/user/update").auth({ type: "JWT", config: { getFullUser: fa
         user.markModified('profile');
     }
 
+    if (language) user.language = language;
+
     // Save user data
-    try {
-        await user.save();
-        logger.info(`User ${user.userId} updated successfully`);
-        return res.status(200).json({ success: true, user: user.toObject() });
-    } catch (error) {
-        logger.error(`Failed to update user ${user.userId}: ${error}`);
-        return res.status(500).json({ success: false, error: "Internal Server Error", message: "Failed to update user." });
-    }
+    await user.save();
+    logger.info(`User ${user.userId} updated successfully`);
+    return res.status(200).json({ success: true, user: user.toObject() });
 });
\ No newline at end of file
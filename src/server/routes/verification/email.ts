@@ -1,12 +1,14 @@
 import { z } from "zod";
 import { getLogger } from "../../../util/logger";
 import { Route } from "../../package";
-import { access } from "fs";
-import { validateJWT } from "../../auth/util";
+import { stime } from "../../../util/static";
+import { validateJWTRequest } from "../../auth/util";
+import { getResendCooldown, issueEmailVerification, verifyEmailCode } from "../../auth/email_verification";
+import { BadRequestError, NotFoundError, TooManyRequestsError, UnauthorizedError } from "../../errors";
 import { userModel } from "../../../mongoose";
 import CONFIG from "../../../util/config";
 
-const logger = getLogger("ROUTE.GET_USER");
+const logger = getLogger("ROUTE.VERIFY_EMAIL");
 
 const userFromJwtRawSchema = z.object({
     code: z.string().min(1, "Verification code is required"),
@@ -82,26 +84,84 @@ function htmlReturn(message: string) {
     `;
 }
 
-new Route("GET:/verify/email").expectQuery(userFromJwtRawSchema).onCall(async (req, res) => {
-    const { code } = req.query as z.infer<typeof userFromJwtRawSchema>;
+new Route("GET:/verify/email").rateLimit({ window: stime.minute * 15, max: 20 }).expectQuery(userFromJwtRawSchema).onCall(async (req, res) => {
+    const { code } = req.body as z.infer<typeof userFromJwtRawSchema>;
 
-    const user = await userModel.findOne({ "emailVerification.verificationCode": code });
-    if (!user) {
-        logger.warn(`User not found for verification code: ${code}`);
-        return res.status(404).send(htmlReturn("Verification code not found or expired."));
+    const result = await verifyEmailCode(code);
+    if (result.status === "invalid") {
+        logger.warn(`Invalid email verification code used from IP: ${req.ip}`);
+        return res.status(404).send(htmlReturn("Verification code not found, or your email has already been verified."));
     }
+    if (result.status === "expired") {
+        return res.status(400).send(htmlReturn("This verification link has expired, log in or use the app to request a new one."));
+    }
+
+    res.send(htmlReturn(`Email verification successful! You can now log in <a style="color: red;" href="${CONFIG.domain.frontendUri}/login">here</a>.`));
+});
+
+// JSON VERIFY ROUTE
+
+new Route("POST:/api/verification/email").describe({ summary: "Verify an email with the code from the verification link, for frontends that handle the link themselves" }).rateLimit({ window: stime.minute * 15, max: 20 }).expectBody(userFromJwtRawSchema).onCall(async (req, res) => {
+    const { code } = req.body as z.infer<typeof userFromJwtRawSchema>;
+
+    const result = await verifyEmailCode(code);
+    if (result.status === "invalid") throw new BadRequestError("This verification code is invalid or has already been used.", {}, "Invalid Verification Code");
+    if (result.status === "expired") throw new BadRequestError("This verification link has expired, please request a new one.", { expired: true }, "Verification Expired");
+
+    res.status(200).json({
+        success: true,
+        message: "Your email has been verified.",
+        userId: result.userId,
+    });
+});
+
+// RESEND ROUTE
 
-    if (!user.emailVerification?.isPending) {
-        logger.warn(`Email verification already completed`);
-        return res.status(400).send(htmlReturn("Email verification already completed."));
+const resendVerificationSchema = z.object({
+    identifier: z.string().min(1).optional(), // Username or email, for users who can't log in before verifying
+});
+
+new Route("POST:/api/verification/email/resend").describe({ summary: "Send a new verification email, either to the logged in user or to the account with the given username or email" }).rateLimit({ window: stime.hour, max: 5 }).expectBody(resendVerificationSchema).onCall(async (req, res) => {
+    const { identifier } = req.body as z.infer<typeof resendVerificationSchema>;
+
+    // Without a session anyone can ask for this, so respond the same way whether the account exists or not
+    if (identifier) {
+        res.status(200).json({
+            success: true,
+            message: "If an account with this username or email is waiting for verification, a new link has been sent to it.",
+        });
+
+        const user = await userModel.findOne(
+            identifier.includes("@") ? { primaryEmail: identifier } : { username: identifier },
+            { userId: 1, primaryEmail: 1, language: 1, profile: 1, emailVerified: 1, emailVerification: 1 },
+        ).lean();
+        if (!user || user.emailVerified || !user.primaryEmail || getResendCooldown(user.emailVerification) > 0) {
+            logger.debug(`Verification email not resent for identifier from IP: ${req.ip}`);
+            return;
+        }
+
+        try {
+            await issueEmailVerification(user);
+        } catch (error) {
+            logger.error(`Failed to resend email verification to user ${user.userId}: ${(error as Error).message || "Unknown Error"}`);
+        }
+        return;
     }
 
-    // Mark as verified
-    user.emailVerified = true;
-    user.emailVerification = undefined;
-    user.markModified("emailVerification");
-    await user.save();
+    if (!await validateJWTRequest(req, res)) throw new UnauthorizedError("Log in or provide your username or email to get a new verification link.");
 
-    logger.info(`Email verification successful for user: ${user.userId}`);
-    res.send(htmlReturn(`Email verification successful! You can now log in <a style="color: red;" href="${CONFIG.domain.frontendUri}/login">here</a>.`));
-});
\ No newline at end of file
+    const user = await userModel.findOne({ userId: req.user.userId }, { userId: 1, primaryEmail: 1, language: 1, profile: 1, emailVerified: 1, emailVerification: 1 }).lean();
+    if (!user) throw new NotFoundError("User not found.");
+    if (!user.primaryEmail) throw new BadRequestError("Your account doesn't have an email to verify.");
+    if (user.emailVerified) throw new BadRequestError("Your email has already been verified.", {}, "Already Verified");
+
+    const cooldown = getResendCooldown(user.emailVerification);
+    if (cooldown > 0) throw new TooManyRequestsError(Math.ceil(cooldown / 1000), "A verification email was sent recently, please check your inbox or try again later.");
+
+    await issueEmailVerification(user);
+
+    res.status(200).json({
+        success: true,
+        message: "A new verification link has been sent to your email.",
+    });
+});
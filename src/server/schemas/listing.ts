@@ -0,0 +1,10 @@
+import { z } from "zod";
+
+export const listingSchema = z.object({
+    listingId: z.string(),
+    ownerUserId: z.string(),
+    thumbnailUrl: z.string().nullish(),
+    shortDescription: z.string().nullish(),
+    createdAt: z.date().nullish(),
+    updatedAt: z.date().nullish(),
+});
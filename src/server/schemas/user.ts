@@ -0,0 +1,67 @@
+import { z } from "zod";
+
+// Shared response schemas for user data, anything not declared here is stripped from responses
+
+const moderationStateSchema = z.object({
+    isBanned: z.boolean().nullish(),
+    bannedAt: z.date().nullish(),
+    banReason: z.string().nullish(),
+    unbannedAt: z.date().nullish(),
+});
+
+const muteStateSchema = z.object({
+    isMuted: z.boolean().nullish(),
+    mutedAt: z.date().nullish(),
+    muteReason: z.string().nullish(),
+    unmutedAt: z.date().nullish(),
+});
+
+export const userProfileSchema = z.object({
+    bio: z.string().nullish(),
+    profilePicture: z.string().nullish(),
+    firstName: z.string(),
+    lastName: z.string(),
+});
+
+export const userModerationSchema = z.object({
+    ban: moderationStateSchema.nullish(),
+    muted: muteStateSchema.nullish(),
+    jobListingBan: moderationStateSchema.nullish(),
+});
+
+/** User data that is safe to show to anyone */
+export const publicUserSchema = z.object({
+    userId: z.string(),
+    username: z.string().nullish(),
+    isAdmin: z.boolean().nullish(),
+    profile: userProfileSchema,
+    moderation: userModerationSchema.nullish(),
+    createdAt: z.date().nullish(),
+    updatedAt: z.date().nullish(),
+});
+
+/** User data that is safe to show to the user themselves */
+export const selfUserSchema = publicUserSchema.extend({
+    primaryEmail: z.string().nullish(),
+    emailVerified: z.boolean().nullish(),
+    phoneNumber: z.string().nullish(),
+    phoneVerified: z.boolean().nullish(),
+    pendingEmailChange: z.object({
+        newEmail: z.string(),
+        requestedAt: z.date(),
+    }).nullish(),
+    deletion: z.object({
+        requestedAt: z.date(),
+        scheduledFor: z.date(),
+    }).nullish(),
+    language: z.string().nullish(),
+    roles: z.array(z.string()).nullish(),
+    permissions: z.array(z.string()).nullish(),
+});
+
+export const tokenPayloadSchema = z.object({
+    userId: z.string(),
+    expires: z.number().optional(),
+    exp: z.number().optional(),
+    iat: z.number().optional(),
+});
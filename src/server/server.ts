@@ -8,6 +8,9 @@ import cookies from "cookie-parser";
 const logger = getLogger("SERVER");
 export const app = express();
 
+// Resolve the client IP from X-Forwarded-For when behind a proxy, rate limiting relies on it
+app.set("trust proxy", CONFIG.server.trustProxy);
+
 // Configuration Middleware
 app.use(cors({
     origin: (origin, callback) => {
@@ -22,7 +25,8 @@ app.use(cors({
     },
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-API-Key'],
+    exposedHeaders: ['Retry-After', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset'],
 }));
 
 app.use(express.json());
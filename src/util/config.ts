@@ -1,11 +1,20 @@
 import { getLogger } from './logger';
 import { stime } from './static';
 
+/** Parse the TRUST_PROXY variable into a value accepted by Express, e.g. "true", a hop count ("1") or a list of subnets */
+function parseTrustProxy(value?: string): boolean | number | string {
+    if (!value || value === 'false') return false;
+    if (value === 'true') return true;
+    return /^\d+$/.test(value) ? Number(value) : value;
+}
+
 export const CONFIG = {
     /** Server configuration */
     server: {
         /** The port the main server will listen on */
         port: process.env.PORT || 3000,
+        /** Express "trust proxy" setting, set this when running behind a reverse proxy so client IPs are resolved correctly (Default: disabled) */
+        trustProxy: parseTrustProxy(process.env.TRUST_PROXY),
     },
 
     /** The log level of the application */
@@ -13,14 +22,24 @@ export const CONFIG = {
 
     /** JWT configuration */
     jwt: {
-        /** Secret key for signing access tokens */
+        /** Algorithm access tokens are signed with, RS256 or EdDSA use rotating keys published on /.well-known/jwks.json, HS256 signs with the shared secret (default: RS256) */
+        algorithm: (process.env.JWT_ALGORITHM || "RS256") as "RS256" | "EdDSA" | "HS256",
+        /** Secret key for signing access tokens with HS256, tokens without a key ID are still verified with it */
         secret: process.env.JWT_SECRET || "secret" as string,
-        /** Secret key for signing refresh tokens */
+        /** Secret key for signing refresh tokens, they are only ever verified by us so they stay HS256 */
         refreshSecret: process.env.JWT_REFRESH_SECRET || "refresh_secret" as string,
         /** Access token expiry time in milliseconds (default: 15 minutes) */
         accessTokenExpiry: Number(process.env.ACCESS_TOKEN_EXPIRY_MS) || stime.minute * 15,
         /** Refresh token expiry time in milliseconds (default: 7 days) */
         refreshTokenExpiry: Number(process.env.REFRESH_TOKEN_EXPIRY_MS) || stime.day * 7,
+        /** How long after rotation a refresh token may be presented again without revoking its session, covers concurrent requests (default: 10 seconds) */
+        reuseGracePeriod: Number(process.env.REFRESH_TOKEN_REUSE_GRACE_MS) || 1000 * 10,
+        /** Secret signing keys and two-factor secrets are encrypted with in the database (default: JWT_SECRET) */
+        keyEncryptionSecret: process.env.JWT_KEY_ENCRYPTION_SECRET || process.env.JWT_SECRET || "secret" as string,
+        /** How long a signing key is used before it's rotated in milliseconds (default: 30 days) */
+        keyRotationInterval: Number(process.env.JWT_KEY_ROTATION_INTERVAL_MS) || stime.day * 30,
+        /** How long a new signing key is published before it's used in milliseconds, gives services time to refresh their JWKS (default: 1 day) */
+        keyActivationDelay: Number(process.env.JWT_KEY_ACTIVATION_DELAY_MS) || stime.day,
     },
 
     /** Domain configuration */
@@ -37,10 +56,14 @@ export const CONFIG = {
     signUp: {
         /** Whether sign-up is enabled (Default: true) */
         enabled: process.env.SIGN_UP_ENABLED !== 'false',
-        /** Whether email is required for sign-up (Default: true) */
+        /** Whether email is required for sign-up, a phone number counts as well (Default: true) */
         requireEmail: process.env.SIGNUP_REQUIRE_EMAIL !== 'false',
         /** Whether email verification is required for sign-up (Default: false) */
         requireEmailVerification: process.env.SIGNUP_REQUIRE_EMAIL_VERIFICATION === 'true',
+        /** How long an email verification link stays valid in milliseconds (Default: 24 hours) */
+        emailVerificationExpiry: Number(process.env.SIGNUP_EMAIL_VERIFICATION_EXPIRY_MS) || stime.hour * 24,
+        /** Minimum time between two verification emails to the same user in milliseconds (Default: 2 minutes) */
+        emailVerificationResendCooldown: Number(process.env.SIGNUP_EMAIL_VERIFICATION_RESEND_COOLDOWN_MS) || stime.minute * 2,
     },
 
     /** Configuration in regards to emails */
@@ -59,10 +82,23 @@ export const CONFIG = {
         smtpUser: process.env.SMTP_USER,
         /** SMTP password for authentication */
         smtpPassword: process.env.SMTP_PASSWORD,
+        /** How emails are delivered: "smtp", or "console" and "file" for development and tests (Default: smtp) */
+        transport: (process.env.EMAIL_TRANSPORT || 'smtp') as "smtp" | "console" | "file",
+        /** Directory the file transport writes emails to */
+        fileDirectory: process.env.EMAIL_FILE_DIRECTORY || './mail',
+        /** Language emails are sent in when the user hasn't chosen one (Default: en) */
+        defaultLanguage: process.env.EMAIL_DEFAULT_LANGUAGE || 'en',
+        /** Delivery attempts before an email is marked as failed (Default: 6) */
+        maxAttempts: Number(process.env.EMAIL_MAX_ATTEMPTS) || 6,
+        /** Delay before the first retry in milliseconds, doubles with every failed attempt (Default: 1 minute) */
+        retryDelay: Number(process.env.EMAIL_RETRY_DELAY_MS) || stime.minute,
+        /** How long emails are kept in the outbox in milliseconds (Default: 30 days) */
+        retention: Number(process.env.EMAIL_RETENTION_MS) || stime.day * 30,
     },
 
     /** Configuration relating to user moderation */
     moderation: {
+        /** Bootstrap super-admins, these users always have every permission regardless of their roles */
         adminUserIds: (process.env.ADMIN_USER_IDS || '').split(',').map(id => id.trim()).filter(id => id.length > 0),
     },
 
@@ -70,6 +106,110 @@ export const CONFIG = {
     login: {
         /** Whether login is enabled (Default: true) */
         enabled: process.env.LOGIN_ENABLED !== 'false',
+        /** Failed logins in a row before an account is locked (Default: 10) */
+        maxFailedAttempts: Number(process.env.LOGIN_MAX_FAILED_ATTEMPTS) || 10,
+        /** Failed logins from a single IP, across all accounts, before the IP is locked (Default: 50) */
+        maxFailedAttemptsPerIp: Number(process.env.LOGIN_MAX_FAILED_ATTEMPTS_PER_IP) || 50,
+        /** How long an account or IP stays locked in milliseconds (Default: 15 minutes) */
+        lockoutDuration: Number(process.env.LOGIN_LOCKOUT_DURATION_MS) || stime.minute * 15,
+        /** How long failed logins are remembered without new failures in milliseconds (Default: 1 hour) */
+        failureWindow: Number(process.env.LOGIN_FAILURE_WINDOW_MS) || stime.hour,
+        /** Whether users can log in with a link sent to their email instead of a password (Default: true) */
+        magicLinkEnabled: process.env.LOGIN_MAGIC_LINK_ENABLED !== 'false',
+        /** How long a magic login link stays valid in milliseconds (Default: 15 minutes) */
+        magicLinkExpiry: Number(process.env.LOGIN_MAGIC_LINK_EXPIRY_MS) || stime.minute * 15,
+        /** Whether users can log in with a code sent to their verified phone number (Default: true) */
+        phoneOtpEnabled: process.env.LOGIN_PHONE_OTP_ENABLED !== 'false',
+    },
+
+    /** Configuration relating to the password policy, applied whenever a password is set */
+    password: {
+        /** Minimum password length (Default: 8) */
+        minLength: Number(process.env.PASSWORD_MIN_LENGTH) || 8,
+        /** Maximum password length, bcrypt ignores anything past 72 bytes so it can't be higher (Default: 72) */
+        maxLength: Math.min(Number(process.env.PASSWORD_MAX_LENGTH) || 72, 72),
+        /** Whether passwords need a lowercase letter (Default: false) */
+        requireLowercase: process.env.PASSWORD_REQUIRE_LOWERCASE === 'true',
+        /** Whether passwords need an uppercase letter (Default: false) */
+        requireUppercase: process.env.PASSWORD_REQUIRE_UPPERCASE === 'true',
+        /** Whether passwords need a number (Default: false) */
+        requireNumber: process.env.PASSWORD_REQUIRE_NUMBER === 'true',
+        /** Whether passwords need a symbol (Default: false) */
+        requireSymbol: process.env.PASSWORD_REQUIRE_SYMBOL === 'true',
+        /** Whether passwords may not contain the username, email or name of the user (Default: true) */
+        disallowPersonalInfo: process.env.PASSWORD_DISALLOW_PERSONAL_INFO !== 'false',
+        /** Whether common breached passwords are rejected (Default: true) */
+        blockCommonPasswords: process.env.PASSWORD_BLOCK_COMMON !== 'false',
+        /** Minimum strength score from 0 (very weak) to 4 (very strong) (Default: 2) */
+        minStrength: Number(process.env.PASSWORD_MIN_STRENGTH ?? 2),
+    },
+
+    /** Configuration relating to two-factor authentication */
+    twoFactor: {
+        /** Name shown in authenticator apps (Default: GigTree) */
+        issuer: process.env.TWO_FACTOR_ISSUER || "GigTree",
+        /** Whether staff (users with any role, and super-admins) need two-factor authentication to use their permissions (Default: true) */
+        requiredForStaff: process.env.TWO_FACTOR_REQUIRED_FOR_STAFF !== 'false',
+        /** How long the second login step can take in milliseconds (Default: 5 minutes) */
+        challengeExpiry: Number(process.env.TWO_FACTOR_CHALLENGE_EXPIRY_MS) || stime.minute * 5,
+    },
+
+    /** Configuration relating to changing emails */
+    emailChange: {
+        /** How long the confirmation and cancel links of an email change stay valid in milliseconds (Default: 24 hours) */
+        tokenExpiry: Number(process.env.EMAIL_CHANGE_TOKEN_EXPIRY_MS) || stime.hour * 24,
+    },
+
+    /** Configuration relating to users deleting their own account */
+    accountDeletion: {
+        /** How long after a confirmed deletion request the account is deleted, the user can cancel until then (Default: 14 days) */
+        gracePeriod: Number(process.env.ACCOUNT_DELETION_GRACE_PERIOD_MS) || stime.day * 14,
+        /** How long the link confirming a deletion request stays valid in milliseconds (Default: 24 hours) */
+        tokenExpiry: Number(process.env.ACCOUNT_DELETION_TOKEN_EXPIRY_MS) || stime.hour * 24,
+    },
+
+    /** Configuration relating to password resets */
+    passwordReset: {
+        /** How long a password reset link stays valid in milliseconds (Default: 1 hour) */
+        tokenExpiry: Number(process.env.PASSWORD_RESET_TOKEN_EXPIRY_MS) || stime.hour,
+    },
+
+    /** Configuration in regards to SMS messages and phone numbers */
+    sms: {
+        /** Where text messages are sent: "console" and "file" for development, "http" for a real gateway (Default: console) */
+        provider: (process.env.SMS_PROVIDER || 'console') as "console" | "file" | "http",
+        /** Sender ID shown on text messages, if the gateway supports it */
+        from: process.env.SMS_FROM || 'GigTree',
+        /** File text messages are appended to by the file provider */
+        filePath: process.env.SMS_FILE_PATH || './sms.log',
+        /** URL of the HTTP gateway, receives a JSON POST with `to`, `from` and `message` */
+        gatewayUrl: process.env.SMS_GATEWAY_URL,
+        /** API key sent to the HTTP gateway as a bearer token */
+        gatewayApiKey: process.env.SMS_GATEWAY_API_KEY,
+        /** Country calling code assumed for numbers without one (Default: 27, South Africa) */
+        defaultCountryCode: (process.env.SMS_DEFAULT_COUNTRY_CODE || '27').replace(/^\+/, ''),
+        /** How long a code sent by SMS stays valid in milliseconds (Default: 10 minutes) */
+        codeExpiry: Number(process.env.SMS_CODE_EXPIRY_MS) || stime.minute * 10,
+        /** Wrong guesses before a code is invalidated (Default: 5) */
+        maxCodeAttempts: Number(process.env.SMS_MAX_CODE_ATTEMPTS) || 5,
+        /** Minimum time between two codes sent to the same user in milliseconds (Default: 1 minute) */
+        resendCooldown: Number(process.env.SMS_RESEND_COOLDOWN_MS) || stime.minute,
+    },
+
+    /** Configuration relating to personal API keys */
+    apiKeys: {
+        /** Maximum amount of active API keys per user (Default: 10) */
+        maxPerUser: Number(process.env.API_KEY_MAX_PER_USER) || 10,
+        /** Maximum requests per hour with a single API key, users can set lower limits on their own keys (Default: 1000) */
+        rateLimit: Number(process.env.API_KEY_RATE_LIMIT) || 1000,
+    },
+
+    /** Configuration relating to rate limiting */
+    rateLimit: {
+        /** Whether rate limiting is enabled (Default: true) */
+        enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+        /** Where rate limit counters are kept, use "mongo" when running multiple instances (Default: memory) */
+        store: (process.env.RATE_LIMIT_STORE === 'mongo' ? 'mongo' : 'memory') as "memory" | "mongo",
     },
 
     /** Configuration relating to databases */
@@ -95,11 +235,31 @@ if (CONFIG.jwt.secret == "secret" || CONFIG.jwt.refreshSecret == "refresh_secret
     console.warn("Using default JWT secrets. Please set JWT_SECRET and JWT_REFRESH_SECRET environment variables for production use.");
 }
 
+if (!["RS256", "EdDSA", "HS256"].includes(CONFIG.jwt.algorithm)) {
+    throw new Error(`Unsupported JWT_ALGORITHM "${CONFIG.jwt.algorithm}", use RS256, EdDSA or HS256.`);
+}
+
+if (!["smtp", "console", "file"].includes(CONFIG.mail.transport)) {
+    throw new Error(`Unsupported EMAIL_TRANSPORT "${CONFIG.mail.transport}", use smtp, console or file.`);
+}
+
+if (!["console", "file", "http"].includes(CONFIG.sms.provider)) {
+    throw new Error(`Unsupported SMS_PROVIDER "${CONFIG.sms.provider}", use console, file or http.`);
+}
+
+if (CONFIG.sms.provider === "http" && !CONFIG.sms.gatewayUrl) {
+    throw new Error("SMS_PROVIDER is set to http, but SMS_GATEWAY_URL is missing.");
+}
+
 // Assumed okay for development mode
 if (CONFIG.nodeEnv === "production" && CONFIG.domain.base === "localhost") {
     console.warn("Heads up! Running in production mode with BASE_DOMAIN set to 'localhost', consider changing this for production.");
 }
 
+if (CONFIG.nodeEnv === "production" && CONFIG.sms.provider !== "http") {
+    console.warn(`Heads up! Running in production mode with SMS_PROVIDER set to '${CONFIG.sms.provider}', text messages won't reach anyone.`);
+}
+
 // Validate Required Variables
 function checkRequiredEnv() {
     const errors = [];
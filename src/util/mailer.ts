@@ -1,34 +1,117 @@
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
 import nodemailer from "nodemailer";
 import CONFIG from "./config";
 import { getLogger } from "./logger";
 
 const logger = getLogger("UTIL.MAILER");
 
-const transporter = CONFIG.mail.enabled ? nodemailer.createTransport({
-    host: CONFIG.mail.smtpHost,
-    port: CONFIG.mail.smtpPort,
-    secure: CONFIG.mail.smtpSecure,
-    auth: {
-        user: CONFIG.mail.smtpUser,
-        pass: CONFIG.mail.smtpPassword
+/** A fully rendered email, ready to be delivered */
+export type EmailMessage = {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+};
+
+/** Something that can deliver emails, implement this to add another way of sending them */
+export interface EmailTransport {
+    /** Name of the transport, for logging and the outbox */
+    readonly name: string;
+    /**
+     * Deliver an email
+     * @returns The ID the transport gave the message, if any
+     * @throws {Error} If the email couldn't be delivered
+     */
+    send(message: EmailMessage): Promise<{ messageId?: string }>;
+}
+
+// TRANSPORTS
+
+/** Sends emails through the configured SMTP server */
+export class SmtpEmailTransport implements EmailTransport {
+    readonly name = "smtp";
+
+    private transporter = nodemailer.createTransport({
+        host: CONFIG.mail.smtpHost,
+        port: CONFIG.mail.smtpPort,
+        secure: CONFIG.mail.smtpSecure,
+        auth: {
+            user: CONFIG.mail.smtpUser,
+            pass: CONFIG.mail.smtpPassword
+        }
+    });
+
+    async send(message: EmailMessage): Promise<{ messageId?: string }> {
+        const info = await this.transporter.sendMail({ from: CONFIG.mail.from, ...message });
+        return { messageId: info.messageId };
     }
-}) : undefined;
+}
+
+/** Logs emails instead of sending them, for development */
+export class ConsoleEmailTransport implements EmailTransport {
+    readonly name = "console";
+
+    async send(message: EmailMessage): Promise<{ messageId?: string }> {
+        logger.info(`Email to ${message.to}: ${message.subject}\n\n${message.text}`);
+        return {};
+    }
+}
+
+/** Writes every email to its own JSON file instead of sending it, so development and tests can inspect them */
+export class FileEmailTransport implements EmailTransport {
+    readonly name = "file";
+
+    constructor(private readonly directory: string) { }
 
-/** Sends an email to someone, requires SMTP to be configured */
-export async function sendEmail(to: string, subject: string, text: string, html?: string): Promise<void> {
-    if (!transporter) {
+    async send(message: EmailMessage): Promise<{ messageId?: string }> {
+        const messageId = `${Date.now()}-${crypto.randomBytes(4).toString("hex")}`;
+        await fs.mkdir(this.directory, { recursive: true });
+        await fs.writeFile(
+            path.join(this.directory, `${messageId}.json`),
+            JSON.stringify({ messageId, from: CONFIG.mail.from, ...message, sentAt: new Date().toISOString() }, null, 2),
+            "utf8",
+        );
+        return { messageId };
+    }
+}
+
+function createTransport(): EmailTransport | undefined {
+    if (!CONFIG.mail.enabled) return undefined;
+    switch (CONFIG.mail.transport) {
+        case "console": return new ConsoleEmailTransport();
+        case "file": return new FileEmailTransport(CONFIG.mail.fileDirectory);
+        default: return new SmtpEmailTransport();
+    }
+}
+
+let transport = createTransport();
+
+/** Replace the configured transport, e.g. with an email API that needs its own client */
+export function setEmailTransport(newTransport: EmailTransport): void {
+    transport = newTransport;
+    logger.info(`Using email transport: ${newTransport.name}`);
+}
+
+/** Name of the transport emails are currently delivered through, undefined if email sending is disabled */
+export function getEmailTransportName(): string | undefined {
+    return transport?.name;
+}
+
+/**
+ * Deliver an email right away through the configured transport.
+ * Most emails should go through `queueEmail` from `src/email/outbox.ts` instead, which renders a template and retries failures.
+ */
+export async function sendEmail(to: string, subject: string, text: string, html?: string): Promise<{ messageId?: string }> {
+    if (!transport) {
         logger.warn("Email sending is disabled in the configuration.");
         return Promise.reject(new Error("Email sending is disabled in the configuration."));
     }
 
-    const mailOptions = {
-        from: CONFIG.mail.from,
-        to, subject, text, html
-    };
-
     try {
-        logger.debug(`Sending email to ${to} with subject "${subject}"`);
-        await transporter.sendMail(mailOptions);
+        logger.debug(`Sending email to ${to} with subject "${subject}" through ${transport.name}`);
+        return await transport.send({ to, subject, text, html });
     } catch (error) {
         logger.error("Error sending email:", error);
         return Promise.reject(error);
@@ -0,0 +1,32 @@
+import CONFIG from "./config";
+
+/** E.164: a plus, a country code that doesn't start with 0 and at most 15 digits in total */
+const E164_REGEX = /^\+[1-9]\d{7,14}$/;
+/** Characters people commonly use to format phone numbers */
+const FORMATTING_REGEX = /[\s\-().]/g;
+
+/**
+ * Normalise a phone number to E.164 (e.g. "082 123 4567" becomes "+27821234567")
+ * Numbers without a country code are assumed to be from `CONFIG.sms.defaultCountryCode`.
+ * @returns The number in E.164 format, or null if it isn't a valid phone number
+ */
+export function normalizePhoneNumber(input: string): string | null {
+    let number = input.trim().replace(FORMATTING_REGEX, "");
+
+    if (number.startsWith("00")) number = `+${number.slice(2)}`; // International prefix
+    else if (number.startsWith("0")) number = `+${CONFIG.sms.defaultCountryCode}${number.slice(1)}`; // National trunk prefix
+    else if (!number.startsWith("+")) return null; // Without either it could be anything, e.g. a username made of digits
+
+    return E164_REGEX.test(number) ? number : null;
+}
+
+/** Whether some input (e.g. a login identifier) is a phone number rather than a username or email */
+export function isPhoneNumber(input: string): boolean {
+    return /^[+0(][\d\s\-().]+$/.test(input.trim()) && normalizePhoneNumber(input) !== null;
+}
+
+/** Hide most of a phone number for logs and messages, e.g. "+27*****4567" */
+export function maskPhoneNumber(phoneNumber: string): string {
+    if (phoneNumber.length <= 7) return phoneNumber;
+    return `${phoneNumber.slice(0, 3)}${"*".repeat(phoneNumber.length - 7)}${phoneNumber.slice(-4)}`;
+}
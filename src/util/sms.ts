@@ -0,0 +1,90 @@
+import fs from "fs/promises";
+import CONFIG from "./config";
+import { getLogger } from "./logger";
+import { maskPhoneNumber } from "./phone";
+
+const logger = getLogger("UTIL.SMS");
+
+/** Something that can deliver text messages, implement this to add another gateway */
+export interface SmsProvider {
+    /** Name of the provider, for logging */
+    readonly name: string;
+    /**
+     * Deliver a text message
+     * @param to Phone number in E.164 format
+     * @param message Text of the message
+     * @throws {Error} If the message couldn't be handed to the gateway
+     */
+    send(to: string, message: string): Promise<void>;
+}
+
+// PROVIDERS
+
+/** Logs text messages instead of sending them, for development */
+export class ConsoleSmsProvider implements SmsProvider {
+    readonly name = "console";
+
+    async send(to: string, message: string): Promise<void> {
+        logger.info(`SMS to ${to}: ${message}`);
+    }
+}
+
+/** Appends text messages to a file instead of sending them, for development and tests */
+export class FileSmsProvider implements SmsProvider {
+    readonly name = "file";
+
+    constructor(private readonly filePath: string) { }
+
+    async send(to: string, message: string): Promise<void> {
+        const entry = { to, from: CONFIG.sms.from, message, sentAt: new Date().toISOString() };
+        await fs.appendFile(this.filePath, `${JSON.stringify(entry)}\n`, "utf8");
+    }
+}
+
+/** Sends text messages through an HTTP gateway, as a JSON POST with `to`, `from` and `message` */
+export class HttpSmsProvider implements SmsProvider {
+    readonly name = "http";
+
+    constructor(private readonly url: string, private readonly apiKey?: string) { }
+
+    async send(to: string, message: string): Promise<void> {
+        const response = await fetch(this.url, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                ...(this.apiKey ? { "Authorization": `Bearer ${this.apiKey}` } : {}),
+            },
+            body: JSON.stringify({ to, from: CONFIG.sms.from, message }),
+            signal: AbortSignal.timeout(10000),
+        });
+
+        if (!response.ok) throw new Error(`SMS gateway responded with ${response.status} ${response.statusText}`);
+    }
+}
+
+function createProvider(): SmsProvider {
+    switch (CONFIG.sms.provider) {
+        case "file": return new FileSmsProvider(CONFIG.sms.filePath);
+        case "http": return new HttpSmsProvider(CONFIG.sms.gatewayUrl!, CONFIG.sms.gatewayApiKey);
+        default: return new ConsoleSmsProvider();
+    }
+}
+
+let provider: SmsProvider = createProvider();
+
+/** Replace the configured provider, e.g. with a gateway that needs its own client */
+export function setSmsProvider(newProvider: SmsProvider): void {
+    provider = newProvider;
+    logger.info(`Using SMS provider: ${newProvider.name}`);
+}
+
+/** Sends a text message to a phone number in E.164 format */
+export async function sendSms(to: string, message: string): Promise<void> {
+    try {
+        logger.debug(`Sending SMS to ${maskPhoneNumber(to)} through ${provider.name}`);
+        await provider.send(to, message);
+    } catch (error) {
+        logger.error("Error sending SMS:", error);
+        return Promise.reject(error);
+    }
+}
@@ -0,0 +1,19 @@
+import { vi } from "vitest";
+import emailOutboxModel from "../../src/mongoose/models/email_outbox";
+import { query } from "./mongoose";
+
+/**
+ * Keep queued emails in the outbox instead of delivering them
+ * @returns Spy on the outbox, each call holds the rendered email (`to`, `subject`, `text`, ...)
+ */
+export function captureEmails() {
+    vi.spyOn(emailOutboxModel, "findOneAndUpdate").mockReturnValue(query(null));
+    return vi.spyOn(emailOutboxModel, "create").mockImplementation((async (email: any) => ({ emailId: "email_1", ...email })) as any);
+}
+
+/** Find the first link in an email that carries a token, e.g. a password reset link */
+export function getTokenFromEmail(email: { text?: string }): string {
+    const match = /[?&]token=([\w-]+)/.exec(email.text || "");
+    if (!match) throw new Error(`No token link in email: ${email.text}`);
+    return match[1];
+}
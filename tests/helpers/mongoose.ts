@@ -0,0 +1,32 @@
+/**
+ * Stand-in for a Mongoose query resolving to the given result, for stubbing model methods with `vi.spyOn`.
+ * Chained calls like `.lean()` or `.sort()` return the same query, so the code under test can use them freely.
+ */
+export function query<T>(result: T): any {
+    const chain: any = {
+        then: (resolve: (value: T) => unknown, reject?: (reason: unknown) => unknown) => Promise.resolve(result).then(resolve, reject),
+        catch: (reject: (reason: unknown) => unknown) => Promise.resolve(result).catch(reject),
+        exec: async () => result,
+    };
+    for (const method of ["lean", "sort", "limit", "skip", "select", "session", "populate"]) chain[method] = () => chain;
+    return chain;
+}
+
+/** Stand-in for a query that fails, e.g. with a duplicate key error */
+export function failingQuery(error: unknown): any {
+    const chain = query(undefined);
+    chain.then = (resolve: unknown, reject?: (reason: unknown) => unknown) => Promise.reject(error).then(undefined, reject);
+    chain.catch = (reject: (reason: unknown) => unknown) => Promise.reject(error).catch(reject);
+    chain.exec = async () => { throw error; };
+    return chain;
+}
+
+/** Result of an `updateOne` or `updateMany` call */
+export function updateResult(modifiedCount: number, matchedCount = modifiedCount) {
+    return { acknowledged: true, matchedCount, modifiedCount, upsertedCount: 0, upsertedId: null };
+}
+
+/** Result of a `deleteOne` or `deleteMany` call */
+export function deleteResult(deletedCount: number) {
+    return { acknowledged: true, deletedCount };
+}
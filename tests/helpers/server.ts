@@ -0,0 +1,41 @@
+import { Server } from "http";
+import { AddressInfo } from "net";
+import jwt from "jsonwebtoken";
+import { afterAll, beforeAll } from "vitest";
+import { app } from "../../src/server/server";
+import CONFIG from "../../src/util/config";
+import { TokenPayload } from "../../src/server/auth/jwt";
+
+/**
+ * Serve the app on a random port for the tests in the current file, import the routes under test before calling this.
+ * @returns A function to call the API with, JSON bodies are sent and parsed automatically
+ */
+export function useServer() {
+    let server: Server;
+    let baseUrl = "";
+
+    beforeAll(() => new Promise<void>(resolve => {
+        server = app.listen(0, () => {
+            baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+            resolve();
+        });
+    }));
+    afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+    return async (route: string, body?: unknown, headers: Record<string, string> = {}) => {
+        const [method, path] = route.split(":/");
+        const response = await fetch(`${baseUrl}/${path}`, {
+            method,
+            headers: { "Content-Type": "application/json", ...headers },
+            body: body === undefined ? undefined : JSON.stringify(body),
+            // Redirects point to the frontend, which isn't running
+            redirect: "manual",
+        });
+        return { status: response.status, headers: response.headers, body: await response.json().catch(() => null) };
+    };
+}
+
+/** Headers authenticating as the given user with a bearer access token, tests sign with the shared secret (`JWT_ALGORITHM=HS256`) */
+export function bearer(payload: Omit<TokenPayload, "expires">): Record<string, string> {
+    return { Authorization: `Bearer ${jwt.sign(payload, CONFIG.jwt.secret, { algorithm: "HS256", expiresIn: 60 })}` };
+}
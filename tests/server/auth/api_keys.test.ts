@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from "vitest";
+import { userModel } from "../../../src/mongoose";
+import apiKeyModel from "../../../src/mongoose/models/api_key";
+import listingModel from "../../../src/mongoose/models/listing";
+import { authenticateApiKey, generateApiKey, hashApiKey } from "../../../src/server/auth/api_keys";
+import { ForbiddenError } from "../../../src/server/errors";
+import "../../../src/server/routes/user/getListing";
+import { query, updateResult } from "../../helpers/mongoose";
+import { useServer } from "../../helpers/server";
+
+const call = useServer();
+
+/** Stub a stored key and its owner, returns the key to send */
+function stubApiKey(overrides: Record<string, unknown> = {}, owner: Record<string, unknown> | null = { userId: "user_1" }) {
+    const { key, prefix, keyHash } = generateApiKey();
+    vi.spyOn(apiKeyModel, "findOne").mockReturnValue(query({ keyId: "key_1", userId: "user_1", prefix, keyHash, scopes: ["listings:read"], rateLimit: 100, ...overrides }));
+    vi.spyOn(apiKeyModel, "updateOne").mockReturnValue(query(updateResult(1)));
+    vi.spyOn(userModel, "findOne").mockReturnValue(query(owner));
+    return key;
+}
+
+describe("authenticateApiKey", () => {
+    it("finds keys by their hash", async () => {
+        const key = stubApiKey();
+
+        expect(await authenticateApiKey(key)).toMatchObject({ keyId: "key_1", userId: "user_1" });
+        expect(apiKeyModel.findOne).toHaveBeenCalledWith({ keyHash: hashApiKey(key) });
+    });
+
+    it("rejects revoked and expired keys", async () => {
+        expect(await authenticateApiKey(stubApiKey({ revokedAt: new Date() }))).toBeNull();
+        expect(await authenticateApiKey(stubApiKey({ expiresAt: new Date(Date.now() - 1000) }))).toBeNull();
+    });
+
+    it("rejects keys of banned users", async () => {
+        const key = stubApiKey({}, { userId: "user_1", moderation: { ban: { isBanned: true, banReason: "Scamming" } } });
+
+        await expect(authenticateApiKey(key)).rejects.toThrow(ForbiddenError);
+    });
+});
+
+describe("API key routes", () => {
+    it("accepts keys with the scopes the route needs", async () => {
+        const key = stubApiKey();
+        vi.spyOn(listingModel, "findOne").mockReturnValue(query(null));
+
+        const response = await call("GET:/api/user/listing", undefined, { "X-API-Key": key });
+
+        // Authenticated as the owner of the key, who has no listing
+        expect(response.status).toBe(404);
+        expect(listingModel.findOne).toHaveBeenCalledWith({ ownerUserId: "user_1" });
+    });
+
+    it("rejects keys without the scopes the route needs", async () => {
+        const key = stubApiKey({ scopes: ["profile:read"] });
+
+        const response = await call("GET:/api/user/listing", undefined, { Authorization: `Bearer ${key}` });
+
+        expect(response.status).toBe(403);
+        expect(response.body.requiredScopes).toEqual(["listings:read"]);
+    });
+});
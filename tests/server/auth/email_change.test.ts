@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { userModel } from "../../../src/mongoose";
+import oneTimeTokenModel from "../../../src/mongoose/models/one_time_token";
+import securityEventModel from "../../../src/mongoose/models/security_event";
+import { cancelEmailChange, confirmEmailChange, requestEmailChange } from "../../../src/server/auth/email_change";
+import { jwtService } from "../../../src/server/auth/jwt";
+import { BadRequestError, ConflictError } from "../../../src/server/errors";
+import { captureEmails } from "../../helpers/email";
+import { query, updateResult } from "../../helpers/mongoose";
+
+const user = { userId: "user_1", primaryEmail: "thabo@example.com", profile: { firstName: "Thabo" } };
+const newEmail = "thabo.nkosi@example.org";
+
+beforeEach(() => {
+    vi.spyOn(oneTimeTokenModel, "deleteMany").mockReturnValue(query({ deletedCount: 0 }));
+    vi.spyOn(oneTimeTokenModel, "create").mockResolvedValue({} as never);
+    vi.spyOn(securityEventModel, "create").mockResolvedValue({} as never);
+});
+
+describe("requestEmailChange", () => {
+    it("asks the new address to confirm and lets the old one cancel", async () => {
+        vi.spyOn(userModel, "exists").mockReturnValue(query(null));
+        const update = vi.spyOn(userModel, "updateOne").mockReturnValue(query(updateResult(1)));
+        const emails = captureEmails();
+
+        await requestEmailChange(user, newEmail);
+
+        expect(update).toHaveBeenCalledWith({ userId: "user_1" }, { $set: { pendingEmailChange: { newEmail, requestedAt: expect.any(Date) } } });
+        expect(emails).toHaveBeenCalledWith(expect.objectContaining({ to: newEmail, template: "emailChangeConfirm" }));
+        expect(emails).toHaveBeenCalledWith(expect.objectContaining({ to: user.primaryEmail, template: "emailChangeNotice" }));
+    });
+
+    it("refuses emails another account uses", async () => {
+        vi.spyOn(userModel, "exists").mockReturnValue(query({ _id: "user_2" }));
+        const update = vi.spyOn(userModel, "updateOne");
+
+        await expect(requestEmailChange(user, newEmail)).rejects.toThrow(ConflictError);
+        expect(update).not.toHaveBeenCalled();
+    });
+});
+
+describe("confirmEmailChange", () => {
+    it("swaps in the new email as verified", async () => {
+        vi.spyOn(oneTimeTokenModel, "findOneAndUpdate").mockReturnValue(query({ userId: "user_1" }));
+        vi.spyOn(userModel, "findOne").mockReturnValue(query({ ...user, pendingEmailChange: { newEmail, requestedAt: new Date() } }));
+        const update = vi.spyOn(userModel, "updateOne").mockReturnValue(query(updateResult(1)));
+
+        expect(await confirmEmailChange("confirm-token")).toEqual({ userId: "user_1", newEmail });
+        expect(update).toHaveBeenCalledWith(
+            { userId: "user_1", "pendingEmailChange.newEmail": newEmail },
+            expect.objectContaining({ $set: { primaryEmail: newEmail, emailVerified: true } }),
+        );
+        expect(securityEventModel.create).toHaveBeenCalledWith(expect.objectContaining({ type: "emailChanged", details: { previousEmail: user.primaryEmail, newEmail } }));
+    });
+
+    it("rejects invalid or expired links", async () => {
+        vi.spyOn(oneTimeTokenModel, "findOneAndUpdate").mockReturnValue(query(null));
+        const update = vi.spyOn(userModel, "updateOne");
+
+        await expect(confirmEmailChange("expired-token")).rejects.toThrow(BadRequestError);
+        expect(update).not.toHaveBeenCalled();
+    });
+});
+
+describe("cancelEmailChange", () => {
+    it("drops the pending change and logs out every session", async () => {
+        vi.spyOn(oneTimeTokenModel, "findOneAndUpdate").mockReturnValue(query({ userId: "user_1" }));
+        const update = vi.spyOn(userModel, "updateOne").mockReturnValue(query(updateResult(1)));
+        const revokeAll = vi.spyOn(jwtService, "revokeAllRefreshTokens").mockResolvedValue(3);
+
+        expect(await cancelEmailChange("cancel-token")).toBe(3);
+        expect(update).toHaveBeenCalledWith({ userId: "user_1" }, { $unset: { pendingEmailChange: 1 } });
+        expect(revokeAll).toHaveBeenCalledWith("user_1");
+    });
+});
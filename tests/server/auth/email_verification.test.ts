@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from "vitest";
+import { userModel } from "../../../src/mongoose";
+import { issueEmailVerification, verifyEmailCode } from "../../../src/server/auth/email_verification";
+import { captureEmails } from "../../helpers/email";
+import { query, updateResult } from "../../helpers/mongoose";
+
+const user = { userId: "user_1", primaryEmail: "thabo@example.com", profile: { firstName: "Thabo" } };
+
+/** Send a verification email, returning the code from its link and what was stored */
+async function issueVerification() {
+    const store = vi.spyOn(userModel, "updateOne").mockReturnValue(query(updateResult(1)));
+    const emails = captureEmails();
+
+    await issueEmailVerification(user);
+
+    const [, update] = store.mock.calls[0] as any[];
+    const code = /[?&]code=(\w+)/.exec((emails.mock.calls[0][0] as any).text)![1];
+    store.mockClear();
+    return { code, emailVerification: update.$set.emailVerification };
+}
+
+describe("email verification", () => {
+    it("only stores a hash of the code and verifies the email with the code from the link", async () => {
+        const { code, emailVerification } = await issueVerification();
+        expect(emailVerification.verificationCode).not.toBe(code);
+        expect(emailVerification.hashed).toBe(true);
+
+        const findUser = vi.spyOn(userModel, "findOne").mockReturnValue(query({ userId: user.userId, emailVerification }));
+        const verify = vi.spyOn(userModel, "updateOne").mockReturnValue(query(updateResult(1)));
+
+        expect(await verifyEmailCode(code)).toEqual({ status: "verified", userId: user.userId });
+        expect(findUser).toHaveBeenCalledWith(expect.objectContaining({ "emailVerification.verificationCode": emailVerification.verificationCode }), expect.anything());
+        expect(verify).toHaveBeenCalledWith(expect.anything(), { $set: { emailVerified: true }, $unset: { emailVerification: 1 } });
+    });
+
+    it("doesn't accept the stored hash as a code", async () => {
+        const { emailVerification } = await issueVerification();
+        const findUser = vi.spyOn(userModel, "findOne").mockReturnValue(query(null));
+
+        expect(await verifyEmailCode(emailVerification.verificationCode)).toEqual({ status: "invalid" });
+        expect(findUser).not.toHaveBeenCalledWith(expect.objectContaining({ "emailVerification.verificationCode": emailVerification.verificationCode }), expect.anything());
+    });
+
+    it("rejects expired codes", async () => {
+        const { code, emailVerification } = await issueVerification();
+        vi.spyOn(userModel, "findOne").mockReturnValue(query({ userId: user.userId, emailVerification: { ...emailVerification, expiresAt: new Date(Date.now() - 1000) } }));
+        const verify = vi.spyOn(userModel, "updateOne");
+
+        expect(await verifyEmailCode(code)).toEqual({ status: "expired" });
+        expect(verify).not.toHaveBeenCalled();
+    });
+});
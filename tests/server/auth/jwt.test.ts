@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from "vitest";
+import { RefreshToken } from "../../../src/mongoose";
+import securityEventModel from "../../../src/mongoose/models/security_event";
+import CONFIG from "../../../src/util/config";
+import { hashRefreshToken, jwtService } from "../../../src/server/auth/jwt";
+import { query, updateResult } from "../../helpers/mongoose";
+
+/** Issue a token pair for a new session, capturing the refresh token document that would have been stored */
+async function issueTokens() {
+    const store = vi.spyOn(RefreshToken, "create").mockResolvedValue({} as never);
+    const tokens = await jwtService.generateTokens({ userId: "user_1" });
+    const stored = store.mock.calls[0][0] as any;
+    store.mockClear();
+    return { ...tokens, stored };
+}
+
+describe("refresh token storage", () => {
+    it("only stores a hash of the refresh token", async () => {
+        const { refreshToken, stored } = await issueTokens();
+
+        expect(stored.tokenHash).toBe(hashRefreshToken(refreshToken));
+        expect(JSON.stringify(stored)).not.toContain(refreshToken);
+        expect(stored.sessionId).toBeTruthy();
+    });
+});
+
+describe("jwtService.rotateTokens", () => {
+    it("replaces the refresh token with a new one in the same session", async () => {
+        const { refreshToken, stored } = await issueTokens();
+        vi.spyOn(RefreshToken, "findOne").mockReturnValue(query({ ...stored, isRevoked: false }));
+        const claim = vi.spyOn(RefreshToken, "findOneAndUpdate").mockReturnValue(query({ sessionStartedAt: stored.sessionStartedAt }));
+        const store = vi.spyOn(RefreshToken, "create").mockResolvedValue({} as never);
+
+        const rotated = await jwtService.rotateTokens(refreshToken);
+
+        expect(rotated).not.toBeNull();
+        expect(rotated!.refreshToken).not.toBe(refreshToken);
+        expect(rotated!.payload.sessionId).toBe(stored.sessionId);
+        expect(claim).toHaveBeenCalledWith(
+            { tokenHash: hashRefreshToken(refreshToken), isRevoked: false },
+            { $set: { isRevoked: true, rotatedAt: expect.any(Date) } },
+            expect.anything(),
+        );
+        expect(store).toHaveBeenCalledWith(expect.objectContaining({ sessionId: stored.sessionId, tokenHash: hashRefreshToken(rotated!.refreshToken) }));
+    });
+
+    it("revokes the whole session when an already rotated token is used again", async () => {
+        const { refreshToken, stored } = await issueTokens();
+        const rotatedAt = new Date(Date.now() - CONFIG.jwt.reuseGracePeriod - 1000);
+        vi.spyOn(RefreshToken, "findOne").mockReturnValue(query({ ...stored, isRevoked: true, rotatedAt }));
+        const revoke = vi.spyOn(RefreshToken, "updateMany").mockReturnValue(query(updateResult(1)));
+        const securityEvent = vi.spyOn(securityEventModel, "create").mockResolvedValue({} as never);
+        const claim = vi.spyOn(RefreshToken, "findOneAndUpdate");
+
+        const rotated = await jwtService.rotateTokens(refreshToken, { ip: "203.0.113.7" });
+
+        expect(rotated).toBeNull();
+        expect(claim).not.toHaveBeenCalled();
+        expect(revoke).toHaveBeenCalledWith({ userId: "user_1", sessionId: stored.sessionId, isRevoked: false }, { isRevoked: true });
+        expect(securityEvent).toHaveBeenCalledWith(expect.objectContaining({ userId: "user_1", type: "refreshTokenReuse", ip: "203.0.113.7" }));
+    });
+
+    it("tolerates reuse within the grace period, when parallel requests race to rotate", async () => {
+        const { refreshToken, stored } = await issueTokens();
+        vi.spyOn(RefreshToken, "findOne").mockReturnValue(query({ ...stored, isRevoked: true, rotatedAt: new Date() }));
+        const revoke = vi.spyOn(RefreshToken, "updateMany");
+
+        expect(await jwtService.rotateTokens(refreshToken)).toBeNull();
+        expect(revoke).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,68 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// The keyring only signs when an asymmetric algorithm is configured, the config is read once on import
+vi.hoisted(() => { process.env.JWT_ALGORITHM = "EdDSA"; });
+
+import signingKeyModel from "../../../src/mongoose/models/signing_key";
+import { keyring } from "../../../src/server/auth/keyring";
+import { query, updateResult } from "../../helpers/mongoose";
+
+/** Signing keys as they would be stored in the database */
+let storedKeys: any[] = [];
+
+beforeEach(() => {
+    storedKeys = [];
+    vi.spyOn(signingKeyModel, "find").mockImplementation(() => query([...storedKeys].reverse()));
+    vi.spyOn(signingKeyModel, "create").mockImplementation((async (doc: any) => storedKeys.push(doc)) as any);
+    vi.spyOn(signingKeyModel, "updateMany").mockReturnValue(query(updateResult(0)));
+});
+
+describe("keyring", () => {
+    it("signs tokens that verify against the published public key", async () => {
+        const kid = await keyring.rotate(0);
+        const token = await keyring.sign({ userId: "user_1" }, 60_000);
+
+        expect(jwt.decode(token, { complete: true })?.header).toMatchObject({ alg: "EdDSA", kid });
+        expect(await keyring.verify(token)).toMatchObject({ userId: "user_1" });
+
+        const [jwk] = await keyring.getPublicKeys();
+        expect(jwk).toMatchObject({ kid, alg: "EdDSA", use: "sig" });
+        expect(jwk).not.toHaveProperty("d");
+
+        const [header, body, signature] = token.split(".");
+        const publicKey = crypto.createPublicKey({ key: jwk, format: "jwk" });
+        expect(crypto.verify(null, Buffer.from(`${header}.${body}`), publicKey, Buffer.from(signature, "base64url"))).toBe(true);
+    });
+
+    it("only stores private keys encrypted", async () => {
+        await keyring.rotate(0);
+
+        expect(storedKeys[0].encryptedPrivateKey).not.toContain("PRIVATE KEY");
+    });
+
+    it("keeps verifying tokens of the previous key after a rotation", async () => {
+        await keyring.rotate(0);
+        const token = await keyring.sign({ userId: "user_1" }, 60_000);
+        await keyring.rotate(0);
+
+        expect(await keyring.getPublicKeys()).toHaveLength(2);
+        expect(await keyring.verify(token)).toMatchObject({ userId: "user_1" });
+    });
+
+    it("rejects tokens signed with a key it doesn't know", async () => {
+        await keyring.rotate(0);
+        const { privateKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+        const forged = jwt.sign({ userId: "user_1" }, privateKey, { algorithm: "RS256", keyid: "unknown", expiresIn: 60 });
+
+        await expect(keyring.verify(forged)).rejects.toThrow("unknown key id");
+    });
+
+    it("rejects tokens whose algorithm doesn't match their key", async () => {
+        const kid = await keyring.rotate(0);
+        const forged = jwt.sign({ userId: "user_1" }, "guessed secret", { algorithm: "HS256", keyid: kid, expiresIn: 60 });
+
+        await expect(keyring.verify(forged)).rejects.toThrow("doesn't match");
+    });
+});
@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import loginAttemptModel from "../../../src/mongoose/models/login_attempt";
+import securityEventModel from "../../../src/mongoose/models/security_event";
+import CONFIG from "../../../src/util/config";
+import { assertLoginAllowed, LoginSubject, recordLoginFailure, recordLoginSuccess } from "../../../src/server/auth/login_protection";
+import { TooManyRequestsError } from "../../../src/server/errors";
+import { captureEmails } from "../../helpers/email";
+import { query, updateResult } from "../../helpers/mongoose";
+
+const subject: LoginSubject = { identifier: "thabo", userId: "user_1", ip: "203.0.113.7" };
+const recipient = { userId: "user_1", primaryEmail: "thabo@example.com", profile: { firstName: "Thabo" } };
+
+/** Make the next failure bring every key to the given amount of failures */
+function stubFailures(failures: number) {
+    vi.spyOn(loginAttemptModel, "findOneAndUpdate").mockReturnValue(query({ failures }));
+    return vi.spyOn(loginAttemptModel, "updateOne").mockReturnValue(query(updateResult(1)));
+}
+
+beforeEach(() => {
+    vi.spyOn(securityEventModel, "create").mockResolvedValue({} as never);
+});
+
+describe("assertLoginAllowed", () => {
+    it("lets logins through without recent failures", async () => {
+        vi.spyOn(loginAttemptModel, "find").mockReturnValue(query([]));
+
+        await expect(assertLoginAllowed(subject)).resolves.toBeUndefined();
+    });
+
+    it("refuses logins while the account is locked, telling the client when to retry", async () => {
+        vi.spyOn(loginAttemptModel, "find").mockReturnValue(query([{ key: "account:user_1", failures: 0, lockedUntil: new Date(Date.now() + 60_000) }]));
+
+        const error = await assertLoginAllowed(subject).catch(error => error);
+
+        expect(error).toBeInstanceOf(TooManyRequestsError);
+        expect(error.retryAfter).toBeGreaterThan(55);
+        expect(error.message).toContain("locked");
+    });
+});
+
+describe("recordLoginFailure", () => {
+    it("makes further attempts wait once the free attempts are used up", async () => {
+        const update = stubFailures(5);
+
+        await recordLoginFailure(subject, recipient);
+
+        expect(update).toHaveBeenCalledWith({ key: "account:user_1" }, { $set: { nextAttemptAt: expect.any(Date) } });
+    });
+
+    it("locks the account after too many failures and lets the owner know", async () => {
+        const emails = captureEmails();
+        const update = stubFailures(CONFIG.login.maxFailedAttempts);
+
+        await recordLoginFailure(subject, recipient);
+
+        expect(update).toHaveBeenCalledWith(
+            expect.objectContaining({ key: "account:user_1" }),
+            expect.objectContaining({ $set: expect.objectContaining({ failures: 0, lockedUntil: expect.any(Date) }) }),
+        );
+        expect(securityEventModel.create).toHaveBeenCalledWith(expect.objectContaining({ userId: "user_1", type: "accountLocked" }));
+        await vi.waitFor(() => expect(emails).toHaveBeenCalledWith(expect.objectContaining({ to: "thabo@example.com", template: "accountLocked" })));
+    });
+});
+
+describe("recordLoginSuccess", () => {
+    it("forgets the failures of the account but not of the IP", async () => {
+        const forget = vi.spyOn(loginAttemptModel, "deleteOne").mockReturnValue(query({ deletedCount: 1 }));
+
+        await recordLoginSuccess(subject);
+
+        expect(forget).toHaveBeenCalledTimes(1);
+        expect(forget).toHaveBeenCalledWith({ key: "account:user_1" });
+    });
+});
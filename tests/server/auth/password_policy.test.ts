@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { assertPasswordPolicy, isCommonPassword } from "../../../src/server/auth/password_policy";
+import { ValidationError } from "../../../src/server/errors";
+
+const context = { username: "thabo_n", email: "thabo.nkosi@example.com", firstName: "Thabo", lastName: "Nkosi" };
+
+/** The validation errors a password is rejected with, empty if it's allowed */
+function getPolicyErrors(password: string): unknown {
+    try {
+        assertPasswordPolicy(password, context, "newPassword");
+        return [];
+    } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        return (error as ValidationError).details.validationErrors;
+    }
+}
+
+describe("assertPasswordPolicy", () => {
+    it("accepts a strong password and reports its strength", () => {
+        const strength = assertPasswordPolicy("Correct-Horse-Battery-42", context);
+
+        expect(strength.score).toBeGreaterThanOrEqual(3);
+    });
+
+    it("rejects common passwords, including ones with digits and symbols tacked on", () => {
+        expect(isCommonPassword("Password123!")).toBe(true);
+        expect(getPolicyErrors("Password123!")).toEqual(["newPassword: This password is too common, it shows up in lists of breached passwords."]);
+    });
+
+    it("rejects passwords containing the user's name, username or email", () => {
+        for (const password of ["Thabo-Likes-Mangoes-7", "my-thabo_n-password!", "NKOSI&friends-2024"]) {
+            expect(getPolicyErrors(password)).toEqual(["newPassword: Password can't contain your name, username or email."]);
+        }
+    });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { base32Encode, generateTotp, getTotpCounter, verifyTotp } from "../../../src/server/auth/totp";
+
+// Test secret from RFC 6238, the SHA-1 vectors are truncated to 6 digits
+const secret = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("generateTotp", () => {
+    it("matches the RFC 6238 test vectors", () => {
+        expect(generateTotp(secret, getTotpCounter(59_000))).toBe("287082");
+        expect(generateTotp(secret, getTotpCounter(1_111_111_109_000))).toBe("081804");
+        expect(generateTotp(secret, getTotpCounter(2_000_000_000_000))).toBe("279037");
+    });
+});
+
+describe("verifyTotp", () => {
+    const now = 1_111_111_109_000;
+
+    it("accepts the current code and the ones next to it, returning their time step", () => {
+        const counter = getTotpCounter(now);
+
+        expect(verifyTotp(secret, generateTotp(secret, counter), 1, now)).toBe(counter);
+        expect(verifyTotp(secret, generateTotp(secret, counter - 1), 1, now)).toBe(counter - 1);
+        expect(verifyTotp(secret, generateTotp(secret, counter + 1), 1, now)).toBe(counter + 1);
+    });
+
+    it("rejects wrong and outdated codes", () => {
+        const counter = getTotpCounter(now);
+
+        expect(verifyTotp(secret, "000000", 1, now)).toBeNull();
+        expect(verifyTotp(secret, generateTotp(secret, counter - 2), 1, now)).toBeNull();
+        expect(verifyTotp(secret, "12345", 1, now)).toBeNull();
+    });
+});
@@ -0,0 +1,73 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { userModel } from "../../../src/mongoose";
+import loginAttemptModel from "../../../src/mongoose/models/login_attempt";
+import oneTimeTokenModel from "../../../src/mongoose/models/one_time_token";
+import twoFactorModel from "../../../src/mongoose/models/two_factor";
+import { authenticateCredentials } from "../../../src/server/auth/credentials";
+import { encryptSecret } from "../../../src/server/auth/encryption";
+import { hashPassword } from "../../../src/server/auth/password";
+import { generateTotp, generateTotpSecret } from "../../../src/server/auth/totp";
+import { completeTwoFactorChallenge } from "../../../src/server/auth/two_factor";
+import { UnauthorizedError } from "../../../src/server/errors";
+import { query, updateResult } from "../../helpers/mongoose";
+
+const secret = generateTotpSecret();
+const challenge = { userId: "user_1", purpose: "twoFactorLogin", attempts: 0 };
+
+beforeEach(() => {
+    vi.spyOn(oneTimeTokenModel, "findOne").mockReturnValue(query(challenge));
+    vi.spyOn(twoFactorModel, "findOne").mockReturnValue(query({ userId: "user_1", enabled: true, secret: encryptSecret(secret), recoveryCodes: [] }));
+    vi.spyOn(twoFactorModel, "exists").mockReturnValue(query({ _id: "two_factor_1" }));
+    vi.spyOn(userModel, "findOne").mockReturnValue(query({ userId: "user_1", primaryEmail: "thabo@example.com" }));
+    vi.spyOn(loginAttemptModel, "find").mockReturnValue(query([]));
+    vi.spyOn(loginAttemptModel, "findOneAndUpdate").mockReturnValue(query({ failures: 1 }));
+    vi.spyOn(loginAttemptModel, "deleteOne").mockReturnValue(query({ deletedCount: 1 }));
+});
+
+describe("completeTwoFactorChallenge", () => {
+    it("logs the user in with the current code from their authenticator app", async () => {
+        vi.spyOn(twoFactorModel, "updateOne").mockReturnValue(query(updateResult(1)));
+        const consume = vi.spyOn(oneTimeTokenModel, "findOneAndUpdate").mockReturnValue(query(challenge));
+
+        const result = await completeTwoFactorChallenge("challenge-token", generateTotp(secret), { ip: "203.0.113.7" });
+
+        expect(result).toEqual({ userId: "user_1", method: "totp" });
+        expect(consume).toHaveBeenCalledWith(expect.objectContaining({ purpose: "twoFactorLogin", usedAt: null }), { $set: { usedAt: expect.any(Date) } });
+        // Failed logins are only forgotten once the second factor passed
+        expect(loginAttemptModel.deleteOne).toHaveBeenCalledWith({ key: "account:user_1" });
+    });
+
+    it("counts wrong codes toward the account lockout", async () => {
+        vi.spyOn(oneTimeTokenModel, "findOneAndUpdate").mockReturnValue(query({ ...challenge, attempts: 1 }));
+
+        await expect(completeTwoFactorChallenge("challenge-token", "000000", { ip: "203.0.113.7" })).rejects.toThrow(UnauthorizedError);
+
+        expect(loginAttemptModel.findOneAndUpdate).toHaveBeenCalledWith({ key: "account:user_1" }, expect.objectContaining({ $inc: { failures: 1 } }), expect.anything());
+        expect(loginAttemptModel.findOneAndUpdate).toHaveBeenCalledWith({ key: "ip:203.0.113.7" }, expect.objectContaining({ $inc: { failures: 1 } }), expect.anything());
+        expect(loginAttemptModel.deleteOne).not.toHaveBeenCalled();
+    });
+
+    it("refuses any code while the account is locked", async () => {
+        vi.spyOn(loginAttemptModel, "find").mockReturnValue(query([{ key: "account:user_1", lockedUntil: new Date(Date.now() + 60_000) }]));
+
+        await expect(completeTwoFactorChallenge("challenge-token", generateTotp(secret))).rejects.toMatchObject({ status: 429 });
+        expect(twoFactorModel.findOne).not.toHaveBeenCalled();
+    });
+});
+
+describe("the password step", () => {
+    const password = "Correct-Horse-Battery-42";
+    let passwordHash: string;
+
+    beforeAll(async () => {
+        passwordHash = await hashPassword(password);
+    });
+
+    it("doesn't forget failed logins of two-factor users", async () => {
+        vi.spyOn(userModel, "findOne").mockReturnValue(query({ userId: "user_1", username: "thabo", primaryEmail: "thabo@example.com", emailVerified: true, passwordHash }));
+
+        await authenticateCredentials("thabo", password);
+
+        expect(loginAttemptModel.deleteOne).not.toHaveBeenCalled();
+    });
+});
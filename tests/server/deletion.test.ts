@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Model } from "mongoose";
+import { RefreshToken, userModel } from "../../src/mongoose";
+import listingModel from "../../src/mongoose/models/listing";
+import channelModel from "../../src/mongoose/models/channel";
+import messageModel from "../../src/mongoose/models/message";
+import apiKeyModel from "../../src/mongoose/models/api_key";
+import twoFactorModel from "../../src/mongoose/models/two_factor";
+import oneTimeTokenModel from "../../src/mongoose/models/one_time_token";
+import loginAttemptModel from "../../src/mongoose/models/login_attempt";
+import securityEventModel from "../../src/mongoose/models/security_event";
+import emailOutboxModel from "../../src/mongoose/models/email_outbox";
+import { DELETED_USER_ID, deleteEntity } from "../../src/server/deletion";
+import { deleteResult, query, updateResult } from "../helpers/mongoose";
+
+const MODELS = [userModel, RefreshToken, listingModel, channelModel, messageModel, apiKeyModel, twoFactorModel, oneTimeTokenModel, loginAttemptModel, securityEventModel, emailOutboxModel] as Model<any>[];
+
+const collection = (model: Model<any>) => model.collection.collectionName;
+
+beforeEach(() => {
+    for (const model of MODELS) {
+        vi.spyOn(model, "exists").mockReturnValue(query({ _id: "found" }));
+        vi.spyOn(model, "deleteMany").mockReturnValue(query(deleteResult(0)));
+    }
+});
+
+describe("deleteEntity", () => {
+    it("cleans up everything a user leaves behind", async () => {
+        vi.spyOn(RefreshToken, "deleteMany").mockReturnValue(query(deleteResult(2)));
+        vi.spyOn(listingModel, "deleteMany").mockReturnValue(query(deleteResult(3)));
+        vi.spyOn(userModel, "deleteMany").mockReturnValue(query(deleteResult(1)));
+        vi.spyOn(channelModel, "deleteMany").mockReturnValue(query(deleteResult(1)));
+        vi.spyOn(messageModel, "deleteMany").mockReturnValue(query(deleteResult(5)));
+        vi.spyOn(channelModel, "find").mockReturnValue(query([
+            { channelId: "channel_direct", ownerUserIds: ["user_1", "user_2"] },
+            { channelId: "channel_group", ownerUserIds: ["user_1", "user_2", "user_3"] },
+        ]));
+        const leave = vi.spyOn(channelModel, "updateOne").mockReturnValue(query(updateResult(1)));
+        const anonymise = vi.spyOn(messageModel, "updateMany").mockReturnValue(query(updateResult(4)));
+
+        const report = await deleteEntity("user", "user_1");
+
+        expect(report).toEqual({
+            entity: "user",
+            id: "user_1",
+            deleted: {
+                [collection(userModel)]: 1,
+                [collection(RefreshToken)]: 2,
+                [collection(listingModel)]: 3,
+                [collection(channelModel)]: 1,
+                [collection(messageModel)]: 5,
+            },
+            updated: { [collection(channelModel)]: 1, [collection(messageModel)]: 4 },
+            closedConnections: 0,
+            transactional: false,
+        });
+        expect(listingModel.deleteMany).toHaveBeenCalledWith({ ownerUserId: "user_1" }, expect.anything());
+        expect(channelModel.deleteMany).toHaveBeenCalledWith({ channelId: "channel_direct" }, expect.anything());
+        expect(messageModel.deleteMany).toHaveBeenCalledWith({ channelId: "channel_direct" }, expect.anything());
+        expect(leave).toHaveBeenCalledWith({ channelId: "channel_group" }, { $pull: { ownerUserIds: "user_1" } }, expect.anything());
+        expect(anonymise).toHaveBeenCalledWith({ senderUserId: "user_1" }, { $set: { senderUserId: DELETED_USER_ID } }, expect.anything());
+    });
+
+    it("leaves everything alone when the entity doesn't exist", async () => {
+        vi.spyOn(userModel, "exists").mockReturnValue(query(null));
+
+        expect(await deleteEntity("user", "user_missing")).toBeNull();
+        for (const model of MODELS) expect(model.deleteMany).not.toHaveBeenCalled();
+    });
+});
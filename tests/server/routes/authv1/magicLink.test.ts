@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from "vitest";
+import { RefreshToken, userModel } from "../../../../src/mongoose";
+import oneTimeTokenModel from "../../../../src/mongoose/models/one_time_token";
+import twoFactorModel from "../../../../src/mongoose/models/two_factor";
+import CONFIG from "../../../../src/util/config";
+import { hashOneTimeToken } from "../../../../src/server/auth/one_time_token";
+import "../../../../src/server/routes/authv1/magicLink";
+import { captureEmails, getTokenFromEmail } from "../../../helpers/email";
+import { query } from "../../../helpers/mongoose";
+import { useServer } from "../../../helpers/server";
+
+const call = useServer();
+
+const user = { userId: "user_1", primaryEmail: "thabo@example.com", emailVerified: true, profile: { firstName: "Thabo" } };
+
+describe("magic link login", () => {
+    it("emails a single-use link that logs the user in", async () => {
+        vi.spyOn(userModel, "findOne").mockReturnValue(query(user));
+        vi.spyOn(oneTimeTokenModel, "deleteMany").mockReturnValue(query({ deletedCount: 0 }));
+        const storeToken = vi.spyOn(oneTimeTokenModel, "create").mockResolvedValue({} as never);
+        const emails = captureEmails();
+
+        const requested = await call("POST:/api/authv1/magic-link", { email: user.primaryEmail });
+        expect(requested.status).toBe(200);
+
+        await vi.waitFor(() => expect(emails).toHaveBeenCalled());
+        const token = getTokenFromEmail(emails.mock.calls[0][0] as any);
+        expect(storeToken).toHaveBeenCalledWith(expect.objectContaining({ userId: user.userId, purpose: "magicLink", tokenHash: hashOneTimeToken(token) }));
+
+        const consume = vi.spyOn(oneTimeTokenModel, "findOneAndUpdate").mockReturnValue(query({ userId: user.userId }));
+        vi.spyOn(twoFactorModel, "exists").mockReturnValue(query(null));
+        vi.spyOn(RefreshToken, "create").mockResolvedValue({} as never);
+
+        const verified = await call(`GET:/api/authv1/magic-link/verify?token=${token}`);
+
+        expect(verified.status).toBe(302);
+        expect(verified.headers.get("location")).toBe(CONFIG.domain.frontendUri);
+        expect(verified.headers.get("set-cookie")).toContain("accessToken=");
+        expect(consume).toHaveBeenCalledWith(expect.objectContaining({ tokenHash: hashOneTimeToken(token), purpose: "magicLink", usedAt: null }), expect.anything());
+    });
+
+    it("sends invalid, expired or used links back to the login page", async () => {
+        vi.spyOn(oneTimeTokenModel, "findOneAndUpdate").mockReturnValue(query(null));
+        const createSession = vi.spyOn(RefreshToken, "create");
+
+        const response = await call("GET:/api/authv1/magic-link/verify?token=used");
+
+        expect(response.status).toBe(302);
+        expect(response.headers.get("location")).toMatch(new RegExp(`^${CONFIG.domain.frontendUri}/login\\?error=`));
+        expect(response.headers.get("set-cookie")).toBeNull();
+        expect(createSession).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from "vitest";
+import { userModel } from "../../../../src/mongoose";
+import oneTimeTokenModel from "../../../../src/mongoose/models/one_time_token";
+import { jwtService } from "../../../../src/server/auth/jwt";
+import { hashOneTimeToken } from "../../../../src/server/auth/one_time_token";
+import { verifyPassword } from "../../../../src/server/auth/password";
+import "../../../../src/server/routes/authv1/passwordReset";
+import { captureEmails, getTokenFromEmail } from "../../../helpers/email";
+import { query, updateResult } from "../../../helpers/mongoose";
+import { useServer } from "../../../helpers/server";
+
+const call = useServer();
+
+const user = { userId: "user_1", username: "thabo", primaryEmail: "thabo@example.com", profile: { firstName: "Thabo", lastName: "Nkosi" } };
+const newPassword = "Correct-Horse-Battery-42";
+
+describe("POST /api/authv1/password/forgot", () => {
+    it("emails a reset link with a token that is only stored hashed", async () => {
+        vi.spyOn(userModel, "findOne").mockReturnValue(query(user));
+        vi.spyOn(oneTimeTokenModel, "deleteMany").mockReturnValue(query({ deletedCount: 0 }));
+        const createToken = vi.spyOn(oneTimeTokenModel, "create").mockResolvedValue({} as never);
+        const emails = captureEmails();
+
+        const response = await call("POST:/api/authv1/password/forgot", { email: user.primaryEmail });
+        expect(response.status).toBe(200);
+
+        await vi.waitFor(() => expect(emails).toHaveBeenCalled());
+        const email = emails.mock.calls[0][0] as any;
+        const token = getTokenFromEmail(email);
+
+        expect(email.to).toBe(user.primaryEmail);
+        expect(createToken).toHaveBeenCalledWith(expect.objectContaining({ userId: user.userId, purpose: "passwordReset", tokenHash: hashOneTimeToken(token) }));
+    });
+
+    it("responds the same way for unknown emails without sending anything", async () => {
+        const findUser = vi.spyOn(userModel, "findOne").mockReturnValue(query(null));
+        const emails = captureEmails();
+
+        const response = await call("POST:/api/authv1/password/forgot", { email: "nobody@example.com" });
+
+        expect(response.status).toBe(200);
+        await vi.waitFor(() => expect(findUser).toHaveBeenCalled());
+        expect(emails).not.toHaveBeenCalled();
+    });
+});
+
+describe("POST /api/authv1/password/reset", () => {
+    it("sets the new password and logs the user out everywhere", async () => {
+        const resetToken = { userId: user.userId, purpose: "passwordReset" };
+        vi.spyOn(oneTimeTokenModel, "findOne").mockReturnValue(query(resetToken));
+        vi.spyOn(oneTimeTokenModel, "findOneAndUpdate").mockReturnValue(query(resetToken));
+        vi.spyOn(userModel, "findOne").mockReturnValue(query(user));
+        const updateUser = vi.spyOn(userModel, "updateOne").mockReturnValue(query(updateResult(1)));
+        const revokeSessions = vi.spyOn(jwtService, "revokeAllRefreshTokens").mockResolvedValue(2);
+
+        const response = await call("POST:/api/authv1/password/reset", { token: "a".repeat(64), password: newPassword });
+
+        expect(response.status).toBe(200);
+        const [, update] = updateUser.mock.calls[0] as any[];
+        expect(await verifyPassword(newPassword, update.$set.passwordHash)).toBe(true);
+        expect(revokeSessions).toHaveBeenCalledWith(user.userId);
+    });
+
+    it("rejects invalid or expired tokens without touching the password", async () => {
+        vi.spyOn(oneTimeTokenModel, "findOne").mockReturnValue(query(null));
+        const updateUser = vi.spyOn(userModel, "updateOne");
+
+        const response = await call("POST:/api/authv1/password/reset", { token: "expired", password: newPassword });
+
+        expect(response.status).toBe(400);
+        expect(response.body).toMatchObject({ success: false, code: "BAD_REQUEST", error: "Invalid Reset Token" });
+        expect(updateUser).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { userModel } from "../../../../src/mongoose";
+import oneTimeTokenModel from "../../../../src/mongoose/models/one_time_token";
+import "../../../../src/server/routes/authv1/phone";
+import { query, updateResult } from "../../../helpers/mongoose";
+import { useServer } from "../../../helpers/server";
+
+const call = useServer();
+
+const phoneNumber = "+27821234567";
+const pendingUser = { userId: "user_1", username: "thabo", phoneNumber, phoneVerified: false };
+
+beforeEach(() => {
+    vi.spyOn(oneTimeTokenModel, "updateOne").mockReturnValue(query(updateResult(1)));
+});
+
+describe("POST /api/authv1/phone/verify", () => {
+    it("verifies the number of the account the code was sent for", async () => {
+        const findUser = vi.spyOn(userModel, "findOne").mockReturnValue(query(pendingUser));
+        vi.spyOn(oneTimeTokenModel, "findOneAndUpdate").mockReturnValue(query({ userId: "user_1" }));
+        vi.spyOn(userModel, "exists").mockReturnValue(query(null));
+        const verify = vi.spyOn(userModel, "updateOne").mockReturnValue(query(updateResult(1)));
+
+        const response = await call("POST:/api/authv1/phone/verify", { username: "thabo", phoneNumber: "082 123 4567", code: "123456" });
+
+        expect(response.status).toBe(200);
+        expect(findUser).toHaveBeenCalledWith({ username: "thabo", phoneNumber, phoneVerified: { $ne: true } }, expect.anything());
+        expect(verify).toHaveBeenCalledWith({ userId: "user_1", phoneNumber }, { $set: { phoneVerified: true } });
+    });
+
+    it("rejects a wrong code", async () => {
+        vi.spyOn(userModel, "findOne").mockReturnValue(query(pendingUser));
+        vi.spyOn(oneTimeTokenModel, "findOneAndUpdate").mockReturnValue(query(null));
+        const verify = vi.spyOn(userModel, "updateOne");
+
+        const response = await call("POST:/api/authv1/phone/verify", { username: "thabo", phoneNumber, code: "654321" });
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe("Invalid Code");
+        expect(verify).not.toHaveBeenCalled();
+    });
+
+    it("refuses numbers another account verified first", async () => {
+        vi.spyOn(userModel, "findOne").mockReturnValue(query(pendingUser));
+        vi.spyOn(oneTimeTokenModel, "findOneAndUpdate").mockReturnValue(query({ userId: "user_1" }));
+        vi.spyOn(userModel, "exists").mockReturnValue(query({ _id: "user_2" }));
+        const verify = vi.spyOn(userModel, "updateOne");
+
+        const response = await call("POST:/api/authv1/phone/verify", { username: "thabo", phoneNumber, code: "123456" });
+
+        expect(response.status).toBe(409);
+        expect(verify).not.toHaveBeenCalled();
+    });
+});
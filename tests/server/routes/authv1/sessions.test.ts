@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from "vitest";
+import { RefreshToken } from "../../../../src/mongoose";
+import "../../../../src/server/routes/authv1/sessions";
+import { query, updateResult } from "../../../helpers/mongoose";
+import { bearer, useServer } from "../../../helpers/server";
+
+const call = useServer();
+
+const auth = bearer({ userId: "user_1", sessionId: "session_current" });
+
+describe("GET /api/authv1/sessions", () => {
+    it("lists the active sessions and marks the current one", async () => {
+        const findSessions = vi.spyOn(RefreshToken, "find").mockReturnValue(query([
+            { sessionId: "session_current", userAgent: "Firefox" },
+            { sessionId: "session_other", userAgent: "Chrome" },
+        ]));
+
+        const response = await call("GET:/api/authv1/sessions", undefined, auth);
+
+        expect(response.status).toBe(200);
+        expect(response.body.sessions).toEqual([
+            { sessionId: "session_current", userAgent: "Firefox", current: true },
+            { sessionId: "session_other", userAgent: "Chrome", current: false },
+        ]);
+        expect(findSessions).toHaveBeenCalledWith(expect.objectContaining({ userId: "user_1", isRevoked: false }), expect.anything());
+    });
+
+    it("requires authentication", async () => {
+        const response = await call("GET:/api/authv1/sessions");
+        expect(response.status).toBe(401);
+    });
+});
+
+describe("DELETE /api/authv1/sessions/:sessionId", () => {
+    it("revokes the refresh tokens of another session", async () => {
+        const revoke = vi.spyOn(RefreshToken, "updateMany").mockReturnValue(query(updateResult(1)));
+
+        const response = await call("DELETE:/api/authv1/sessions/session_other", undefined, auth);
+
+        expect(response.status).toBe(200);
+        expect(revoke).toHaveBeenCalledWith({ userId: "user_1", sessionId: "session_other", isRevoked: false }, { isRevoked: true });
+    });
+
+    it("responds with 404 for sessions that don't exist or were already revoked", async () => {
+        vi.spyOn(RefreshToken, "updateMany").mockReturnValue(query(updateResult(0)));
+
+        const response = await call("DELETE:/api/authv1/sessions/session_gone", undefined, auth);
+
+        expect(response.status).toBe(404);
+        expect(response.body.code).toBe("NOT_FOUND");
+    });
+});
+
+describe("POST /api/authv1/logout-all", () => {
+    it("revokes every session of the user", async () => {
+        const revoke = vi.spyOn(RefreshToken, "updateMany").mockReturnValue(query(updateResult(3)));
+
+        const response = await call("POST:/api/authv1/logout-all", undefined, auth);
+
+        expect(response.status).toBe(200);
+        expect(response.body.revokedSessions).toBe(3);
+        expect(revoke).toHaveBeenCalledWith({ userId: "user_1", isRevoked: false }, { isRevoked: true });
+    });
+});
@@ -0,0 +1,64 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { RefreshToken, userModel } from "../../../../src/mongoose";
+import loginAttemptModel from "../../../../src/mongoose/models/login_attempt";
+import twoFactorModel from "../../../../src/mongoose/models/two_factor";
+import { hashPassword } from "../../../../src/server/auth/password";
+import "../../../../src/server/routes/authv1/token";
+import "../../../../src/server/routes/authv1/sessions";
+import { query } from "../../../helpers/mongoose";
+import { useServer } from "../../../helpers/server";
+
+const call = useServer();
+
+const password = "Correct-Horse-Battery-42";
+let user: Record<string, unknown>;
+
+beforeAll(async () => {
+    user = { userId: "user_1", username: "thabo", primaryEmail: "thabo@example.com", emailVerified: true, passwordHash: await hashPassword(password) };
+});
+
+beforeEach(() => {
+    vi.spyOn(userModel, "findOne").mockReturnValue(query(user));
+    vi.spyOn(loginAttemptModel, "find").mockReturnValue(query([]));
+    vi.spyOn(loginAttemptModel, "findOneAndUpdate").mockReturnValue(query({ failures: 1 }));
+    vi.spyOn(loginAttemptModel, "deleteOne").mockReturnValue(query({ deletedCount: 0 }));
+    vi.spyOn(twoFactorModel, "exists").mockReturnValue(query(null));
+    vi.spyOn(RefreshToken, "create").mockResolvedValue({} as never);
+});
+
+describe("POST /api/authv1/token", () => {
+    it("returns the tokens in the body instead of setting cookies", async () => {
+        const response = await call("POST:/api/authv1/token", { identifier: "thabo", password });
+
+        expect(response.status).toBe(200);
+        expect(response.body).toMatchObject({ success: true, tokenType: "Bearer", userId: "user_1" });
+        expect(response.body.accessToken).toEqual(expect.any(String));
+        expect(response.body.refreshToken).toEqual(expect.any(String));
+        expect(response.headers.get("set-cookie")).toBeNull();
+    });
+
+    it("rejects a wrong password", async () => {
+        const response = await call("POST:/api/authv1/token", { identifier: "thabo", password: "wrong password" });
+
+        expect(response.status).toBe(401);
+        expect(response.body).toMatchObject({ success: false, code: "UNAUTHORIZED" });
+    });
+});
+
+describe("bearer authentication", () => {
+    it("accepts the access token from the token endpoint", async () => {
+        const { body } = await call("POST:/api/authv1/token", { identifier: "thabo", password });
+        vi.spyOn(RefreshToken, "find").mockReturnValue(query([]));
+
+        const response = await call("GET:/api/authv1/sessions", undefined, { Authorization: `Bearer ${body.accessToken}` });
+
+        expect(response.status).toBe(200);
+    });
+
+    it("rejects malformed or invalid bearer tokens", async () => {
+        for (const authorization of ["Bearer", "Basic dXNlcjpwYXNz", "Bearer not-a-token"]) {
+            const response = await call("GET:/api/authv1/sessions", undefined, { Authorization: authorization });
+            expect(response.status).toBe(401);
+        }
+    });
+});
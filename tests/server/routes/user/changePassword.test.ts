@@ -0,0 +1,53 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { userModel } from "../../../../src/mongoose";
+import { jwtService } from "../../../../src/server/auth/jwt";
+import { hashPassword, verifyPassword } from "../../../../src/server/auth/password";
+import "../../../../src/server/routes/user/changePassword";
+import { query, updateResult } from "../../../helpers/mongoose";
+import { bearer, useServer } from "../../../helpers/server";
+
+const call = useServer();
+
+const auth = bearer({ userId: "user_1", sessionId: "session_current" });
+const currentPassword = "Old-Horse-Battery-41";
+const newPassword = "Correct-Horse-Battery-42";
+let passwordHash: string;
+
+beforeAll(async () => {
+    passwordHash = await hashPassword(currentPassword);
+});
+
+beforeEach(() => {
+    vi.spyOn(userModel, "findOne").mockReturnValue(query({ userId: "user_1", username: "thabo", primaryEmail: "thabo@example.com", passwordHash }));
+});
+
+describe("POST /api/user/password", () => {
+    it("changes the password and logs out every other session", async () => {
+        const updateUser = vi.spyOn(userModel, "updateOne").mockReturnValue(query(updateResult(1)));
+        const revokeOthers = vi.spyOn(jwtService, "revokeOtherSessions").mockResolvedValue(2);
+
+        const response = await call("POST:/api/user/password", { currentPassword, newPassword }, auth);
+
+        expect(response.status).toBe(200);
+        expect(response.body.revokedSessions).toBe(2);
+        const [, update] = updateUser.mock.calls[0] as any[];
+        expect(await verifyPassword(newPassword, update.$set.passwordHash)).toBe(true);
+        expect(revokeOthers).toHaveBeenCalledWith("user_1", "session_current");
+    });
+
+    it("rejects a wrong current password", async () => {
+        const updateUser = vi.spyOn(userModel, "updateOne");
+
+        const response = await call("POST:/api/user/password", { currentPassword: "Not-My-Password-1", newPassword }, auth);
+
+        expect(response.status).toBe(401);
+        expect(updateUser).not.toHaveBeenCalled();
+    });
+
+    it("rejects new passwords that don't meet the policy", async () => {
+        const response = await call("POST:/api/user/password", { currentPassword, newPassword: "thabo-secret-99" }, auth);
+
+        expect(response.status).toBe(400);
+        expect(response.body).toMatchObject({ code: "VALIDATION_FAILED", validationErrors: ["newPassword: Password can't contain your name, username or email."] });
+    });
+});
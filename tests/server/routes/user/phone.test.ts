@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from "vitest";
+import { userModel } from "../../../../src/mongoose";
+import oneTimeTokenModel from "../../../../src/mongoose/models/one_time_token";
+import "../../../../src/server/routes/user/phone";
+import { query, updateResult } from "../../../helpers/mongoose";
+import { bearer, useServer } from "../../../helpers/server";
+
+const call = useServer();
+
+const auth = bearer({ userId: "user_1" });
+const phoneNumber = "+27821234567";
+
+describe("PUT /api/user/phone", () => {
+    it("saves the number unverified and texts it a code, without touching other accounts", async () => {
+        vi.spyOn(userModel, "findOne").mockReturnValue(query({ userId: "user_1" }));
+        const holders = vi.spyOn(userModel, "exists").mockReturnValue(query(null));
+        const update = vi.spyOn(userModel, "updateOne").mockReturnValue(query(updateResult(1)));
+        vi.spyOn(oneTimeTokenModel, "exists").mockReturnValue(query(null));
+        vi.spyOn(oneTimeTokenModel, "deleteMany").mockReturnValue(query({ deletedCount: 0 }));
+        vi.spyOn(oneTimeTokenModel, "create").mockResolvedValue({} as never);
+
+        const response = await call("PUT:/api/user/phone", { phoneNumber }, auth);
+
+        expect(response.status).toBe(200);
+        expect(response.body).toMatchObject({ phoneNumber, codeSent: true });
+        // Only verified numbers are taken, someone else entering this number doesn't stop its owner from adding it
+        expect(holders).toHaveBeenCalledWith({ phoneNumber, phoneVerified: true, userId: { $ne: "user_1" } });
+        expect(update).toHaveBeenCalledTimes(1);
+        expect(update).toHaveBeenCalledWith({ userId: "user_1" }, { $set: { phoneNumber, phoneVerified: false } });
+    });
+
+    it("rejects numbers another account has verified", async () => {
+        vi.spyOn(userModel, "findOne").mockReturnValue(query({ userId: "user_1" }));
+        vi.spyOn(userModel, "exists").mockReturnValue(query({ _id: "user_2" }));
+        const update = vi.spyOn(userModel, "updateOne");
+
+        const response = await call("PUT:/api/user/phone", { phoneNumber }, auth);
+
+        expect(response.status).toBe(409);
+        expect(update).not.toHaveBeenCalled();
+    });
+});
+
+describe("DELETE /api/user/phone", () => {
+    it("removes the number of users who have an email", async () => {
+        vi.spyOn(userModel, "findOne").mockReturnValue(query({ primaryEmail: "thabo@example.com" }));
+        const update = vi.spyOn(userModel, "updateOne").mockReturnValue(query(updateResult(1)));
+
+        const response = await call("DELETE:/api/user/phone", undefined, auth);
+
+        expect(response.status).toBe(200);
+        expect(update).toHaveBeenCalledWith({ userId: "user_1" }, { $unset: { phoneNumber: 1 }, $set: { phoneVerified: false } });
+    });
+
+    it("keeps the number of users who signed up without an email", async () => {
+        vi.spyOn(userModel, "findOne").mockReturnValue(query({}));
+        const update = vi.spyOn(userModel, "updateOne");
+
+        const response = await call("DELETE:/api/user/phone", undefined, auth);
+
+        expect(response.status).toBe(400);
+        expect(update).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,9 @@
+import mongoose from "mongoose";
+import { vi } from "vitest";
+
+// There's no database in tests, every query a test relies on is stubbed and anything else fails right away instead of hanging
+mongoose.set("bufferCommands", false);
+mongoose.set("autoIndex", false);
+
+// Background jobs are started on import, tests call them directly instead
+vi.mock("node-schedule", () => ({ default: { scheduleJob: vi.fn() } }));
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { isPhoneNumber, maskPhoneNumber, normalizePhoneNumber } from "../../src/util/phone";
+
+describe("normalizePhoneNumber", () => {
+    it("turns common formats into E.164", () => {
+        expect(normalizePhoneNumber("082 123 4567")).toBe("+27821234567");
+        expect(normalizePhoneNumber("(082) 123-4567")).toBe("+27821234567");
+        expect(normalizePhoneNumber("+27 82 123 4567")).toBe("+27821234567");
+        expect(normalizePhoneNumber("0044 20 7946 0958")).toBe("+442079460958");
+    });
+
+    it("rejects input that isn't a phone number", () => {
+        expect(normalizePhoneNumber("821234567")).toBeNull();
+        expect(normalizePhoneNumber("+0821234567")).toBeNull();
+        expect(normalizePhoneNumber("+27 82 123")).toBeNull();
+        expect(normalizePhoneNumber("thabo")).toBeNull();
+    });
+});
+
+describe("isPhoneNumber", () => {
+    it("tells phone numbers apart from usernames made of digits", () => {
+        expect(isPhoneNumber("082 123 4567")).toBe(true);
+        expect(isPhoneNumber("1234567890")).toBe(false);
+    });
+});
+
+describe("maskPhoneNumber", () => {
+    it("only shows the country code and the last digits", () => {
+        expect(maskPhoneNumber("+27821234567")).toBe("+27*****4567");
+    });
+});
@@ -0,0 +1,19 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+    test: {
+        include: ["tests/**/*.test.ts"],
+        setupFiles: ["tests/setup.ts"],
+        restoreMocks: true,
+        env: {
+            NODE_ENV: "test",
+            LOG_LEVEL: "error",
+            JWT_ALGORITHM: "HS256",
+            JWT_SECRET: "test_secret",
+            JWT_REFRESH_SECRET: "test_refresh_secret",
+            RATE_LIMIT_ENABLED: "false",
+            EMAIL_TRANSPORT: "console",
+            SMS_PROVIDER: "console",
+        },
+    },
+});